@@ -0,0 +1,177 @@
+import { z } from "zod";
+import type { LiFiStep, Token } from "@lifi/sdk";
+import { erc20Abi, maxUint256, type Address } from "viem";
+import { formatAmount, resolvedAmountSchema } from "./resolve.js";
+import { isNativeToken } from "./transaction.js";
+import { ToolError } from "./errors.js";
+import { readContracts, type ChainClient } from "./rpc.js";
+
+export interface KnownSpender {
+    address: string;
+    name: string;
+}
+
+// LI.FI Diamond, the approval address of LI.FI quotes on most EVM chains
+const lifiDiamond: KnownSpender = { address: "0x1231DEB6f5749EF6cE6943a275A1D3E7486F4EaE", name: "LI.FI Diamond" };
+
+// Chains where LI.FI is deployed at a different address
+const chainSpenders: { [chainId: number]: KnownSpender[] } = {
+    324: [{ address: "0x341e94069f53234fE6DabeF707aD424830525715", name: "LI.FI Diamond (zkSync)" }],
+};
+
+// Approval addresses of the quotes and routes the quote providers returned, per chain, so that scans also cover the
+// spenders of the bridges and exchanges quotes went through. The oldest are dropped beyond maxPerChain.
+export function createSpenderRegistry(maxPerChain = 100) {
+    const byChain = new Map<number, Map<string, KnownSpender>>();
+
+    const record = (chainId: number, address: string | undefined, name: string) => {
+        if (!address) return;
+        let spenders = byChain.get(chainId);
+        if (!spenders) {
+            spenders = new Map();
+            byChain.set(chainId, spenders);
+        }
+        const key = address.toLowerCase();
+        if (spenders.has(key)) return;
+        if (spenders.size >= maxPerChain) {
+            spenders.delete(spenders.keys().next().value!);
+        }
+        spenders.set(key, { address, name });
+    };
+
+    return {
+        record,
+
+        recordStep(step: LiFiStep) {
+            record(step.action.fromChainId, step.estimate?.approvalAddress, `${step.toolDetails?.name ?? step.tool} spender`);
+        },
+
+        get(chainId: number): KnownSpender[] {
+            return [...(byChain.get(chainId)?.values() ?? [])];
+        },
+    };
+}
+
+export type SpenderRegistry = ReturnType<typeof createSpenderRegistry>;
+
+export function getKnownSpenders(chainId: number, extra: KnownSpender[] = []): KnownSpender[] {
+    const spenders = [...(chainSpenders[chainId] ?? [lifiDiamond]), ...extra];
+    const seen = new Set<string>();
+    return spenders.filter((spender) => {
+        const key = spender.address.toLowerCase();
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+    });
+}
+
+export const routeApprovalSchema = z.object({
+    chainId: z.number().describe("Chain ID"),
+    token: z.string().describe("Token address"),
+    owner: z.string().describe("Owner address"),
+    spender: z.string().optional().describe("Spender address from the quote's approvalAddress"),
+    required: resolvedAmountSchema.describe("Allowance the quote needs"),
+    allowance: resolvedAmountSchema.optional().describe("Current allowance"),
+    approvalNeeded: z.boolean().describe("Whether an approve transaction must be sent first"),
+    reason: z.string().optional().describe("Why no approval is needed"),
+});
+
+// ERC-20 allowance read through the pooled client of the token's chain
+export async function readAllowance(client: ChainClient, token: string, owner: string, spender: string) {
+    return client.readContract({ address: token as Address, abi: erc20Abi, functionName: "allowance", args: [owner as Address, spender as Address] });
+}
+
+export interface TokenSpender {
+    token: Token;
+    spenderAddress: string;
+}
+
+// Allowances of token / spender pairs, one multicall per chain; native tokens need no approval and are left out.
+// The allowance is undefined where it could not be read.
+export async function readAllowances(getPublicClient: (chainId: number) => ChainClient, owner: string, pairs: TokenSpender[]) {
+    const erc20Pairs = pairs.filter(({ token }) => !isNativeToken(token.address));
+    const chainIds = [...new Set(erc20Pairs.map(({ token }) => token.chainId))];
+    const allowances = new Map<TokenSpender, bigint | undefined>();
+    await Promise.all(chainIds.map(async (chainId) => {
+        const onChain = erc20Pairs.filter(({ token }) => token.chainId === chainId);
+        const results = await readContracts(getPublicClient(chainId), onChain.map(({ token, spenderAddress }) => ({
+            address: token.address as Address,
+            abi: erc20Abi,
+            functionName: "allowance",
+            args: [owner as Address, spenderAddress as Address],
+        })));
+        onChain.forEach((pair, index) => allowances.set(pair, results[index] as bigint | undefined));
+    }));
+    return erc20Pairs.map((pair) => ({ ...pair, allowance: allowances.get(pair) }));
+}
+
+// Check whether the quote's sender still has to approve the quote's spender
+export async function checkRouteApproval(step: LiFiStep, client: ChainClient, owner?: string): Promise<z.infer<typeof routeApprovalSchema>> {
+    const token = step.action.fromToken;
+    const from = owner ?? step.action.fromAddress;
+    if (!from) {
+        throw new ToolError("invalid_input", "The quote has no fromAddress, pass an owner address");
+    }
+    const spender = step.estimate?.approvalAddress;
+    const result = {
+        chainId: token.chainId,
+        token: token.address,
+        owner: from,
+        spender,
+        required: formatAmount(step.action.fromAmount, token),
+    };
+    if (isNativeToken(token.address)) {
+        return { ...result, approvalNeeded: false, reason: "Native token, no approval required" };
+    }
+    if (!spender) {
+        return { ...result, approvalNeeded: false, reason: "The quote has no approval address" };
+    }
+    const allowance = await readAllowance(client, token.address, from, spender);
+    return {
+        ...result,
+        allowance: formatAmount(allowance, token),
+        approvalNeeded: allowance < BigInt(step.action.fromAmount),
+    };
+}
+
+// Amount to approve: "unlimited" is max uint256, anything else is resolved by the caller
+export function approvalAmount(amount: bigint | "unlimited") {
+    return amount === "unlimited" ? maxUint256 : amount;
+}
+
+export const grantedAllowanceSchema = z.object({
+    token: z.string().describe("Token address"),
+    symbol: z.string().describe("Token symbol"),
+    spender: z.string().describe("Spender address"),
+    spenderName: z.string().describe("Spender name"),
+    allowance: resolvedAmountSchema.describe("Current allowance"),
+    unlimited: z.boolean().describe("Whether the allowance is effectively unlimited"),
+});
+
+export type GrantedAllowance = z.infer<typeof grantedAllowanceSchema>;
+
+// List the non-zero allowances the owner granted to the given spenders, using one multicall per chain
+export async function scanAllowances(getPublicClient: (chainId: number) => ChainClient, owner: string, tokens: Token[], spenders: KnownSpender[]): Promise<GrantedAllowance[]> {
+    const pairs = tokens
+        .filter((token) => !isNativeToken(token.address))
+        .flatMap((token) => spenders.map((spender) => ({ token, spender })));
+    const allowances = await readAllowances(getPublicClient, owner, pairs.map(({ token, spender }) => ({
+        token,
+        spenderAddress: spender.address,
+    })));
+    const granted: GrantedAllowance[] = [];
+    allowances.forEach((result, index) => {
+        if (!result.allowance) return;
+        const { token, spender } = pairs[index];
+        granted.push({
+            token: token.address,
+            symbol: token.symbol,
+            spender: spender.address,
+            spenderName: spender.name,
+            allowance: formatAmount(result.allowance, token),
+            // Wallets often approve slightly less than max uint256
+            unlimited: result.allowance >= maxUint256 / 2n,
+        });
+    });
+    return granted;
+}
@@ -0,0 +1,212 @@
+import { z } from "zod";
+import { readFileSync } from "node:fs";
+import { createHmac, createPublicKey, timingSafeEqual, verify, type JsonWebKey, type KeyObject } from "node:crypto";
+import type { NextFunction, Request, Response } from "express";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+
+declare module "express-serve-static-core" {
+    interface Request {
+        auth?: AuthInfo;
+    }
+}
+
+// Scopes a client can hold; "*" grants everything. "admin" covers the /admin endpoints and fee-report.
+export const scopes = ["read", "quote", "execute", "admin"] as const;
+export type Scope = (typeof scopes)[number];
+
+// Scope each tool requires; tools not listed need "read"
+const toolScopes: { [tool: string]: Scope } = {
+    "swap": "quote",
+    "bridge": "quote",
+    "quote-to-amount": "quote",
+    "routes": "quote",
+    "compare-routes": "quote",
+    "best-quote": "quote",
+    "build-transaction": "quote",
+    "simulate-quote": "quote",
+    "build-approve": "quote",
+    "track-transfer": "quote",
+    "execute-route": "execute",
+    "fee-report": "admin",
+};
+
+export function requiredScope(tool: string): Scope {
+    return toolScopes[tool] ?? "read";
+}
+
+export interface ScopeOptions {
+    // Grant the admin scope to unauthenticated clients, for deployments without AUTH_CONFIG_FILE
+    allowUnauthenticatedAdmin?: boolean;
+}
+
+// Without authentication configured every client has every scope but admin, which must be allowed explicitly
+export function hasScope(auth: AuthInfo | undefined, scope: Scope, { allowUnauthenticatedAdmin = false }: ScopeOptions = {}) {
+    if (!auth) return scope !== "admin" || allowUnauthenticatedAdmin;
+    return auth.scopes.includes("*") || auth.scopes.includes(scope);
+}
+
+export function hasToolAccess(auth: AuthInfo | undefined, tool: string, options?: ScopeOptions) {
+    return hasScope(auth, requiredScope(tool), options);
+}
+
+const scopeListSchema = z.array(z.union([z.enum(scopes), z.literal("*")]));
+
+export const authConfigSchema = z.object({
+    // Static bearer tokens
+    clients: z.array(z.object({
+        id: z.string().regex(/^[^.]+$/, "Client IDs must not contain dots"),
+        token: z.string().min(16).optional(),
+        scopes: scopeListSchema,
+    })).default([]),
+    // HMAC-signed keys: <clientId>.<expiresAt unix seconds, 0 = never>.<base64url HMAC-SHA256 signature>
+    hmac: z.object({
+        secret: z.string().min(32),
+        defaultScopes: scopeListSchema.default(["read"]),
+    }).optional(),
+    // JWTs verified against a local JWKS file
+    jwt: z.object({
+        jwksFile: z.string(),
+        issuer: z.string().optional(),
+        audience: z.string().optional(),
+        defaultScopes: scopeListSchema.default(["read"]),
+        // Reject tokens without an exp claim, which would never expire
+        requireExpiry: z.boolean().default(true),
+    }).optional(),
+});
+
+export type AuthConfig = z.infer<typeof authConfigSchema>;
+
+export type Authenticator = (token: string) => AuthInfo | undefined;
+
+function safeEqual(a: string, b: string) {
+    const left = Buffer.from(a);
+    const right = Buffer.from(b);
+    return left.length === right.length && timingSafeEqual(left, right);
+}
+
+function createStaticAuthenticator(config: AuthConfig): Authenticator {
+    return (token) => {
+        const client = config.clients.find((client) => client.token && safeEqual(client.token, token));
+        return client ? { token, clientId: client.id, scopes: client.scopes, extra: { method: "static" } } : undefined;
+    };
+}
+
+export function signHmacKey(secret: string, clientId: string, expiresAt = 0) {
+    const payload = `${clientId}.${expiresAt}`;
+    return `${payload}.${createHmac("sha256", secret).update(payload).digest("base64url")}`;
+}
+
+function createHmacAuthenticator(config: AuthConfig, hmac: NonNullable<AuthConfig["hmac"]>): Authenticator {
+    return (token) => {
+        const parts = token.split(".");
+        if (parts.length !== 3) return undefined;
+        const [clientId, expires] = parts;
+        const expiresAt = Number(expires);
+        if (!Number.isInteger(expiresAt) || !safeEqual(signHmacKey(hmac.secret, clientId, expiresAt), token)) return undefined;
+        if (expiresAt !== 0 && expiresAt < Date.now() / 1000) return undefined;
+        const client = config.clients.find((client) => client.id === clientId);
+        return {
+            token,
+            clientId,
+            scopes: client?.scopes ?? hmac.defaultScopes,
+            expiresAt: expiresAt || undefined,
+            extra: { method: "hmac" },
+        };
+    };
+}
+
+const jwtAlgorithms: { [alg: string]: { hash: string | null, dsaEncoding?: "ieee-p1363" } } = {
+    RS256: { hash: "sha256" },
+    RS384: { hash: "sha384" },
+    RS512: { hash: "sha512" },
+    ES256: { hash: "sha256", dsaEncoding: "ieee-p1363" },
+    ES384: { hash: "sha384", dsaEncoding: "ieee-p1363" },
+    ES512: { hash: "sha512", dsaEncoding: "ieee-p1363" },
+    EdDSA: { hash: null },
+};
+
+const decodeSegment = (segment: string) => JSON.parse(Buffer.from(segment, "base64url").toString());
+
+function createJwtAuthenticator(jwt: NonNullable<AuthConfig["jwt"]>): Authenticator {
+    const jwks: { keys: (JsonWebKey & { kid?: string })[] } = JSON.parse(readFileSync(jwt.jwksFile, "utf8"));
+    const keys = new Map<string | undefined, KeyObject>(jwks.keys.map((jwk) => [jwk.kid, createPublicKey({ key: jwk, format: "jwk" })]));
+    // Allow for clock drift between the issuer and this server
+    const leeway = 60;
+
+    return (token) => {
+        const parts = token.split(".");
+        if (parts.length !== 3) return undefined;
+        try {
+            const header = decodeSegment(parts[0]);
+            const claims = decodeSegment(parts[1]);
+            const algorithm = jwtAlgorithms[header.alg];
+            const key = keys.get(header.kid) ?? (keys.size === 1 ? [...keys.values()][0] : undefined);
+            if (!algorithm || !key) return undefined;
+            const valid = verify(
+                algorithm.hash,
+                Buffer.from(`${parts[0]}.${parts[1]}`),
+                algorithm.dsaEncoding ? { key, dsaEncoding: algorithm.dsaEncoding } : key,
+                Buffer.from(parts[2], "base64url"),
+            );
+            if (!valid) return undefined;
+            const now = Date.now() / 1000;
+            if (typeof claims.exp !== "number" && jwt.requireExpiry) return undefined;
+            if (typeof claims.exp === "number" && claims.exp + leeway < now) return undefined;
+            if (typeof claims.nbf === "number" && claims.nbf - leeway > now) return undefined;
+            if (jwt.issuer && claims.iss !== jwt.issuer) return undefined;
+            if (jwt.audience && ![claims.aud].flat().includes(jwt.audience)) return undefined;
+            const subject = claims.client_id ?? claims.azp ?? claims.sub;
+            if (typeof subject !== "string" || !subject) return undefined;
+            const claimedScopes: string[] = typeof claims.scope === "string" ? claims.scope.split(" ") : claims.scp ?? [];
+            const tokenScopes = claimedScopes.filter((scope) => scope === "*" || (scopes as readonly string[]).includes(scope));
+            return {
+                token,
+                // Namespaced by issuer so a token's subject cannot pass for a configured client or another issuer's subject
+                clientId: `jwt:${claims.iss ?? ""}:${subject}`,
+                scopes: tokenScopes.length > 0 ? tokenScopes : jwt.defaultScopes,
+                expiresAt: claims.exp,
+                extra: { method: "jwt", subject: claims.sub },
+            };
+        } catch {
+            return undefined;
+        }
+    };
+}
+
+// Build the authenticators enabled by the config, tried in order: static, HMAC, JWT
+export function createAuthenticators(config: AuthConfig): Authenticator[] {
+    const authenticators = [createStaticAuthenticator(config)];
+    if (config.hmac) authenticators.push(createHmacAuthenticator(config, config.hmac));
+    if (config.jwt) authenticators.push(createJwtAuthenticator(config.jwt));
+    return authenticators;
+}
+
+export function loadAuthConfig(file: string): AuthConfig {
+    return authConfigSchema.parse(JSON.parse(readFileSync(file, "utf8")));
+}
+
+// Express middleware: accept "Authorization: Bearer <key>" or "x-api-key: <key>" and set req.auth
+export function createAuthMiddleware(authenticators: Authenticator[]) {
+    return (req: Request, res: Response, next: NextFunction) => {
+        const header = req.headers.authorization;
+        const token = header?.startsWith("Bearer ") ? header.slice(7).trim() : req.headers["x-api-key"] as string | undefined;
+        let auth: AuthInfo | undefined;
+        for (const authenticate of token ? authenticators : []) {
+            auth = authenticate(token!);
+            if (auth) break;
+        }
+        if (!auth) {
+            res.status(401).set("WWW-Authenticate", 'Bearer realm="helixbox-mcp"').json({
+                jsonrpc: '2.0',
+                error: {
+                    code: -32001,
+                    message: token ? 'Unauthorized: invalid or expired credentials' : 'Unauthorized: missing credentials',
+                },
+                id: null,
+            });
+            return;
+        }
+        req.auth = auth;
+        next();
+    };
+}
@@ -0,0 +1,35 @@
+import { z } from "zod";
+import { ChainType, isSVMAddress, Sui, UTXO, type ExtendedChain } from "@lifi/sdk";
+import { isAddress } from "viem";
+import { ToolError } from "./errors.js";
+
+// Chain types LI.FI supports: EVM, Solana (SVM), Bitcoin (UTXO) and Sui (MVM)
+export const allChainTypes = [ChainType.EVM, ChainType.SVM, ChainType.UTXO, ChainType.MVM];
+
+export const chainTypeSchema = z.nativeEnum(ChainType).describe("Chain type: EVM, SVM (Solana), UTXO (Bitcoin) or MVM (Sui)");
+
+// Address checks of the matching SDK providers
+const addressValidators: { [type in ChainType]: (address: string) => boolean } = {
+    [ChainType.EVM]: (address) => isAddress(address, { strict: false }),
+    [ChainType.SVM]: isSVMAddress,
+    [ChainType.UTXO]: UTXO().isAddress,
+    [ChainType.MVM]: Sui().isAddress,
+};
+
+export function isValidAddress(chain: Pick<ExtendedChain, "chainType">, address: string) {
+    return addressValidators[chain.chainType]?.(address) ?? false;
+}
+
+export function validateAddress(chain: Pick<ExtendedChain, "chainType" | "name">, address: string, label = "Address") {
+    if (!isValidAddress(chain, address)) {
+        throw new ToolError("invalid_input", `${label} ${address} is not a valid ${chain.chainType} address for ${chain.name}`);
+    }
+    return address;
+}
+
+// Allowances, transaction building and simulation only exist on EVM chains
+export function assertEvmChain(chain: Pick<ExtendedChain, "chainType" | "name">) {
+    if (chain.chainType !== ChainType.EVM) {
+        throw new ToolError("unsupported_chain", `${chain.name} is a ${chain.chainType} chain, this tool only supports EVM chains`);
+    }
+}
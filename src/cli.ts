@@ -0,0 +1,143 @@
+import { parseArgs } from "node:util";
+
+export const transportNames = ["stdio", "http", "sse"] as const;
+export type TransportName = (typeof transportNames)[number];
+
+export interface ToolCall {
+    name: string;
+    arguments: { [key: string]: unknown };
+}
+
+export interface CliOptions {
+    transport: TransportName;
+    port?: number;
+    // Allowlist of exposed tools, all tools when undefined
+    tools?: string[];
+    // Operator config file, CONFIG_FILE when unset
+    config?: string;
+    // Set by the one-shot subcommands, which call a single tool and exit
+    toolCall?: ToolCall;
+    help?: boolean;
+}
+
+export const usage = `Usage: helixbox-mcp [--transport stdio|http|sse] [--port <port>] [--tools <names>] [--config <file>]
+       helixbox-mcp quote <fromChain> <toChain> <fromToken> <toToken> <amount> --from-address <address> [--to-address <address>] [--slippage <decimal, e.g. 0.005>] [--simulate]
+       helixbox-mcp status <txHash> [--bridge <key>] [--from-chain <id>] [--to-chain <id>]
+       helixbox-mcp call <tool> [<json arguments>]
+
+Options:
+  --transport <name>  stdio, http (streamable HTTP on /mcp plus legacy SSE on /sse) or sse (legacy SSE only); defaults to http
+  --port <port>       HTTP port, defaults to LISTEN_PORT or 3888
+  --tools <names>     Comma separated allowlist of tools to expose
+  --config <file>     YAML or JSON config file, defaults to CONFIG_FILE; reloaded on SIGHUP
+  -h, --help          Show this help
+
+Subcommands print the tool's structured result as JSON on stdout and exit with 1 when the tool failed.`;
+
+function parseNumber(name: string, value: string | undefined) {
+    if (value === undefined) return undefined;
+    const number = Number(value);
+    if (!Number.isFinite(number)) {
+        throw new Error(`--${name} must be a number, got ${value}`);
+    }
+    return number;
+}
+
+// Slippage is a decimal as in every tool; a percentage such as 1 for 1% is rejected rather than sent as 100%
+function parseSlippage(value: string | undefined) {
+    const slippage = parseNumber("slippage", value);
+    if (slippage !== undefined && (slippage < 0 || slippage >= 1)) {
+        throw new Error(`--slippage is a decimal between 0 and 1, e.g. 0.005 for 0.5%, got ${value}`);
+    }
+    return slippage;
+}
+
+function parseToolCall(command: string, args: string[], values: { [name: string]: string | boolean | undefined }): ToolCall {
+    switch (command) {
+        case "quote": {
+            const [fromChain, toChain, fromToken, toToken, fromAmount] = args;
+            if (!fromAmount || !values["from-address"]) {
+                throw new Error("quote needs <fromChain> <toChain> <fromToken> <toToken> <amount> and --from-address");
+            }
+            return {
+                name: "swap",
+                arguments: {
+                    fromChain,
+                    toChain,
+                    fromToken,
+                    toToken,
+                    fromAmount,
+                    fromAddress: values["from-address"],
+                    toAddress: values["to-address"],
+                    slippage: parseSlippage(values.slippage as string | undefined),
+                    simulate: values.simulate,
+                },
+            };
+        }
+        case "status": {
+            const [txHash] = args;
+            if (!txHash) {
+                throw new Error("status needs <txHash>");
+            }
+            return {
+                name: "status",
+                arguments: {
+                    txHash,
+                    bridge: values.bridge,
+                    fromChain: parseNumber("from-chain", values["from-chain"] as string | undefined),
+                    toChain: parseNumber("to-chain", values["to-chain"] as string | undefined),
+                },
+            };
+        }
+        case "call": {
+            const [name, json] = args;
+            if (!name) {
+                throw new Error("call needs <tool>");
+            }
+            return { name, arguments: json ? JSON.parse(json) : {} };
+        }
+        default:
+            throw new Error(`Unknown command ${command}`);
+    }
+}
+
+export function parseCli(argv: string[]): CliOptions {
+    const { values, positionals } = parseArgs({
+        args: argv,
+        allowPositionals: true,
+        options: {
+            transport: { type: "string" },
+            port: { type: "string" },
+            tools: { type: "string" },
+            config: { type: "string" },
+            "from-address": { type: "string" },
+            "to-address": { type: "string" },
+            slippage: { type: "string" },
+            simulate: { type: "boolean" },
+            bridge: { type: "string" },
+            "from-chain": { type: "string" },
+            "to-chain": { type: "string" },
+            help: { type: "boolean", short: "h" },
+        },
+    });
+
+    const transport = values.transport ?? "http";
+    if (!(transportNames as readonly string[]).includes(transport)) {
+        throw new Error(`Unknown transport ${transport}, expected one of ${transportNames.join(", ")}`);
+    }
+    const [command, ...args] = positionals;
+    // Undefined arguments are dropped so optional tool inputs stay unset
+    const toolCall = command ? parseToolCall(command, args, values) : undefined;
+    if (toolCall) {
+        toolCall.arguments = Object.fromEntries(Object.entries(toolCall.arguments).filter(([, value]) => value !== undefined));
+    }
+
+    return {
+        transport: transport as TransportName,
+        port: parseNumber("port", values.port),
+        tools: values.tools?.split(",").map((name) => name.trim()).filter(Boolean),
+        config: values.config,
+        toolCall,
+        help: values.help,
+    };
+}
@@ -0,0 +1,179 @@
+import { z } from "zod";
+import { readFileSync } from "node:fs";
+import { extname } from "node:path";
+import type { QuoteRequest, RouteOptions } from "@lifi/sdk";
+import { parseYaml } from "./yaml.js";
+import { referencePolicies, type ReferenceKind, type ReferencePolicies } from "./referenceCache.js";
+import { buildRouteOptions, type RouteFilters } from "./routeCompare.js";
+import type { FeeSettings } from "./fees.js";
+
+const keyListSchema = z.object({
+    // Only these keys, all when unset
+    allow: z.array(z.string()).optional(),
+    deny: z.array(z.string()).default([]),
+}).strict().default({});
+
+const feeSettingsSchema = z.object({
+    // Integrator fee as decimal, e.g. 0.0025 for 0.25%; needs an integrator registered with LI.FI
+    fee: z.number().min(0).lt(1).optional(),
+    // Wallet address LI.FI attributes the transfers to
+    referrer: z.string().optional(),
+}).strict();
+
+const cacheOverrideSchema = z.object({
+    ttlMs: z.number().int().positive().optional(),
+    staleMs: z.number().int().min(0).optional(),
+    maxEntries: z.number().int().positive().optional(),
+}).strict();
+
+// Unknown keys are rejected so that a misspelled setting fails the load instead of being ignored
+export const configSchema = z.object({
+    // HTTP port, LISTEN_PORT and --port take precedence
+    port: z.number().int().min(1).max(65535).optional(),
+    lifi: z.object({
+        // LI.FI API base URL, e.g. a staging deployment or a local mock
+        apiUrl: z.string().url().default("https://li.quest/v1").transform((url) => url.replace(/\/+$/, "")),
+        apiKey: z.string().optional(),
+        integrator: z.string().min(1).default("helixbox-mcp"),
+        ...feeSettingsSchema.shape,
+        // Fee settings per authenticated client ID, taking precedence over the deployment's
+        clients: z.record(feeSettingsSchema).default({}),
+    }).strict().default({}),
+    tools: z.object({
+        // Only these tools, all when unset
+        enabled: z.array(z.string()).optional(),
+        disabled: z.array(z.string()).default([]),
+    }).strict().default({}),
+    // Slippage as decimal for quotes that do not set one, LI.FI's default when unset
+    defaultSlippage: z.number().min(0).lt(1).optional(),
+    // Tokens returned per listing by tokens-one-chain and tokens-multiple-chains
+    tokenListLimit: z.number().int().min(1).default(25),
+    // Verified tokens scan-allowances checks when it is given no tokens
+    allowanceScanLimit: z.number().int().min(1).default(100),
+    // Chain IDs or keys; other chains are left out of listings and rejected as unsupported_chain wherever a chain is taken
+    chains: z.object({
+        allow: z.array(z.union([z.number().int(), z.string()])).optional(),
+        deny: z.array(z.union([z.number().int(), z.string()])).default([]),
+    }).strict().default({}),
+    // Bridge and exchange keys every quote and route is limited to, on top of the tool's own filters
+    bridges: keyListSchema,
+    exchanges: keyListSchema,
+    // TTL overrides per reference data kind
+    cache: z.record(z.enum(Object.keys(referencePolicies) as [ReferenceKind, ...ReferenceKind[]]), cacheOverrideSchema).default({}),
+}).strict();
+
+export type Config = z.infer<typeof configSchema>;
+
+// Environment variables win over the file. LIFIPRO_API_KEY is the name older deployments used for the API key.
+function envOverrides(env: NodeJS.ProcessEnv) {
+    const number = (value: string | undefined) => value ? Number(value) : undefined;
+    return {
+        port: number(env.LISTEN_PORT),
+        lifi: {
+            apiUrl: env.LIFI_API_URL || undefined,
+            apiKey: env.LIFI_API_KEY || env.LIFIPRO_API_KEY || undefined,
+            integrator: env.LIFI_INTEGRATOR || undefined,
+            fee: number(env.LIFI_FEE),
+            referrer: env.LIFI_REFERRER || undefined,
+        },
+        defaultSlippage: number(env.DEFAULT_SLIPPAGE),
+    };
+}
+
+function merge(base: any, overrides: any): any {
+    if (typeof base !== "object" || base === null || Array.isArray(base)) {
+        return overrides ?? base;
+    }
+    const merged = { ...base };
+    for (const [key, value] of Object.entries(overrides ?? {})) {
+        if (value !== undefined) merged[key] = merge(base[key], value);
+    }
+    return merged;
+}
+
+// Read and validate the config file (YAML, or JSON for .json files) with the env overrides applied.
+// Without a file the config is built from the environment and the defaults.
+export function loadConfig(file: string | undefined, env: NodeJS.ProcessEnv = process.env): Config {
+    let raw: unknown = {};
+    if (file) {
+        const source = readFileSync(file, "utf8");
+        try {
+            raw = (extname(file) === ".json" ? JSON.parse(source) : parseYaml(source)) ?? {};
+        } catch (error: any) {
+            throw new Error(`Failed to parse config ${file}: ${error.message}`);
+        }
+        if (typeof raw !== "object" || Array.isArray(raw)) {
+            throw new Error(`Invalid config ${file}: expected a mapping of settings`);
+        }
+    }
+    const parsed = configSchema.safeParse(merge(raw, envOverrides(env)));
+    if (!parsed.success) {
+        const issues = parsed.error.issues.slice(0, 3).map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`).join("; ");
+        throw new Error(`Invalid config${file ? ` ${file}` : ""}: ${issues}`);
+    }
+    return parsed.data;
+}
+
+export function isToolEnabled(config: Config, name: string) {
+    return (!config.tools.enabled || config.tools.enabled.includes(name)) && !config.tools.disabled.includes(name);
+}
+
+export function isChainAllowed(config: Config, chain: { id: number, key: string }) {
+    const matches = (entry: number | string) => entry === chain.id || String(entry).toLowerCase() === chain.key.toLowerCase() || entry === String(chain.id);
+    return (!config.chains.allow || config.chains.allow.some(matches)) && !config.chains.deny.some(matches);
+}
+
+export function cachePolicies(config: Config): ReferencePolicies {
+    const policies = { ...referencePolicies } as ReferencePolicies;
+    for (const [kind, override] of Object.entries(config.cache) as [ReferenceKind, z.infer<typeof cacheOverrideSchema>][]) {
+        policies[kind] = { ...policies[kind], ...override };
+    }
+    return policies;
+}
+
+// Fee and referrer for quotes requested by a client
+export function feeSettings(config: Config, clientId?: string): FeeSettings {
+    const client = clientId ? config.lifi.clients[clientId] : undefined;
+    return {
+        fee: client?.fee ?? config.lifi.fee,
+        referrer: client?.referrer ?? config.lifi.referrer,
+    };
+}
+
+// A tool's allowlist narrowed to the deployment's; ["all"] is LI.FI's wildcard
+function narrow(requested: string[] | undefined, allowed: string[] | undefined) {
+    if (!allowed) return requested;
+    if (!requested || requested.includes("all")) return allowed;
+    return requested.filter((key) => allowed.includes(key));
+}
+
+function union(requested: string[] | undefined, denied: string[]) {
+    const keys = [...new Set([...(requested ?? []), ...denied])];
+    return keys.length > 0 ? keys : undefined;
+}
+
+// Tool filters with the deployment's bridge and exchange policy and default slippage applied
+export function applyQuotePolicy(config: Config, filters: RouteFilters): RouteFilters {
+    return {
+        ...filters,
+        allowBridges: narrow(filters.allowBridges, config.bridges.allow),
+        denyBridges: union(filters.denyBridges, config.bridges.deny),
+        allowExchanges: narrow(filters.allowExchanges, config.exchanges.allow),
+        denyExchanges: union(filters.denyExchanges, config.exchanges.deny),
+        slippage: filters.slippage ?? config.defaultSlippage,
+    };
+}
+
+// getQuote parameters for the deployment and client: integrator, fee and referrer plus the filters under the
+// deployment's policy. The li.quest quote endpoints take the same parameters.
+export function quoteParams(config: Config, filters: RouteFilters = {}, clientId?: string): Partial<QuoteRequest> {
+    const { allowBridges, denyBridges, allowExchanges, denyExchanges, order, slippage } = applyQuotePolicy(config, filters);
+    const { fee, referrer } = feeSettings(config, clientId);
+    return { integrator: config.lifi.integrator, fee, referrer, allowBridges, denyBridges, allowExchanges, denyExchanges, order, slippage };
+}
+
+// getRoutes options for the deployment and client, see quoteParams
+export function routeOptions(config: Config, filters: RouteFilters = {}, clientId?: string): RouteOptions {
+    const { fee, referrer } = feeSettings(config, clientId);
+    return { integrator: config.lifi.integrator, fee, referrer, ...buildRouteOptions(applyQuotePolicy(config, filters)) };
+}
@@ -0,0 +1,181 @@
+import { z } from "zod";
+import { safeStringify } from "./helper.js";
+
+// Error taxonomy shared by all tools
+export const errorCodes = [
+    "invalid_input",
+    "unsupported_chain",
+    "no_route",
+    "insufficient_liquidity",
+    "upstream_error",
+    "rate_limited",
+    "timeout",
+] as const;
+
+export type ErrorCode = (typeof errorCodes)[number];
+
+export const toolErrorSchema = z.object({
+    code: z.enum(errorCodes).describe("Error category"),
+    message: z.string().describe("Error message"),
+    retryable: z.boolean().describe("Whether the same call may succeed if retried later"),
+    retryAfterMs: z.number().optional().describe("Suggested wait before retrying, in milliseconds"),
+    upstreamCode: z.number().optional().describe("LI.FI error code"),
+    upstreamStatus: z.number().optional().describe("HTTP status returned by LI.FI"),
+});
+
+export type ToolErrorInfo = z.infer<typeof toolErrorSchema>;
+
+const retryableCodes: ErrorCode[] = ["rate_limited", "timeout"];
+
+export interface ToolErrorOptions {
+    retryable?: boolean;
+    retryAfterMs?: number;
+    upstreamCode?: number;
+    upstreamStatus?: number;
+}
+
+// Error carrying its taxonomy code; throw it wherever the category is known
+export class ToolError extends Error {
+    retryable: boolean;
+    retryAfterMs?: number;
+    upstreamCode?: number;
+    upstreamStatus?: number;
+
+    constructor(public code: ErrorCode, message: string, { retryable, ...upstream }: ToolErrorOptions = {}) {
+        super(message);
+        this.name = "ToolError";
+        this.retryable = retryable ?? retryableCodes.includes(code);
+        Object.assign(this, upstream);
+    }
+}
+
+// LI.FI API error codes (response body "code")
+const apiErrorCodes: { [code: number]: ErrorCode } = {
+    1002: "no_route", // NoQuoteError
+    1003: "invalid_input", // NotFoundError
+    1004: "invalid_input", // NotProcessableError
+    1005: "rate_limited", // RateLimitError
+    1006: "upstream_error", // ServerError
+    1007: "insufficient_liquidity", // SlippageError
+    1008: "upstream_error", // ThirdPartyError
+    1009: "timeout", // TimeoutError
+    1011: "invalid_input", // ValidationError
+    1012: "upstream_error", // RpcFailure
+};
+
+// LI.FI SDK error codes (SDKError / BaseError "code") for errors raised without an API response
+const sdkErrorCodes: { [code: number]: ErrorCode } = {
+    1001: "invalid_input", // ValidationError
+    1004: "timeout", // Timeout
+    1005: "upstream_error", // ProviderUnavailable
+    1006: "invalid_input", // NotFound
+    1011: "insufficient_liquidity", // SlippageError
+    1013: "invalid_input", // BalanceError
+    1015: "invalid_input", // InsufficientFunds
+    1023: "rate_limited", // RateLimitExceeded
+    1024: "upstream_error", // ThirdPartyError
+};
+
+function statusErrorCode(status: number): ErrorCode {
+    if (status === 429) return "rate_limited";
+    if (status === 408 || status === 504) return "timeout";
+    if (status === 404) return "no_route";
+    if (status >= 400 && status < 500) return "invalid_input";
+    return "upstream_error";
+}
+
+// Failed routes carry per-tool codes such as INSUFFICIENT_LIQUIDITY
+function hasInsufficientLiquidity(unavailable: any, message: string) {
+    const failed: any[] = unavailable?.failed ?? [];
+    const toolCodes = failed.flatMap((route) => Object.values(route.subpaths ?? {}).flat() as any[]).map((error) => error?.code);
+    return toolCodes.includes("INSUFFICIENT_LIQUIDITY") || /liquidity/i.test(message);
+}
+
+// Error for a request that returned no route, using the unavailable routes to tell a missing path from thin liquidity
+export function noRouteError(message: string, unavailable?: unknown) {
+    return new ToolError(hasInsufficientLiquidity(unavailable, message) ? "insufficient_liquidity" : "no_route", message);
+}
+
+function parseBody(body: unknown) {
+    if (typeof body !== "string") return body;
+    try {
+        return JSON.parse(body);
+    } catch {
+        return undefined;
+    }
+}
+
+// Map any error thrown by a tool (LI.FI SDK, raw API calls, input resolution) into the taxonomy
+export function classifyError(error: any, context?: string): ToolErrorInfo {
+    const message = context ? `${context}: ${error?.message ?? String(error)}` : error?.message ?? String(error);
+
+    if (error instanceof ToolError) {
+        return {
+            code: error.code,
+            message,
+            retryable: error.retryable,
+            retryAfterMs: error.retryAfterMs,
+            upstreamCode: error.upstreamCode,
+            upstreamStatus: error.upstreamStatus,
+        };
+    }
+    if (error instanceof z.ZodError) {
+        return { code: "invalid_input", message, retryable: false };
+    }
+
+    // Walk SDKError -> BaseError -> HTTPError for the HTTP status and the API's own error code
+    let status: number | undefined;
+    let body: any;
+    let sdkCode: number | undefined;
+    // Messages and system error codes of the whole chain, network failures are usually nested causes
+    const causes: string[] = [];
+    for (let current = error; current; current = current.cause) {
+        causes.push(`${current.message ?? ""} ${typeof current.code === "string" ? current.code : ""}`);
+        // LI.FI codes are in the 1000 range, unlike JSON-RPC codes from viem errors
+        if (sdkCode === undefined && typeof current.code === "number" && current.code >= 1000 && current.code < 2000) sdkCode = current.code;
+        if (status === undefined && typeof current.status === "number") {
+            status = current.status;
+            body = current.responseBody ?? parseBody(current.body);
+        }
+    }
+    const upstreamCode = typeof body?.code === "number" ? body.code : sdkCode;
+
+    let code: ErrorCode;
+    if (typeof body?.code === "number" && apiErrorCodes[body.code]) {
+        code = apiErrorCodes[body.code];
+    } else if (status !== undefined) {
+        code = statusErrorCode(status);
+    } else if (sdkCode !== undefined && sdkErrorCodes[sdkCode]) {
+        code = sdkErrorCodes[sdkCode];
+    } else if (error?.name === "AbortError" || error?.name === "TimeoutError" || /timed? ?out|ETIMEDOUT/i.test(causes.join(" "))) {
+        code = "timeout";
+    } else {
+        code = "upstream_error";
+    }
+    if (code === "no_route" && hasInsufficientLiquidity(body?.errors, message)) {
+        code = "insufficient_liquidity";
+    }
+
+    return {
+        code,
+        message,
+        // Upstream failures are only worth retrying when the server or the network was at fault
+        retryable: code === "upstream_error"
+            ? (status ?? 0) >= 500 || /fetch failed|ENOTFOUND|ECONNRESET|ECONNREFUSED|socket hang up/i.test(causes.join(" "))
+            : retryableCodes.includes(code),
+        upstreamCode,
+        upstreamStatus: status,
+    };
+}
+
+// Tool result for a failed call; tools with an output schema pass their structured fields to keep it valid
+export function errorResult(error: unknown, context: string, structuredContent?: { [key: string]: unknown }) {
+    const toolError = classifyError(error, context);
+    return {
+        isError: true,
+        content: [
+            { type: "text" as const, text: safeStringify({ error: toolError }) },
+        ],
+        ...(structuredContent && { structuredContent: { ...structuredContent, error: toolError } }),
+    };
+}
@@ -0,0 +1,70 @@
+import { z } from "zod";
+import { executeRoute, stopRouteExecution, type RouteExtended } from "@lifi/sdk";
+
+export const executionSummarySchema = z.object({
+    id: z.string().describe("Route ID"),
+    status: z.enum(["PENDING", "DONE", "FAILED"]).describe("Overall route status"),
+    fromAddress: z.string().optional().describe("Executing wallet address"),
+    steps: z.array(z.object({
+        id: z.string().describe("Step ID"),
+        tool: z.string().describe("Bridge or exchange used"),
+        status: z.string().describe("Step execution status"),
+        processes: z.array(z.object({
+            type: z.string().describe("Process type"),
+            status: z.string().describe("Process status"),
+            chainId: z.number().optional().describe("Chain ID"),
+            txHash: z.string().optional().describe("Transaction hash"),
+            txLink: z.string().optional().describe("Explorer link"),
+            message: z.string().optional().describe("Status message"),
+        })),
+    })),
+});
+
+export type ExecutionSummary = z.infer<typeof executionSummarySchema>;
+
+// Reduce an executing route to the fields a client needs to follow progress
+export function summarizeExecution(route: RouteExtended): ExecutionSummary {
+    const steps = route.steps.map((step) => ({
+        id: step.id,
+        tool: step.tool,
+        status: step.execution?.status ?? "NOT_STARTED",
+        processes: (step.execution?.process ?? []).map((process) => ({
+            type: process.type,
+            status: process.status,
+            chainId: process.chainId,
+            txHash: process.txHash,
+            txLink: process.txLink,
+            message: process.message,
+        })),
+    }));
+    const status = steps.some((step) => step.status === "FAILED")
+        ? "FAILED"
+        : steps.every((step) => step.status === "DONE") ? "DONE" : "PENDING";
+    return {
+        id: route.id,
+        status,
+        fromAddress: route.fromAddress,
+        steps,
+    };
+}
+
+// Count finished steps, used as the progress value reported to clients
+export function countFinishedSteps(route: RouteExtended) {
+    return route.steps.filter((step) => step.execution?.status === "DONE").length;
+}
+
+// Execute a route end to end, calling onUpdate on every status change; the signal stops execution
+export async function executeRouteWithUpdates(route: RouteExtended, onUpdate: (route: RouteExtended) => void, signal?: AbortSignal) {
+    const abort = () => stopRouteExecution(route);
+    signal?.addEventListener("abort", abort);
+    try {
+        return await executeRoute(route, {
+            updateRouteHook: (updated) => {
+                route = updated;
+                onUpdate(updated);
+            },
+        });
+    } finally {
+        signal?.removeEventListener("abort", abort);
+    }
+}
@@ -0,0 +1,71 @@
+import { z } from "zod";
+import type { FeeCost, Integrator, Token } from "@lifi/sdk";
+import { formatAmount, resolvedAmountSchema } from "./resolve.js";
+
+export const integratorFeeSchema = z.object({
+    percent: z.number().describe("Integrator fee in percent of the sent amount"),
+    amount: resolvedAmountSchema.describe("Fee taken from the sent amount"),
+    amountUSD: z.number().optional().describe("Fee in USD, absent when the token has no price"),
+    referrer: z.string().optional().describe("Referrer the transfer is attributed to"),
+});
+
+export type IntegratorFee = z.infer<typeof integratorFeeSchema>;
+
+export interface FeeSettings {
+    // Decimal, e.g. 0.0025 for 0.25%
+    fee?: number;
+    referrer?: string;
+}
+
+const feeScale = 1_000_000;
+
+// The integrator fee a quote or route takes from the sent amount. LI.FI's own figure is used when the quote
+// lists it among its fee costs, otherwise it is computed from the configured fee; undefined without a fee.
+export function summarizeIntegratorFee({ fee, referrer }: FeeSettings, fromAmount: string, fromToken: Token, feeCosts: FeeCost[] = []): IntegratorFee | undefined {
+    if (!fee) return undefined;
+    const reported = feeCosts.find((cost) => /integrator/i.test(cost.name));
+    const amount = formatAmount(reported?.amount ?? BigInt(fromAmount) * BigInt(Math.round(fee * feeScale)) / BigInt(feeScale), reported?.token ?? fromToken);
+    const price = Number(reported?.token.priceUSD ?? fromToken.priceUSD);
+    const amountUSD = reported?.amountUSD ? Number(reported.amountUSD) : price ? Number(amount.formatted) * price : undefined;
+    return { percent: fee * 100, amount, amountUSD, referrer };
+}
+
+export function describeIntegratorFee(fee: IntegratorFee) {
+    const usd = fee.amountUSD === undefined ? "" : `, $${fee.amountUSD.toFixed(2)}`;
+    return `Integrator fee: ${fee.percent}% (${fee.amount.formatted} ${fee.amount.symbol}${usd})`;
+}
+
+export const feeBalanceSchema = z.object({
+    chainId: z.number().describe("Chain ID"),
+    tokens: z.array(z.object({
+        address: z.string().describe("Token address"),
+        amount: resolvedAmountSchema.describe("Collected amount"),
+        amountUSD: z.number().describe("Collected amount in USD"),
+    })).describe("Collected fees per token"),
+    totalUSD: z.number().describe("Collected fees on this chain in USD"),
+});
+
+export type FeeBalance = z.infer<typeof feeBalanceSchema>;
+
+// Fee balances of an integrator per chain, largest first, without empty balances
+export function summarizeFeeBalances(integrator: Integrator, chainIds?: number[]): FeeBalance[] {
+    return integrator.feeBalances
+        .filter((balance) => !chainIds || chainIds.includes(balance.chainId))
+        .map((balance) => {
+            const tokens = balance.tokenBalances
+                .filter((tokenBalance) => BigInt(tokenBalance.amount) > 0n)
+                .map((tokenBalance) => ({
+                    address: tokenBalance.token.address,
+                    amount: formatAmount(tokenBalance.amount, tokenBalance.token),
+                    amountUSD: Number(tokenBalance.amountUsd) || 0,
+                }))
+                .sort((a, b) => b.amountUSD - a.amountUSD);
+            return {
+                chainId: balance.chainId,
+                tokens,
+                totalUSD: tokens.reduce((total, token) => total + token.amountUSD, 0),
+            };
+        })
+        .filter((balance) => balance.tokens.length > 0)
+        .sort((a, b) => b.totalUSD - a.totalUSD);
+}
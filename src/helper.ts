@@ -2,3 +2,36 @@
 export function safeStringify(obj: any) {
     return JSON.stringify(obj, (_, v) => typeof v === "bigint" ? v.toString() : v);
 }
+
+// Helper: JSON resource contents for a read callback
+export function jsonContents(uri: URL, data: any) {
+    return {
+        contents: [
+            { uri: uri.href, mimeType: "application/json", text: safeStringify(data) },
+        ],
+    };
+}
+
+// Helper: tool result with structured content and a short text summary
+export function structuredResult(structuredContent: { [key: string]: unknown }, summary: string) {
+    return {
+        content: [
+            { type: "text" as const, text: summary },
+        ],
+        structuredContent,
+    };
+}
+
+// Helper: map over items with at most `limit` calls in flight
+export async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    let next = 0;
+    const worker = async () => {
+        while (next < items.length) {
+            const index = next++;
+            results[index] = await fn(items[index]);
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+    return results;
+}
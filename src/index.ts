@@ -1,126 +1,468 @@
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+#!/usr/bin/env node
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
-import { createConfig, getQuote, getChains, getTokens, getToken, getTools, getTokenBalance, getTokenBalances, getTokenAllowance, getTokenAllowanceMulticall, getConnections, getStatus, getRoutes, EVM, ChainType } from "@lifi/sdk";
-import { createWalletClient, http, Chain as ViemChain } from "viem";
+import { config as sdkConfig, createConfig, getQuote, getChains, getTokens, getToken, getTools, getConnections, getStatus, getStepTransaction, getRoutes, EVM, Solana, Sui, UTXO, convertQuoteToRoute, type ExtendedChain, type Integrator, type LiFiStep, type Route, type Token, type ToolsResponse } from "@lifi/sdk";
+import { http } from "viem";
 import { mainnet } from "viem/chains";
 import NodeCache from "node-cache";
 import express from "express";
 import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
 import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
-import { safeStringify } from "./helper.js";
-import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { jsonContents, structuredResult } from "./helper.js";
+import { buildApproveTransaction, buildTransaction, builtTransactionSchema, isNativeToken, unsignedTransactionSchema, type FetchStepTransaction } from "./transaction.js";
+import { createSignerFromEnv, createSignerWalletClient } from "./signer.js";
+import { countFinishedSteps, executeRouteWithUpdates, executionSummarySchema, summarizeExecution } from "./execution.js";
+import { createTransferTracker, describeTransfer, transferSchema } from "./tracker.js";
+import { buildTokenIndex, searchTokens, tokenSummarySchema, type TokenIndex } from "./tokenSearch.js";
+import { compareRoutes, rankStrategies, routeFilterShape, routeSummarySchema } from "./routeCompare.js";
+import { createQuoteProvidersFromEnv, getBestQuotes, normalizedQuoteSchema } from "./quoteProviders.js";
+import { buildPortfolio, getWalletBalances, portfolioSchema } from "./portfolio.js";
+import { approvalAmount, checkRouteApproval, createSpenderRegistry, getKnownSpenders, grantedAllowanceSchema, readAllowance, readAllowances, routeApprovalSchema, scanAllowances } from "./allowance.js";
+import { AmbiguousTokenError, amountInputDescription, candidateSchema, chainInputSchema, createInputResolver, formatAmount, quoteAmountsSchema, resolvedAmountSchema, resolvedInputSchema, slippageInputSchema, summarizeCandidates, summarizeQuoteAmounts, summarizeResolvedTransfer } from "./resolve.js";
+import { isInitializeRequest, SubscribeRequestSchema, UnsubscribeRequestSchema } from "@modelcontextprotocol/sdk/types.js";
 import { randomUUID } from "node:crypto";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { createAuthenticators, createAuthMiddleware, hasScope, hasToolAccess, loadAuthConfig } from "./auth.js";
+import { observeTools, restrictTools, toggleTools, validateToolOutputs } from "./toolPolicy.js";
+import { createUpstreamClientFromEnv, requestKey } from "./upstream.js";
+import { classifyError, errorResult, noRouteError, ToolError, toolErrorSchema, type ToolErrorInfo } from "./errors.js";
+import { createSimulationClient, describeSimulation, getSimulationRpcUrl, simulateStep, simulationSchema, type Simulation } from "./simulate.js";
+import { createRpcPool, loadRpcConfig } from "./rpc.js";
+import { allChainTypes, assertEvmChain, chainTypeSchema, isValidAddress, validateAddress } from "./chainTypes.js";
+import { createSessionManagerFromEnv } from "./sessions.js";
+import { createReferenceCacheFromEnv } from "./referenceCache.js";
+import { cachePolicies, feeSettings, isChainAllowed, isToolEnabled, loadConfig, quoteParams, routeOptions, type Config } from "./config.js";
+import { describeIntegratorFee, feeBalanceSchema, integratorFeeSchema, summarizeFeeBalances, summarizeIntegratorFee } from "./fees.js";
+import { createSessionStoreFromEnv, restoreStreamableSession, type SessionRecord } from "./sessionStore.js";
+import { parseCli, usage, type CliOptions, type ToolCall } from "./cli.js";
+import { logger } from "./logger.js";
+import { createTracerFromEnv, withTraceparent } from "./tracing.js";
+import { createMetricsRegistry, metricsContentType } from "./metrics.js";
+import { chainSchema, connectionSchema, describeGasPrice, describeRoute, describeStep, gasPriceSchema, routeSchema, statusSchema, stepSchema, tokenAmountSchema, tokenSchema, toolsSchema, unavailableRoutesSchema } from "./schemas.js";
+
+let cli: CliOptions;
+try {
+    cli = parseCli(process.argv.slice(2));
+} catch (error: any) {
+    console.error(`${error.message}\n\n${usage}`);
+    process.exit(2);
+}
+if (cli.help) {
+    console.log(usage);
+    process.exit(0);
+}
+const serveHttp = !cli.toolCall && cli.transport !== "stdio";
+
+// Operator config: integrator and fees, tool and chain policy, default slippage and cache TTLs.
+// It is replaced as a whole on SIGHUP, so tools read it per request rather than keeping parts of it.
+const configFile = cli.config ?? (process.env.CONFIG_FILE || undefined);
+let config: Config;
+try {
+    config = loadConfig(configFile);
+} catch (error: any) {
+    logger.error("Failed to load config", { error });
+    process.exit(2);
+}
 
 const app = express();
 app.use(express.json());
+// Tool spans join the caller's trace when the HTTP request carries a W3C traceparent
+app.use(["/mcp", "/messages"], (req, res, next) => withTraceparent(req.headers.traceparent as string | undefined, next));
 
-const transports: {
-  streamable: { [sessionId: string]: StreamableHTTPServerTransport },
-  sse: { [sessionId: string]: SSEServerTransport }
-} = {
-  streamable: {},
-  sse: {}
-};
+// Authentication is enabled by pointing AUTH_CONFIG_FILE at a clients/HMAC/JWT config. Without it clients get
+// every scope but admin, unless ALLOW_UNAUTHENTICATED_ADMIN opens /admin and fee-report to them as well.
+const authConfigFile = process.env.AUTH_CONFIG_FILE;
+const scopeOptions = { allowUnauthenticatedAdmin: !authConfigFile && process.env.ALLOW_UNAUTHENTICATED_ADMIN === "true" };
+if (authConfigFile) {
+    app.use(["/mcp", "/sse", "/messages", "/admin"], createAuthMiddleware(createAuthenticators(loadAuthConfig(authConfigFile))));
+} else if (serveHttp) {
+    logger.warn(scopeOptions.allowUnauthenticatedAdmin
+        ? "AUTH_CONFIG_FILE is not set, /mcp, /sse and /admin accept unauthenticated clients"
+        : "AUTH_CONFIG_FILE is not set, /mcp and /sse accept unauthenticated clients, /admin is disabled");
+}
 
+// Routes by ID for the tools that take a routeId
 const _cache = new NodeCache();
-const cacheTTL = 60 * 60 * 24;
-const lifiIntegrator = "helixbox-mcp";
+const routeCacheTTL = 60 * 10;
+// Spenders of the quotes and routes handed out, checked by scan-allowances besides the LI.FI Diamond
+const quotedSpenders = createSpenderRegistry();
 const lifiProtocol = "LI.FI";
 
-const allChains = await getChains();
+// Headers for the li.quest endpoints the SDK does not cover
+function lifiHeaders() {
+    return {
+        "x-lifi-sdk-integrator": config.lifi.integrator,
+        "x-api-key": config.lifi.apiKey ?? "",
+    };
+}
+
+// Spans of tool calls and LI.FI requests, exported over OTLP when OTEL_EXPORTER_OTLP_ENDPOINT is set
+const tracer = createTracerFromEnv(process.env, (error) => logger.warn("Failed to export spans", { error }));
+tracer.start();
+
+// Prometheus metrics served on /metrics; session and cache metrics are read from their owners on every scrape
+const metrics = createMetricsRegistry();
+const toolCalls = metrics.counter("mcp_tool_calls_total", "Tool calls by tool and outcome");
+const toolErrors = metrics.counter("mcp_tool_errors_total", "Failed tool calls by tool and error class");
+const toolDuration = metrics.histogram("mcp_tool_call_duration_seconds", "Tool call duration in seconds");
+const upstreamRequests = metrics.counter("lifi_requests_total", "LI.FI and li.quest requests by operation and outcome");
+const upstreamDuration = metrics.histogram("lifi_request_duration_seconds", "LI.FI and li.quest request duration in seconds, retries included");
+metrics.gauge("mcp_active_sessions", "Open MCP sessions by transport", () => ["streamable", "sse"].map((transport) => ({
+    labels: { transport },
+    value: sessions.list().filter((session) => session.transport === transport).length,
+})));
+metrics.counter("reference_cache_lookups_total", "Reference data lookups by kind and result", () => referenceCache.stats().flatMap((stats) => [
+    { labels: { kind: stats.kind, result: "hit" }, value: stats.hits },
+    { labels: { kind: stats.kind, result: "stale" }, value: stats.staleHits },
+    { labels: { kind: stats.kind, result: "miss" }, value: stats.misses },
+]));
+metrics.gauge("reference_cache_hit_ratio", "Share of reference data lookups served from the cache, fresh or stale", () => referenceCache.stats()
+    .filter((stats) => stats.hits + stats.staleHits + stats.misses > 0)
+    .map((stats) => ({ labels: { kind: stats.kind }, value: (stats.hits + stats.staleHits) / (stats.hits + stats.staleHits + stats.misses) })));
+
+// Every LI.FI request goes through the upstream client, which enforces the API key and session budgets
+const upstream = createUpstreamClientFromEnv({
+    tracer,
+    onRequest: ({ operation, durationMs, retries, error }) => {
+        upstreamRequests.inc({ operation, outcome: error ? error.code : "success" });
+        upstreamDuration.observe({ operation }, durationMs / 1000);
+        if (error) {
+            logger.warn("LI.FI request failed", { operation, durationMs: Math.round(durationMs), retries, errorCode: error.code, error: error.message });
+        } else {
+            logger.debug("LI.FI request", { operation, durationMs: Math.round(durationMs), retries });
+        }
+    },
+});
+
+// Open streamable HTTP and SSE sessions; their upstream rate limit state is dropped when they close
+const sessions = createSessionManagerFromEnv({ onClose: (sessionId) => upstream.forgetSession(sessionId) });
+
+// Streamable session records and stream events, shared between replicas when backed by Redis
+const sessionStore = createSessionStoreFromEnv();
+
+// Call a LI.FI SDK function under the rate limits, sharing identical in-flight requests
+function callLifi<A extends unknown[], R>(sessionId: string | undefined, fn: (...args: A) => Promise<R>, ...args: A): Promise<R> {
+    return upstream.call(requestKey(fn.name, args), () => fn(...args), { sessionId });
+}
+
+// Chains, tokens, tools, connections and gas prices, served stale while refreshing and snapshotted to disk
+// so the server can start while LI.FI is unreachable
+const referenceCache = createReferenceCacheFromEnv(cachePolicies(config));
+await referenceCache.load();
+
+// The chain list is fetched before createConfig below, so the SDK needs the API settings first
+sdkConfig.set({ apiUrl: config.lifi.apiUrl, integrator: config.lifi.integrator, apiKey: config.lifi.apiKey });
+referenceCache.start();
+
+// The chain list the RPC pool and the SDK were given, replaced by getCachedChains once the cache refreshed it
+let knownChains = await lookupChains();
+
+// RPC endpoints per chain with failover, shared by the LI.FI EVM provider and the tools reading chain state
+const rpcPool = createRpcPool({
+    chains: knownChains,
+    rpcUrls: loadRpcConfig(),
+    healthCheckIntervalMs: Number(process.env.RPC_HEALTH_CHECK_INTERVAL_MS) || undefined,
+});
+rpcPool.start();
+
+// Execution is opt-in: without SIGNER_TYPE there is no signer and execute-route is not registered
+const signer = createSignerFromEnv();
+const signerRpcUrl = process.env.SIGNER_RPC_URL || undefined;
+
+function getSignerWalletClient(chainId: number) {
+    if (!signer) {
+        throw new Error(`Cannot create signer wallet client for chain ${chainId}`);
+    }
+    return createSignerWalletClient(signer, rpcPool.getChain(chainId), signerRpcUrl ? http(signerRpcUrl) : rpcPool.getTransport(chainId));
+}
 
 createConfig({
-    integrator: lifiIntegrator,
-    apiKey: process.env.LIFIPRO_API_KEY,
+    apiUrl: config.lifi.apiUrl,
+    integrator: config.lifi.integrator,
+    apiKey: config.lifi.apiKey,
+    rpcUrls: rpcPool.getConfiguredUrls(),
+    // The SDK gets the cached chain list below instead of fetching its own, which would fail unhandled offline
+    preloadChains: false,
     providers: [
         EVM({
-            getWalletClient: async () => createWalletClient({
-                chain: mainnet,
-                transport: http(),
-            }),
+            getWalletClient: async () => signer ? getSignerWalletClient(mainnet.id) : rpcPool.getWalletClient(mainnet.id),
             switchChain: async (chainId) =>
                 // Switch chain by creating a new wallet client
-                createWalletClient({
-                    chain: allChains.find((chain) => chain.id == chainId) as unknown as ViemChain,
-                    transport: http(),
-                }),
+                signer ? getSignerWalletClient(chainId) : rpcPool.getWalletClient(chainId),
         }),
+        // Non-EVM providers are read-only here: balances, address checks and name resolution
+        Solana(),
+        UTXO(),
+        Sui(),
     ]
 });
+sdkConfig.setChains(knownChains);
+
+function lookupChains() {
+    return referenceCache.get("chains", undefined, () => callLifi(undefined, getChains, { chainTypes: allChainTypes }));
+}
+
+// Cached reference data lookups shared by tools and resources; a tool's session pays for the fetches it causes
+async function getCachedChains() {
+    const chains = await lookupChains();
+    if (chains !== knownChains) {
+        knownChains = chains;
+        rpcPool.setChains(chains);
+        sdkConfig.setChains(chains);
+    }
+    return chains;
+}
+
+// Full token lists per chain, fetched in one request for all chains missing from the cache
+async function getCachedTokens(chainIds: number[], sessionId?: string) {
+    return referenceCache.getMany("tokens", chainIds, async (ids) => {
+        const response = await callLifi(sessionId, getTokens, { chains: ids as number[], chainTypes: allChainTypes });
+        return ids.map((id) => response.tokens[id as number] ?? []);
+    });
+}
+
+// Chains the config allows, for listings and input resolution
+async function getAllowedChains() {
+    return (await getCachedChains()).filter((chain) => isChainAllowed(config, chain));
+}
+
+async function getCachedChainTokens(chainId: number, sessionId?: string) {
+    const [tokens] = await getCachedTokens([chainId], sessionId);
+    return tokens;
+}
+
+// Search indexes are rebuilt only when a chain's token list was refreshed
+const tokenIndexes = new WeakMap<Token[], TokenIndex>();
+
+async function getCachedTokenIndex(chainIds?: number[]) {
+    const ids = chainIds ?? (await getAllowedChains()).map((chain) => chain.id);
+    return (await getCachedTokens(ids)).flatMap((tokens) => {
+        let index = tokenIndexes.get(tokens);
+        if (!index) {
+            index = buildTokenIndex(tokens);
+            tokenIndexes.set(tokens, index);
+        }
+        return index;
+    });
+}
+
+// Token by address or symbol
+async function getCachedToken(chainId: number, token: string, sessionId?: string) {
+    return referenceCache.get("token", `${chainId}:${token.toLowerCase()}`, () => callLifi(sessionId, getToken, chainId, token));
+}
+
+async function getCachedTools(chains?: string[], sessionId?: string) {
+    const key = chains?.map((chain) => chain.toLowerCase()).sort().join(",");
+    return referenceCache.get("tools", key || undefined, () => callLifi(sessionId, getTools, chains ? { chains: chains as any } : undefined));
+}
+
+// Resolves chain names, token symbols and human-readable amounts for the quote tools
+const resolver = createInputResolver({
+    getChains: getAllowedChains,
+    getChainTokens: getCachedChainTokens,
+    getToken: getCachedToken,
+});
+
+// Warm the lookups every session needs, the token lists of all chains also back token search.
+// One-shot subcommands skip this and fetch only what their tool needs.
+if (!cli.toolCall) {
+    Promise.all([getCachedTools(), getCachedTokenIndex()])
+        .then(() => referenceCache.save())
+        .catch((error) => logger.error("Failed to warm the reference cache", { error }));
+}
+
+// Aggregators queried by best-quote, LI.FI unless QUOTE_PROVIDERS says otherwise
+const quoteProviders = createQuoteProvidersFromEnv(process.env, (request, { sessionId, clientId }) => callLifi(sessionId, getQuote, { ...quoteParams(config, {}, clientId), ...request }));
+
+// Transfers tracked across all sessions, persisted so they survive restarts
+const tracker = createTransferTracker({
+    file: process.env.TRACKER_FILE || "data/transfers.json",
+    retentionMs: Number(process.env.TRACKER_RETENTION_MS) || undefined,
+    getStatus: (request) => callLifi(undefined, getStatus, request),
+});
+await tracker.start();
+
+function getSimulationClient(chainId: number) {
+    const rpcUrl = getSimulationRpcUrl(chainId);
+    return rpcUrl ? createSimulationClient(rpcPool.getChain(chainId), rpcUrl) : rpcPool.getPublicClient(chainId);
+}
+
+// Fetches a step's transaction through the upstream client, on behalf of the calling session
+function fetchStepTransaction(sessionId: string | undefined): FetchStepTransaction {
+    return (step) => callLifi(sessionId, getStepTransaction, step);
+}
+
+// Simulation requested by swap / bridge; a simulation that cannot run does not fail the quote
+async function trySimulate(quote: LiFiStep, chain: ExtendedChain, sessionId: string | undefined): Promise<{ simulation?: Simulation, simulationError?: ToolErrorInfo }> {
+    try {
+        return { simulation: await simulateStep(quote, chain, getSimulationClient(chain.id), fetchStepTransaction(sessionId)) };
+    } catch (error) {
+        return { simulationError: classifyError(error, "Failed to simulate quote") };
+    }
+}
+
+// The step a tool works on: the given quote, or a step of a route returned by the routes tool
+function findStep({ quote, routeId, stepIndex = 0 }: { quote?: z.infer<typeof stepSchema>, routeId?: string, stepIndex?: number }): LiFiStep {
+    if (quote) {
+        return quote as LiFiStep;
+    }
+    if (!routeId) {
+        throw new ToolError("invalid_input", "Either a quote or a routeId is required");
+    }
+    const route = _cache.get<Route>(`route-${routeId}`);
+    if (!route) {
+        throw new ToolError("invalid_input", `Route ${routeId} not found or expired, request routes again`);
+    }
+    const step = route.steps[stepIndex];
+    if (!step) {
+        throw new ToolError("invalid_input", `Route ${routeId} has no step ${stepIndex}`);
+    }
+    return step;
+}
+
+// Source and target chain of a quote or route step, rejected like any other chain input when the policy denies them
+function resolveStepChains(step: LiFiStep) {
+    return Promise.all([resolver.resolveChain(step.action.fromChainId), resolver.resolveChain(step.action.toChainId)]);
+}
+
+// Re-apply the config's tool policy to the servers of open sessions
+const toolRefreshers = new Set<() => void>();
+
+// Register all tools to the given server instance, limited to what the client's scopes allow
+function registerAllTools(server: McpServer, auth?: AuthInfo) {
+    const refreshTools = toggleTools(server, (name) => isToolEnabled(config, name));
+    restrictTools(server, (name) => hasToolAccess(auth, name, scopeOptions));
+    if (cli.tools) {
+        restrictTools(server, (name) => cli.tools!.includes(name));
+    }
+    observeTools(server, tracer, ({ tool, sessionId, clientId, durationMs, error }) => {
+        toolCalls.inc({ tool, outcome: error ? "error" : "success" });
+        toolDuration.observe({ tool }, durationMs / 1000);
+        const fields = { tool, sessionId, clientId, durationMs: Math.round(durationMs) };
+        if (error) {
+            toolErrors.inc({ tool, code: error.code });
+            logger.warn("Tool call failed", { ...fields, errorCode: error.code, error: error.message });
+        } else {
+            logger.info("Tool call", fields);
+        }
+    });
+    validateToolOutputs(server);
+
+    // Resources this session subscribed to, by lowercased URI; status changes of its transfers among them are pushed
+    // as resource updates
+    const subscriptions = new Map<string, string>();
+    server.server.setRequestHandler(SubscribeRequestSchema, async ({ params }) => {
+        subscriptions.set(params.uri.toLowerCase(), params.uri);
+        return {};
+    });
+    server.server.setRequestHandler(UnsubscribeRequestSchema, async ({ params }) => {
+        subscriptions.delete(params.uri.toLowerCase());
+        return {};
+    });
+    const unsubscribeTracker = tracker.subscribe((transfer) => {
+        const uri = subscriptions.get(`transfers://${transfer.txHash}`.toLowerCase());
+        if (transfer.clientId !== auth?.clientId || !uri) return;
+        server.server.sendResourceUpdated({ uri }).catch(() => {});
+    });
+    toolRefreshers.add(refreshTools);
+    server.server.onclose = () => {
+        unsubscribeTracker();
+        toolRefreshers.delete(refreshTools);
+    };
 
-// Register all tools to the given server instance
-function registerAllTools(server: McpServer) {
     // swap tool: cross-chain or same-chain swap
     server.registerTool(
         "swap",
         {
             description: "Swap tokens (cross-chain or same-chain)",
             inputSchema: {
-                fromChain: z.number().describe("Source chain ID"),
-                toChain: z.number().describe("Target chain ID"),
-                fromToken: z.string().describe("Source token address"),
-                toToken: z.string().describe("Target token address"),
-                fromAmount: z.string().describe("Amount in smallest unit (string)"),
+                fromChain: chainInputSchema.describe("Source chain ID, key or name"),
+                toChain: chainInputSchema.describe("Target chain ID, key or name"),
+                fromToken: z.string().describe("Source token address or symbol"),
+                toToken: z.string().describe("Target token address or symbol"),
+                fromAmount: z.string().describe(amountInputDescription),
                 fromAddress: z.string().describe("User wallet address"),
-                slippage: z.number().optional().describe("Allowed slippage in percent (optional)"),
+                toAddress: z.string().optional().describe("Recipient on the target chain, required when the chains are of different types, e.g. EVM to Solana (optional)"),
+                slippage: slippageInputSchema.optional().describe("Allowed slippage as decimal, e.g. 0.005 for 0.5% (optional)"),
+                simulate: z.boolean().optional().describe("Simulate the quote's transaction before returning it (optional)"),
             },
             outputSchema: {
                 params: z.object({
-                    fromChain: z.number().describe("Source chain ID"),
-                    toChain: z.number().describe("Target chain ID"),
-                    fromToken: z.string().describe("Source token address"),
-                    toToken: z.string().describe("Target token address"),
-                    fromAmount: z.string().describe("Amount in smallest unit (string)"),
+                    fromChain: chainInputSchema.describe("Source chain ID, key or name"),
+                    toChain: chainInputSchema.describe("Target chain ID, key or name"),
+                    fromToken: z.string().describe("Source token address or symbol"),
+                    toToken: z.string().describe("Target token address or symbol"),
+                    fromAmount: z.string().describe("Requested amount"),
                     fromAddress: z.string().describe("User wallet address"),
-                    slippage: z.number().optional().describe("Allowed slippage in percent (optional)"),
+                    toAddress: z.string().optional().describe("Recipient on the target chain (optional)"),
+                    slippage: slippageInputSchema.optional().describe("Allowed slippage as decimal, e.g. 0.005 for 0.5% (optional)"),
+                    simulate: z.boolean().optional().describe("Simulate the quote's transaction before returning it (optional)"),
                 }),
                 protocol: z.string().describe("Protocol"),
-                quote: z.any().optional().describe("Quote"),
-                error: z.string().optional().describe("Error message"),
+                resolved: resolvedInputSchema.optional().describe("Resolved chains, tokens and raw amount"),
+                amounts: quoteAmountsSchema.optional().describe("Quote amounts, raw and formatted"),
+                integratorFee: integratorFeeSchema.optional().describe("Integrator fee taken from the sent amount, when one is configured"),
+                quote: stepSchema.optional().describe("Quote"),
+                simulation: simulationSchema.optional().describe("Simulation of the quote's transaction, when requested"),
+                simulationError: toolErrorSchema.optional().describe("Why the simulation could not run"),
+                error: toolErrorSchema.optional().describe("Error"),
+                candidates: candidateSchema.optional(),
             },
         },
-        async ({ fromChain, toChain, fromToken, toToken, fromAmount, fromAddress, slippage }) => {
+        async ({ fromChain, toChain, fromToken, toToken, fromAmount, fromAddress, toAddress, slippage, simulate }, extra) => {
             try {
-                const quote = await getQuote({
-                    fromChain,
-                    toChain,
-                    fromToken,
-                    toToken,
-                    fromAmount,
+                const resolved = await resolver.resolveTransfer({ fromChain, toChain, fromToken, toToken, amount: fromAmount, fromAddress, toAddress });
+                const quote = await callLifi(extra.sessionId, getQuote, {
+                    fromChain: resolved.fromChain.id,
+                    toChain: resolved.toChain.id,
+                    fromToken: resolved.fromToken.address,
+                    toToken: resolved.toToken.address,
+                    fromAmount: resolved.amount.raw,
                     fromAddress,
-                    slippage,
+                    toAddress,
+                    ...quoteParams(config, { slippage }, extra.authInfo?.clientId),
                 });
-                return {
-                    structuredContent: {
-                        params: {
-                            fromChain,
-                            toChain,
-                            fromToken,
-                            toToken,
-                            fromAmount,
-                            fromAddress,
-                            slippage,
-                        },
-                        protocol: lifiProtocol,
-                        quote: quote,
-                    }
-                };
+                quotedSpenders.recordStep(quote);
+                const integratorFee = summarizeIntegratorFee(feeSettings(config, extra.authInfo?.clientId), quote.action.fromAmount, quote.action.fromToken, quote.estimate?.feeCosts);
+                const simulated = simulate ? await trySimulate(quote, resolved.fromChain, extra.sessionId) : undefined;
+                return structuredResult({
+                    params: {
+                        fromChain,
+                        toChain,
+                        fromToken,
+                        toToken,
+                        fromAmount,
+                        fromAddress,
+                        toAddress,
+                        slippage,
+                        simulate,
+                    },
+                    protocol: lifiProtocol,
+                    resolved: summarizeResolvedTransfer(resolved),
+                    amounts: summarizeQuoteAmounts(quote),
+                    integratorFee,
+                    quote: quote,
+                    ...simulated,
+                }, `Quote: ${describeStep(quote)}${integratorFee ? `\n${describeIntegratorFee(integratorFee)}` : ""}${simulated?.simulation ? `\n${describeSimulation(simulated.simulation)}` : ""}`);
             } catch (error: any) {
-                return {
-                    structuredContent: {
-                        params: {
-                            fromChain,
-                            toChain,
-                            fromToken,
-                            toToken,
-                            fromAmount,
-                            fromAddress,
-                            slippage,
-                        },
-                        protocol: lifiProtocol,
-                        error: `Failed to get swap quote: ${error.message}`,
-                    }
-                };
+                return errorResult(error, "Failed to get swap quote", {
+                    params: {
+                        fromChain,
+                        toChain,
+                        fromToken,
+                        toToken,
+                        fromAmount,
+                        fromAddress,
+                        toAddress,
+                        slippage,
+                        simulate,
+                    },
+                    protocol: lifiProtocol,
+                    candidates: error instanceof AmbiguousTokenError ? summarizeCandidates(error) : undefined,
+                });
             }
         }
     );
@@ -131,336 +473,349 @@ function registerAllTools(server: McpServer) {
         {
             description: "Bridge tokens",
             inputSchema: {
-                fromChain: z.number().describe("Source chain ID"),
-                toChain: z.number().describe("Target chain ID"),
-                fromToken: z.string().describe("Source token address"),
-                toToken: z.string().describe("Target token address"),
-                fromAmount: z.string().describe("Amount in smallest unit (string)"),
+                fromChain: chainInputSchema.describe("Source chain ID, key or name"),
+                toChain: chainInputSchema.describe("Target chain ID, key or name"),
+                fromToken: z.string().describe("Source token address or symbol"),
+                toToken: z.string().describe("Target token address or symbol"),
+                fromAmount: z.string().describe(amountInputDescription),
                 fromAddress: z.string().describe("User wallet address"),
-                slippage: z.number().optional().describe("Allowed slippage in percent (optional)"),
+                toAddress: z.string().optional().describe("Recipient on the target chain, required when the chains are of different types, e.g. EVM to Solana (optional)"),
+                slippage: slippageInputSchema.optional().describe("Allowed slippage as decimal, e.g. 0.005 for 0.5% (optional)"),
+                simulate: z.boolean().optional().describe("Simulate the quote's transaction before returning it (optional)"),
             },
             outputSchema: {
                 params: z.object({
-                    fromChain: z.number().describe("Source chain ID"),
-                    toChain: z.number().describe("Target chain ID"),
-                    fromToken: z.string().describe("Source token address"),
-                    toToken: z.string().describe("Target token address"),
-                    fromAmount: z.string().describe("Amount in smallest unit (string)"),
+                    fromChain: chainInputSchema.describe("Source chain ID, key or name"),
+                    toChain: chainInputSchema.describe("Target chain ID, key or name"),
+                    fromToken: z.string().describe("Source token address or symbol"),
+                    toToken: z.string().describe("Target token address or symbol"),
+                    fromAmount: z.string().describe("Requested amount"),
                     fromAddress: z.string().describe("User wallet address"),
-                    slippage: z.number().optional().describe("Allowed slippage in percent (optional)"),
+                    toAddress: z.string().optional().describe("Recipient on the target chain (optional)"),
+                    slippage: slippageInputSchema.optional().describe("Allowed slippage as decimal, e.g. 0.005 for 0.5% (optional)"),
+                    simulate: z.boolean().optional().describe("Simulate the quote's transaction before returning it (optional)"),
                 }),
                 protocol: z.string().describe("Protocol"),
-                quote: z.any().optional().describe("Quote"),
-                error: z.string().optional().describe("Error message"),
+                resolved: resolvedInputSchema.optional().describe("Resolved chains, tokens and raw amount"),
+                amounts: quoteAmountsSchema.optional().describe("Quote amounts, raw and formatted"),
+                integratorFee: integratorFeeSchema.optional().describe("Integrator fee taken from the sent amount, when one is configured"),
+                quote: stepSchema.optional().describe("Quote"),
+                simulation: simulationSchema.optional().describe("Simulation of the quote's transaction, when requested"),
+                simulationError: toolErrorSchema.optional().describe("Why the simulation could not run"),
+                error: toolErrorSchema.optional().describe("Error"),
+                candidates: candidateSchema.optional(),
             },
         },
-        async ({ fromChain, toChain, fromToken, toToken, fromAmount, fromAddress, slippage }) => {
+        async ({ fromChain, toChain, fromToken, toToken, fromAmount, fromAddress, toAddress, slippage, simulate }, extra) => {
             try {
-                const quote = await getQuote({
-                    fromChain,
-                    toChain,
-                    fromToken,
-                    toToken,
-                    fromAmount,
+                const resolved = await resolver.resolveTransfer({ fromChain, toChain, fromToken, toToken, amount: fromAmount, fromAddress, toAddress });
+                const quote = await callLifi(extra.sessionId, getQuote, {
+                    fromChain: resolved.fromChain.id,
+                    toChain: resolved.toChain.id,
+                    fromToken: resolved.fromToken.address,
+                    toToken: resolved.toToken.address,
+                    fromAmount: resolved.amount.raw,
                     fromAddress,
-                    slippage,
+                    toAddress,
                     // Specify bridge type
-                    allowBridges: ["all"],
-                    allowExchanges: [],
+                    ...quoteParams(config, { slippage, allowBridges: ["all"], allowExchanges: [] }, extra.authInfo?.clientId),
                 });
-                return {
-                    structuredContent: {
-                        params: {
-                            fromChain,
-                            toChain,
-                            fromToken,
-                            toToken,
-                            fromAmount,
-                            fromAddress,
-                            slippage,
-                        },
-                        protocol: lifiProtocol,
-                        quote: quote,
-                    }
-                };
+                quotedSpenders.recordStep(quote);
+                const integratorFee = summarizeIntegratorFee(feeSettings(config, extra.authInfo?.clientId), quote.action.fromAmount, quote.action.fromToken, quote.estimate?.feeCosts);
+                const simulated = simulate ? await trySimulate(quote, resolved.fromChain, extra.sessionId) : undefined;
+                return structuredResult({
+                    params: {
+                        fromChain,
+                        toChain,
+                        fromToken,
+                        toToken,
+                        fromAmount,
+                        fromAddress,
+                        toAddress,
+                        slippage,
+                        simulate,
+                    },
+                    protocol: lifiProtocol,
+                    resolved: summarizeResolvedTransfer(resolved),
+                    amounts: summarizeQuoteAmounts(quote),
+                    integratorFee,
+                    quote: quote,
+                    ...simulated,
+                }, `Quote: ${describeStep(quote)}${integratorFee ? `\n${describeIntegratorFee(integratorFee)}` : ""}${simulated?.simulation ? `\n${describeSimulation(simulated.simulation)}` : ""}`);
             } catch (error: any) {
-                return {
-                    structuredContent: {
-                        params: {
-                            fromChain,
-                            toChain,
-                            fromToken,
-                            toToken,
-                            fromAmount,
-                            fromAddress,
-                            slippage,
-                        },
-                        protocol: lifiProtocol,
-                        error: `Failed to get bridge quote: ${error.message}`,
-                    }
-                };
+                return errorResult(error, "Failed to get bridge quote", {
+                    params: {
+                        fromChain,
+                        toChain,
+                        fromToken,
+                        toToken,
+                        fromAmount,
+                        fromAddress,
+                        toAddress,
+                        slippage,
+                        simulate,
+                    },
+                    protocol: lifiProtocol,
+                    candidates: error instanceof AmbiguousTokenError ? summarizeCandidates(error) : undefined,
+                });
             }
         }
     );
 
     // chains tool: get supported chains
-    server.tool(
+    server.registerTool(
         "chains",
-        "Get supported chains",
-        {},
-        async () => {
+        {
+            description: "Get supported chains: EVM, Solana (SVM), Bitcoin (UTXO) and Sui (MVM)",
+            inputSchema: {
+                chainTypes: z.array(chainTypeSchema).optional().describe("Only chains of these types, defaults to all (optional)"),
+            },
+            outputSchema: {
+                chains: z.array(chainSchema).optional().describe("Supported chains"),
+                error: toolErrorSchema.optional().describe("Error"),
+            },
+        },
+        async ({ chainTypes }) => {
             try {
-                let chains = _cache.get("chains");
-                if (!chains) {
-                    chains = await getChains();
-                    _cache.set("chains", chains, cacheTTL);
-                }
-                return {
-                    content: [
-                        {
-                            type: "text",
-                            text: safeStringify(chains),
-                        },
-                    ],
-                };
+                const chains = (await getAllowedChains()).filter((chain) => !chainTypes || chainTypes.includes(chain.chainType));
+                return structuredResult({ chains }, `${chains.length} supported chains: ${chains.map((chain) => `${chain.name} (${chain.id})`).join(", ")}`);
             } catch (error: any) {
-                return {
-                    content: [
-                        {
-                            type: "text",
-                            text: `Failed to get chains: ${error.message}`,
-                        },
-                    ],
-                };
+                return errorResult(error, "Failed to get chains", {});
             }
         }
     );
 
     // tokens tool: get supported tokens
-    server.tool(
+    server.registerTool(
         "tokens-one-chain",
-        "Get supported tokens on one chain",
         {
-            chain: z.string().optional().describe("Chain key or ID (optional)"),
+            description: "Get supported tokens on one chain",
+            inputSchema: {
+                chain: z.string().optional().describe("Chain key or ID (optional)"),
+                chainTypes: z.array(chainTypeSchema).optional().describe("Chain types to list tokens for when no chain is given, defaults to all (optional)"),
+            },
+            outputSchema: {
+                tokens: z.array(tokenSchema).optional().describe("First tokens, up to the deployment's token list limit"),
+                error: toolErrorSchema.optional().describe("Error"),
+            },
         },
-        async ({ chain }) => {
+        async ({ chain, chainTypes = allChainTypes }, extra) => {
             try {
-                let lessTokens = _cache.get(`tokens-${chain || "all"}`);
-                if (!lessTokens) {
-                    const tokens = await getTokens({ chains: chain ? [chain as any] : undefined, chainTypes: [ChainType.EVM] });
-                    lessTokens = tokens.tokens[chain as any].slice(0, 25);
-                    _cache.set(`tokens-${chain || "all"}`, lessTokens, 60 * 5);
-                }
-                return {
-                    content: [
-                        {
-                            type: "text",
-                            text: safeStringify(lessTokens),
-                        },
-                    ],
-                };
+                const chainIds = chain
+                    ? [(await resolver.resolveChain(chain)).id]
+                    : (await getAllowedChains()).filter((chain) => chainTypes.includes(chain.chainType)).map((chain) => chain.id);
+                const lessTokens = (await getCachedTokens(chainIds, extra.sessionId)).flat().slice(0, config.tokenListLimit);
+                return structuredResult({ tokens: lessTokens }, `${lessTokens.length} tokens: ${lessTokens.map((token) => token.symbol).join(", ")}`);
             } catch (error: any) {
-                return {
-                    content: [
-                        {
-                            type: "text",
-                            text: `Failed to get tokens: ${error.message}`,
-                        },
-                    ],
-                };
+                return errorResult(error, "Failed to get tokens", {});
             }
         }
     );
 
     // tokens tool: get supported tokens
-    server.tool(
+    server.registerTool(
         "tokens-multiple-chains",
-        "Get supported tokens on multiple chains",
         {
-            chains: z.array(z.string()).optional().describe("List of chain keys (optional)"),
+            description: "Get supported tokens on multiple chains",
+            inputSchema: {
+                chains: z.array(z.string()).optional().describe("List of chain keys or IDs (optional)"),
+                chainTypes: z.array(chainTypeSchema).optional().describe("Chain types to include, defaults to all (optional)"),
+            },
+            outputSchema: {
+                tokens: z.record(z.array(tokenSchema)).optional().describe("First tokens per chain ID, up to the deployment's token list limit"),
+                error: toolErrorSchema.optional().describe("Error"),
+            },
         },
-        async ({ chains }) => {
+        async ({ chains, chainTypes = allChainTypes }, extra) => {
             try {
-                const tokens = await getTokens({ chains: chains ? chains as any : undefined, chainTypes: [ChainType.EVM] });
-                for (const chain in tokens.tokens) {
-                    const lessTokens = tokens.tokens[chain].slice(0, 25);
-                    tokens.tokens[chain] = lessTokens;
-                }
-                return {
-                    content: [
-                        {
-                            type: "text",
-                            text: safeStringify(tokens),
-                        },
-                    ],
-                };
+                const chainIds = await resolver.resolveChainIds(chains)
+                    ?? (await getAllowedChains()).filter((chain) => chainTypes.includes(chain.chainType)).map((chain) => chain.id);
+                const chainTokens = await getCachedTokens(chainIds, extra.sessionId);
+                const tokens = Object.fromEntries(chainIds.map((chainId, index) => [chainId, chainTokens[index].slice(0, config.tokenListLimit)]));
+                const counts = Object.entries(tokens).map(([chainId, chainTokens]) => `chain ${chainId}: ${chainTokens.length}`);
+                return structuredResult({ tokens }, `Tokens per chain (first ${config.tokenListLimit}): ${counts.join(", ")}`);
             } catch (error: any) {
-                return {
-                    content: [
-                        {
-                            type: "text",
-                            text: `Failed to get tokens: ${error.message}`,
-                        },
-                    ],
-                };
+                return errorResult(error, "Failed to get tokens", {});
+            }
+        }
+    );
+
+    // search-tokens tool: search the full token lists by symbol, name or address
+    server.registerTool(
+        "search-tokens",
+        {
+            description: "Search tokens by symbol, name or address (fuzzy) across one or many chains, with filters, sorting and cursor pagination",
+            inputSchema: {
+                query: z.string().optional().describe("Symbol, name or address to search for (optional)"),
+                chains: z.array(chainInputSchema).optional().describe("Chain IDs, keys or names, defaults to all chains (optional)"),
+                minPriceUSD: z.number().optional().describe("Minimum token price in USD (optional)"),
+                verified: z.boolean().optional().describe("Only tokens mapped to a known coin (optional)"),
+                tags: z.array(z.string()).optional().describe("Only tokens having all of these tags (optional)"),
+                sort: z.enum(["relevance", "priceUSD", "symbol"]).optional().describe("Sort order, defaults to relevance with a query and priceUSD without (optional)"),
+                limit: z.number().int().min(1).max(100).optional().describe("Page size, defaults to 25 (optional)"),
+                cursor: z.string().optional().describe("Cursor from a previous page (optional)"),
+            },
+            outputSchema: {
+                tokens: z.array(tokenSummarySchema).optional().describe("Matching tokens"),
+                total: z.number().optional().describe("Total number of matches"),
+                nextCursor: z.string().optional().describe("Cursor for the next page, absent on the last page"),
+                error: toolErrorSchema.optional().describe("Error"),
+            },
+        },
+        async ({ query, chains, minPriceUSD, verified, tags, sort, limit, cursor }) => {
+            try {
+                const index = await getCachedTokenIndex(await resolver.resolveChainIds(chains));
+                const result = searchTokens(index, { query, minPriceUSD, verified, tags, sort, limit, cursor });
+                const symbols = result.tokens.map((token) => `${token.symbol} (chain ${token.chainId})`).join(", ");
+                return structuredResult(result, `${result.total} matches${result.tokens.length ? `: ${symbols}` : ""}${result.nextCursor ? ", more with nextCursor" : ""}`);
+            } catch (error: any) {
+                return errorResult(error, "Failed to search tokens", {});
             }
         }
     );
 
     // token tool: get token info
-    server.tool(
+    server.registerTool(
         "token",
-        "Get token info",
         {
-            chain: z.string().describe("Chain key or chain ID"),
-            token: z.string().describe("Token address or symbol"),
+            description: "Get token info",
+            inputSchema: {
+                chain: z.string().describe("Chain key or chain ID"),
+                token: z.string().describe("Token address or symbol"),
+            },
+            outputSchema: {
+                token: tokenSchema.optional().describe("Token"),
+                error: toolErrorSchema.optional().describe("Error"),
+            },
         },
-        async ({ chain, token }) => {
+        async ({ chain, token }, extra) => {
             try {
-                let tokenInfo = _cache.get(`token-${chain}-${token}`);
-                if (!tokenInfo) {
-                    tokenInfo = await getToken(chain as any, token);
-                    _cache.set(`token-${chain}-${token}`, tokenInfo, cacheTTL);
-                }
-                return {
-                    content: [
-                        {
-                            type: "text",
-                            text: safeStringify(tokenInfo),
-                        },
-                    ],
-                };
+                const tokenInfo = await getCachedToken((await resolver.resolveChain(chain)).id, token, extra.sessionId);
+                return structuredResult({ token: tokenInfo }, `${tokenInfo.symbol} (${tokenInfo.name}) on chain ${tokenInfo.chainId}: ${tokenInfo.address}, ${tokenInfo.decimals} decimals, $${tokenInfo.priceUSD}`);
             } catch (error: any) {
-                return {
-                    content: [
-                        {
-                            type: "text",
-                            text: `Failed to get token info: ${error.message}`,
-                        },
-                    ],
-                };
+                return errorResult(error, "Failed to get token info", {});
             }
         }
     );
 
     // tools tool: get supported bridges and exchanges
-    server.tool(
+    server.registerTool(
         "tools",
-        "Get supported bridges and exchanges",
         {
-            chains: z.array(z.string()).optional().describe("List of chain keys or IDs (optional)"),
+            description: "Get supported bridges and exchanges",
+            inputSchema: {
+                chains: z.array(z.string()).optional().describe("List of chain keys or IDs (optional)"),
+            },
+            outputSchema: {
+                bridges: toolsSchema.shape.bridges.optional(),
+                exchanges: toolsSchema.shape.exchanges.optional(),
+                error: toolErrorSchema.optional().describe("Error"),
+            },
         },
-        async ({ chains }) => {
+        async ({ chains }, extra) => {
             try {
-                const tools = await getTools(chains ? { chains: chains as any } : undefined);
-                return {
-                    content: [
-                        {
-                            type: "text",
-                            text: safeStringify(tools),
-                        },
-                    ],
-                };
+                const chainIds = await resolver.resolveChainIds(chains);
+                const tools = await getCachedTools(chainIds?.map(String), extra.sessionId);
+                return structuredResult(tools, `${tools.bridges.length} bridges (${tools.bridges.map((bridge) => bridge.key).join(", ")}), ${tools.exchanges.length} exchanges`);
             } catch (error: any) {
-                return {
-                    content: [
-                        {
-                            type: "text",
-                            text: `Failed to get tools: ${error.message}`,
-                        },
-                    ],
-                };
+                return errorResult(error, "Failed to get tools", {});
             }
         }
     );
 
     // get-quote-to-amount tool: get a quote for a token transfer using toAmount
-    server.tool(
+    server.registerTool(
         "quote-to-amount",
-        "Get a quote for a token transfer using toAmount",
         {
-            fromChain: z.number().describe("Source chain ID"),
-            toChain: z.number().describe("Target chain ID"),
-            fromToken: z.string().describe("Source token address"),
-            toToken: z.string().describe("Target token address"),
-            toAmount: z.string().describe("Desired amount to receive on target chain (in smallest unit)"),
-            fromAddress: z.string().describe("User wallet address"),
-            slippage: z.number().optional().describe("Allowed slippage in percent (optional)"),
-        },
-        async ({ fromChain, toChain, fromToken, toToken, toAmount, fromAddress, slippage }) => {
+            description: "Get a quote for a token transfer using toAmount",
+            inputSchema: {
+                fromChain: chainInputSchema.describe("Source chain ID, key or name"),
+                toChain: chainInputSchema.describe("Target chain ID, key or name"),
+                fromToken: z.string().describe("Source token address or symbol"),
+                toToken: z.string().describe("Target token address or symbol"),
+                toAmount: z.string().describe(`Desired amount to receive on target chain. ${amountInputDescription}`),
+                fromAddress: z.string().describe("User wallet address"),
+                toAddress: z.string().optional().describe("Recipient on the target chain, required when the chains are of different types, e.g. EVM to Solana (optional)"),
+                slippage: slippageInputSchema.optional().describe("Allowed slippage as decimal, e.g. 0.005 for 0.5% (optional)"),
+            },
+            outputSchema: {
+                resolved: resolvedInputSchema.optional().describe("Resolved chains, tokens and raw amount"),
+                amounts: quoteAmountsSchema.optional().describe("Quote amounts, raw and formatted"),
+                integratorFee: integratorFeeSchema.optional().describe("Integrator fee taken from the sent amount, when one is configured"),
+                quote: stepSchema.optional().describe("Quote"),
+                error: toolErrorSchema.optional().describe("Error"),
+                candidates: candidateSchema.optional(),
+            },
+        },
+        async ({ fromChain, toChain, fromToken, toToken, toAmount, fromAddress, toAddress, slippage }, extra) => {
             try {
+                const resolved = await resolver.resolveTransfer({ fromChain, toChain, fromToken, toToken, amount: toAmount, amountToken: "to", fromAddress, toAddress });
                 const params = new URLSearchParams({
-                    fromChain: fromChain.toString(),
-                    toChain: toChain.toString(),
-                    fromToken,
-                    toToken,
-                    toAmount,
+                    fromChain: resolved.fromChain.id.toString(),
+                    toChain: resolved.toChain.id.toString(),
+                    fromToken: resolved.fromToken.address,
+                    toToken: resolved.toToken.address,
+                    toAmount: resolved.amount.raw,
                     fromAddress,
                 });
-                if (slippage !== undefined) {
-                    params.append("slippage", slippage.toString());
+                if (toAddress) {
+                    params.append("toAddress", toAddress);
                 }
-                const url = `https://li.quest/v1/quote/toAmount?${params.toString()}`;
-                const res = await fetch(url, {
-                    headers: {
-                        "x-lifi-sdk-integrator": lifiIntegrator,
-                        "x-api-key": process.env.LIFIPRO_API_KEY || "",
-                    },
-                });
-                if (!res.ok) {
-                    throw new Error(`HTTP ${res.status}: ${await res.text()}`);
+                for (const [key, value] of Object.entries(quoteParams(config, { slippage }, extra.authInfo?.clientId))) {
+                    if (value !== undefined) {
+                        params.append(key, value.toString());
+                    }
                 }
-                const data = await res.json();
-                return {
-                    content: [
-                        {
-                            type: "text",
-                            text: safeStringify(data),
-                        },
-                    ],
-                };
+                const url = `${config.lifi.apiUrl}/quote/toAmount?${params.toString()}`;
+                const quote: LiFiStep = await upstream.fetchJson(url, { headers: lifiHeaders() }, { sessionId: extra.sessionId });
+                quotedSpenders.recordStep(quote);
+                const integratorFee = summarizeIntegratorFee(feeSettings(config, extra.authInfo?.clientId), quote.action.fromAmount, quote.action.fromToken, quote.estimate?.feeCosts);
+                return structuredResult({
+                    resolved: summarizeResolvedTransfer(resolved),
+                    amounts: summarizeQuoteAmounts(quote),
+                    integratorFee,
+                    quote,
+                }, `Quote: ${describeStep(quote)}${integratorFee ? `\n${describeIntegratorFee(integratorFee)}` : ""}`);
             } catch (error: any) {
-                return {
-                    content: [
-                        {
-                            type: "text",
-                            text: `Failed to get quote by toAmount: ${error.message}`,
-                        },
-                    ],
-                };
+                return errorResult(error, "Failed to get quote by toAmount", {
+                    candidates: error instanceof AmbiguousTokenError ? summarizeCandidates(error) : undefined,
+                });
             }
         }
     );
 
     // getConnections tool: get all available connections for swapping or bridging tokens
-    server.tool(
+    server.registerTool(
         "connections",
-        "Get all available connections for swapping or bridging tokens",
         {
-            fromChain: z.number().optional().describe("Source chain ID (optional)"),
-            fromToken: z.string().optional().describe("Source token address (optional)"),
-            toChain: z.number().optional().describe("Target chain ID (optional)"),
-            toToken: z.string().optional().describe("Target token address (optional)"),
+            description: "Get all available connections for swapping or bridging tokens",
+            inputSchema: {
+                fromChain: z.number().optional().describe("Source chain ID (optional)"),
+                fromToken: z.string().optional().describe("Source token address (optional)"),
+                toChain: z.number().optional().describe("Target chain ID (optional)"),
+                toToken: z.string().optional().describe("Target token address (optional)"),
+            },
+            outputSchema: {
+                connections: z.array(connectionSchema).optional().describe("Connections per chain pair"),
+                error: toolErrorSchema.optional().describe("Error"),
+            },
         },
-        async ({ fromChain, fromToken, toChain, toToken }) => {
+        async ({ fromChain, fromToken, toChain, toToken }, extra) => {
             try {
-                const data = await getConnections({
-                    fromChain,
+                const [fromChainId, toChainId] = [await resolver.resolveChainId(fromChain), await resolver.resolveChainId(toChain)];
+                const key = [fromChainId, fromToken?.toLowerCase(), toChainId, toToken?.toLowerCase()].join(":");
+                const data = await referenceCache.get("connections", key, () => callLifi(extra.sessionId, getConnections, {
+                    fromChain: fromChainId,
                     fromToken,
-                    toChain,
+                    toChain: toChainId,
                     toToken,
-                });
-                return {
-                    content: [
-                        { type: "text", text: safeStringify(data) },
-                    ],
-                };
+                }));
+                const allowed = new Set((await getAllowedChains()).map((chain) => chain.id));
+                const connections = data.connections.filter((connection) => allowed.has(connection.fromChainId) && allowed.has(connection.toChainId));
+                const pairs = connections.map((connection) => `${connection.fromChainId} -> ${connection.toChainId} (${connection.fromTokens.length} to ${connection.toTokens.length} tokens)`);
+                return structuredResult({ connections }, `${pairs.length} connections${pairs.length ? `: ${pairs.slice(0, 20).join(", ")}${pairs.length > 20 ? ", ..." : ""}` : ""}`);
             } catch (error: any) {
-                return {
-                    content: [
-                        { type: "text", text: `Failed to get connections: ${error.message}` },
-                    ],
-                };
+                return errorResult(error, "Failed to get connections", {});
             }
         }
     );
@@ -469,44 +824,27 @@ function registerAllTools(server: McpServer) {
     server.registerTool(
         "token-balance",
         {
-            description: "Get the balance of a specific token for a wallet",
+            description: "Get the balance of a specific token for a wallet on any supported chain type",
             inputSchema: {
-                walletAddress: z.string().describe("Wallet address"),
+                walletAddress: z.string().describe("Wallet address in the chain's format (EVM, Solana, Bitcoin or Sui)"),
                 chainId: z.number().describe("Chain ID"),
                 token: z.string().describe("Token address"),
             },
             outputSchema: {
-                balance: z.object({
-                    chainId: z.number().describe("Chain ID"),
-                    address: z.string().describe("Wallet address"),
-                    symbol: z.string().describe("Token symbol"),
-                    name: z.string().describe("Token name"),
-                    decimals: z.number().describe("Token decimals"),
-                    priceUSD: z.string().describe("Token price in USD"),
-                    coinKey: z.string().describe("Token key"),
-                    logoURI: z.string().describe("Token logo URI"),
-                    amount: z.string().describe("Token balance"),
-                    blockNumber: z.string().describe("Block number"),
-                }),
-                error: z.string().optional().describe("Error message"),
+                balance: tokenAmountSchema.optional().describe("Token with its balance"),
+                error: toolErrorSchema.optional().describe("Error"),
             },
         },
-        async ({ walletAddress, chainId, token }) => {
+        async ({ walletAddress, chainId, token }, extra) => {
             try {
-                const tokenObj = await getToken(chainId, token);
-                let balance = await getTokenBalance(walletAddress, tokenObj);
-                balance = JSON.parse(safeStringify(balance));
-                return {
-                    structuredContent: {
-                        balance: balance,
-                    },
-                };
+                const chain = await resolver.resolveChain(chainId);
+                validateAddress(chain, walletAddress, "walletAddress");
+                const tokenObj = await getCachedToken(chainId, token, extra.sessionId);
+                const [balance] = await getWalletBalances(chain, walletAddress, [tokenObj], rpcPool.getPublicClient);
+                const amount = formatAmount(balance?.amount ?? 0n, tokenObj);
+                return structuredResult({ balance }, `${walletAddress} holds ${amount.formatted} ${amount.symbol} on chain ${chainId}`);
             } catch (error: any) {
-                return {
-                    structuredContent: {
-                        error: `Failed to get token balance: ${error.message}`,
-                    },
-                };
+                return errorResult(error, "Failed to get token balance", {});
             }
         }
     );
@@ -515,360 +853,1174 @@ function registerAllTools(server: McpServer) {
     server.registerTool(
         "token-balances",
         {
-            description: "Get balances for a list of tokens for a wallet",
+            description: "Get balances for a list of tokens for a wallet on any supported chain type",
             inputSchema: {
-                walletAddress: z.string().describe("Wallet address"),
+                walletAddress: z.string().describe("Wallet address in the chain's format (EVM, Solana, Bitcoin or Sui)"),
                 chainId: z.number().describe("Chain ID"),
             },
             outputSchema: {
-                balances: z.array(z.object({
-                    chainId: z.number().describe("Chain ID"),
-                    address: z.string().describe("Wallet address"),
-                    symbol: z.string().describe("Token symbol"),
-                    name: z.string().describe("Token name"),
-                    decimals: z.number().describe("Token decimals"),
-                    priceUSD: z.string().describe("Token price in USD"),
-                    coinKey: z.string().describe("Token key"),
-                    logoURI: z.string().describe("Token logo URI"),
-                    amount: z.string().describe("Token balance"),
-                    blockNumber: z.string().describe("Block number"),
-                })),
-                error: z.string().optional().describe("Error message"),
+                balances: z.array(tokenAmountSchema).optional().describe("Tokens with a non-zero balance"),
+                error: toolErrorSchema.optional().describe("Error"),
             },
         },
-        async ({ walletAddress, chainId }) => {
+        async ({ walletAddress, chainId }, extra) => {
             try {
-                const tokens = await getTokens({ chains: [chainId] });
-                let balances = await getTokenBalances(walletAddress, tokens.tokens[chainId]);
-                balances = balances.filter((balance: any) => balance.amount > 0);
-                balances = JSON.parse(safeStringify(balances));
-                return {
-                    structuredContent: {
-                        balances: balances,
-                    },
-                };
+                const chain = await resolver.resolveChain(chainId);
+                validateAddress(chain, walletAddress, "walletAddress");
+                const tokens = await getCachedChainTokens(chainId, extra.sessionId);
+                if (tokens.length === 0) {
+                    throw new ToolError("invalid_input", `LI.FI has no token list for chain ${chainId}`);
+                }
+                const balances = (await getWalletBalances(chain, walletAddress, tokens, rpcPool.getPublicClient))
+                    .filter((balance) => balance.amount && balance.amount > 0n);
+                const holdings = balances.map((balance) => {
+                    const amount = formatAmount(balance.amount!, balance);
+                    return `${amount.formatted} ${amount.symbol}`;
+                });
+                return structuredResult({ balances }, `${balances.length} tokens with a balance on chain ${chainId}${holdings.length ? `: ${holdings.join(", ")}` : ""}`);
             } catch (error: any) {
-                return {
-                    structuredContent: {
-                        error: `Failed to get token balances: ${error.message}`,
-                    },
-                };
+                return errorResult(error, "Failed to get token balances", {});
             }
         }
     );
 
-    // getTokenAllowance tool: get the allowance of a token for a spender
-    server.tool(
-        "token-allowance",
-        "Get the allowance of a token for a spender",
+    // portfolio tool: balances across all chains with USD totals
+    server.registerTool(
+        "portfolio",
         {
-            token: z.object({
-                address: z.string().describe("Token address"),
-                chainId: z.number().describe("Chain ID"),
-            }),
-            ownerAddress: z.string().describe("Owner address"),
-            spenderAddress: z.string().describe("Spender address"),
+            description: "Get a wallet's token holdings across all (or the given) chains of its address type with per-chain and total USD values",
+            inputSchema: {
+                walletAddress: z.string().describe("Wallet address (EVM, Solana, Bitcoin or Sui)"),
+                chains: z.array(chainInputSchema).optional().describe("Chain IDs, keys or names, defaults to all chains the address format belongs to (optional)"),
+                dustThresholdUSD: z.number().min(0).optional().describe("Drop holdings worth less than this in USD, defaults to 1 (optional)"),
+                top: z.number().int().min(1).optional().describe("Number of top holdings to return, defaults to 20 (optional)"),
+            },
+            outputSchema: {
+                portfolio: portfolioSchema.optional().describe("Portfolio"),
+                error: toolErrorSchema.optional().describe("Error"),
+            },
         },
-        async ({ token, ownerAddress, spenderAddress }) => {
+        async ({ walletAddress, chains, dustThresholdUSD, top }) => {
             try {
-                const tokenObj = await getToken(token.chainId, token.address);
-                const allowance = await getTokenAllowance(tokenObj, ownerAddress as `0x${string}`, spenderAddress as `0x${string}`);
-                return {
-                    content: [
-                        { type: "text", text: safeStringify(allowance) },
-                    ],
-                };
+                const selected = chains
+                    ? await Promise.all(chains.map(async (chain) => {
+                        const resolved = await resolver.resolveChain(chain);
+                        validateAddress(resolved, walletAddress, "walletAddress");
+                        return resolved;
+                    }))
+                    : (await getAllowedChains()).filter((chain) => isValidAddress(chain, walletAddress));
+                if (selected.length === 0) {
+                    throw new ToolError("invalid_input", `walletAddress ${walletAddress} is not a valid address on any supported chain`);
+                }
+                const portfolio = await buildPortfolio(walletAddress, selected, {
+                    getChainTokens: getCachedChainTokens,
+                    getPublicClient: rpcPool.getPublicClient,
+                    dustThresholdUSD,
+                    top,
+                });
+                const chainTotals = portfolio.chains.map((chain) => `${chain.name} $${chain.totalUSD.toFixed(2)}`).join(", ");
+                return structuredResult({ portfolio }, `Total $${portfolio.totalUSD.toFixed(2)}${chainTotals ? ` (${chainTotals})` : ""}`);
             } catch (error: any) {
-                return {
-                    content: [
-                        { type: "text", text: `Failed to get token allowance: ${error.message}` },
-                    ],
-                };
+                return errorResult(error, "Failed to get portfolio", {});
             }
         }
     );
 
-    // getTokenAllowanceMulticall tool: Get the allowance of multiple tokens for a spender
-    server.tool(
-        "token-allowance-multicall",
-        "Get the allowance of multiple tokens for a spender",
+    // getTokenAllowance tool: get the allowance of a token for a spender
+    server.registerTool(
+        "token-allowance",
         {
-            ownerAddress: z.string().describe("Owner address"),
-            tokens: z.array(z.object({
+            description: "Get the allowance of a token for a spender",
+            inputSchema: {
                 token: z.object({
                     address: z.string().describe("Token address"),
                     chainId: z.number().describe("Chain ID"),
                 }),
+                ownerAddress: z.string().describe("Owner address"),
                 spenderAddress: z.string().describe("Spender address"),
-            })).describe("Array of { token, spenderAddress }"),
+            },
+            outputSchema: {
+                allowance: resolvedAmountSchema.optional().describe("Current allowance"),
+                error: toolErrorSchema.optional().describe("Error"),
+            },
         },
-        async ({ ownerAddress, tokens }) => {
+        async ({ token, ownerAddress, spenderAddress }, extra) => {
             try {
-                const tokensWithSpender = await Promise.all(tokens.map(async ({ token, spenderAddress }) => ({
-                    token: await getToken(token.chainId, token.address),
-                    spenderAddress,
-                })));
-                const allowances = await getTokenAllowanceMulticall(ownerAddress as `0x${string}`, tokensWithSpender);
-                return {
-                    content: [
-                        { type: "text", text: safeStringify(allowances) },
-                    ],
-                };
+                assertEvmChain(await resolver.resolveChain(token.chainId));
+                const tokenObj = await getCachedToken(token.chainId, token.address, extra.sessionId);
+                const allowance = formatAmount(isNativeToken(tokenObj.address) ? 0n : await readAllowance(rpcPool.getPublicClient(token.chainId), tokenObj.address, ownerAddress, spenderAddress), tokenObj);
+                return structuredResult({ allowance }, `${spenderAddress} may spend ${allowance.formatted} ${allowance.symbol} of ${ownerAddress}`);
             } catch (error: any) {
-                return {
-                    content: [
-                        { type: "text", text: `Failed to get token allowance multicall: ${error.message}` },
-                    ],
-                };
+                return errorResult(error, "Failed to get token allowance", {});
             }
         }
     );
 
-    // getRoutes tool: get all available routes for a token transfer
-    server.tool(
-        "routes",
-        "Get all available routes for a token transfer",
+    // getTokenAllowanceMulticall tool: Get the allowance of multiple tokens for a spender
+    server.registerTool(
+        "token-allowance-multicall",
         {
-            fromChainId: z.number().describe("Source chain ID"),
-            toChainId: z.number().describe("Target chain ID"),
-            fromTokenAddress: z.string().describe("Source token address"),
-            toTokenAddress: z.string().describe("Target token address"),
-            fromAmount: z.string().describe("Amount in smallest unit (string)"),
-            fromAddress: z.string().optional().describe("User wallet address (optional)"),
-        },
-        async ({ fromChainId, toChainId, fromTokenAddress, toTokenAddress, fromAmount, fromAddress }) => {
+            description: "Get the allowance of multiple tokens for a spender",
+            inputSchema: {
+                ownerAddress: z.string().describe("Owner address"),
+                tokens: z.array(z.object({
+                    token: z.object({
+                        address: z.string().describe("Token address"),
+                        chainId: z.number().describe("Chain ID"),
+                    }),
+                    spenderAddress: z.string().describe("Spender address"),
+                })).describe("Array of { token, spenderAddress }"),
+            },
+            outputSchema: {
+                allowances: z.array(z.object({
+                    token: tokenSchema.describe("Token"),
+                    spenderAddress: z.string().describe("Spender address"),
+                    allowance: resolvedAmountSchema.optional().describe("Current allowance, absent if it could not be read"),
+                })).optional().describe("Allowance per token and spender"),
+                error: toolErrorSchema.optional().describe("Error"),
+            },
+        },
+        async ({ ownerAddress, tokens }, extra) => {
             try {
-                const params: any = {
-                    fromChainId,
-                    toChainId,
-                    fromTokenAddress,
-                    toTokenAddress,
-                    fromAmount,
-                };
-                if (fromAddress) params.fromAddress = fromAddress;
-                const data = await getRoutes(params);
-                return {
-                    content: [
-                        { type: "text", text: safeStringify(data) },
-                    ],
-                };
+                const tokensWithSpender = await Promise.all(tokens.map(async ({ token, spenderAddress }) => ({
+                    token: await getCachedToken((await resolver.resolveChain(token.chainId)).id, token.address, extra.sessionId),
+                    spenderAddress,
+                })));
+                const results = await readAllowances(rpcPool.getPublicClient, ownerAddress, tokensWithSpender);
+                const allowances = results.map((result) => ({
+                    token: result.token,
+                    spenderAddress: result.spenderAddress,
+                    allowance: result.allowance === undefined ? undefined : formatAmount(result.allowance, result.token),
+                }));
+                const lines = allowances.map(({ allowance, spenderAddress, token }) => `${allowance ? `${allowance.formatted} ${allowance.symbol}` : `unknown ${token.symbol}`} for ${spenderAddress}`);
+                return structuredResult({ allowances }, `Allowances of ${ownerAddress}: ${lines.join(", ") || "none (native tokens need no approval)"}`);
             } catch (error: any) {
-                return {
-                    content: [
-                        { type: "text", text: `Failed to get routes: ${error.message}` },
-                    ],
-                };
+                return errorResult(error, "Failed to get token allowance multicall", {});
             }
         }
     );
 
-    server.tool(
-        "status",
-        "Get the status of a cross-chain or swap transaction",
+    // check-route-approval tool: does a quote need an ERC-20 approval first
+    server.registerTool(
+        "check-route-approval",
         {
-            txHash: z.string().describe("Transaction hash"),
-            bridge: z.string().optional().describe("Bridge key (optional)"),
-            fromChain: z.number().optional().describe("Source chain ID (optional)"),
-            toChain: z.number().optional().describe("Target chain ID (optional)"),
+            description: "Check whether a quote or route needs an ERC-20 approval; the spender is taken from the quote's approvalAddress",
+            inputSchema: {
+                quote: stepSchema.optional().describe("Quote returned by the swap or bridge tool (optional)"),
+                routeId: z.string().optional().describe("Route ID returned by the routes tool (optional)"),
+                owner: z.string().optional().describe("Owner address, defaults to the quote's fromAddress (optional)"),
+            },
+            outputSchema: {
+                approval: routeApprovalSchema.optional().describe("Approval check result"),
+                error: toolErrorSchema.optional().describe("Error"),
+            },
         },
-        async ({ txHash, bridge, fromChain, toChain }) => {
+        async ({ quote, routeId, owner }) => {
             try {
-                const data = await getStatus({
-                    txHash,
-                    bridge,
-                    fromChain,
-                    toChain,
-                });
-                return {
-                    content: [
-                        { type: "text", text: safeStringify(data) },
-                    ],
-                };
+                const step = findStep({ quote, routeId });
+                const [chain] = await resolveStepChains(step);
+                assertEvmChain(chain);
+                const approval = await checkRouteApproval(step, rpcPool.getPublicClient(chain.id), owner);
+                return structuredResult({ approval }, approval.approvalNeeded
+                    ? `Approval needed: ${approval.spender} may spend ${approval.allowance?.formatted ?? "0"} of the required ${approval.required.formatted} ${approval.required.symbol}`
+                    : `No approval needed${approval.reason ? `: ${approval.reason}` : ""}`);
             } catch (error: any) {
-                return {
-                    content: [
-                        { type: "text", text: `Failed to get status: ${error.message}` },
-                    ],
-                };
+                return errorResult(error, "Failed to check route approval", {});
             }
         }
     );
 
-    // getGasPrice tool: get gas price for a specific chain
-    server.tool(
-        "gas-price",
-        "Get gas price for a specific chain",
+    // build-approve tool: unsigned ERC-20 approve transaction
+    server.registerTool(
+        "build-approve",
         {
-            chainId: z.number().describe("Chain ID"),
+            description: "Build an unsigned ERC-20 approve transaction for an exact amount or unlimited; amount 0 revokes",
+            inputSchema: {
+                chain: chainInputSchema.describe("Chain ID, key or name"),
+                token: z.string().describe("Token address or symbol"),
+                spender: z.string().describe("Spender address"),
+                owner: z.string().describe("Owner address sending the approval"),
+                amount: z.string().describe(`"unlimited" or the amount to approve. ${amountInputDescription}`),
+            },
+            outputSchema: {
+                token: z.string().optional().describe("Token address"),
+                spender: z.string().optional().describe("Spender address"),
+                amount: resolvedAmountSchema.optional().describe("Approved amount"),
+                unlimited: z.boolean().optional().describe("Whether the approval is unlimited"),
+                transaction: unsignedTransactionSchema.optional().describe("Unsigned approve transaction"),
+                error: toolErrorSchema.optional().describe("Error"),
+                candidates: candidateSchema.optional(),
+            },
         },
-        async ({ chainId }) => {
+        async ({ chain, token, spender, owner, amount }) => {
             try {
-                const url = `https://li.quest/v1/gas/prices/${chainId}`;
-                const res = await fetch(url, {
-                    headers: {
-                        "x-lifi-sdk-integrator": lifiIntegrator,
-                        "x-api-key": process.env.LIFIPRO_API_KEY || "",
-                    },
+                const resolvedChain = await resolver.resolveChain(chain);
+                assertEvmChain(resolvedChain);
+                const resolvedToken = await resolver.resolveToken(resolvedChain.id, token);
+                const unlimited = amount.trim().toLowerCase() === "unlimited";
+                const raw = approvalAmount(unlimited ? "unlimited" : BigInt(resolver.resolveAmount(amount, resolvedToken).raw));
+                const transaction = await buildApproveTransaction({
+                    client: rpcPool.getPublicClient(resolvedChain.id),
+                    token: resolvedToken.address,
+                    spender,
+                    amount: raw,
+                    from: owner as `0x${string}`,
                 });
-                if (!res.ok) throw new Error(`HTTP ${res.status}: ${await res.text()}`);
-                const data = await res.json();
-                return {
-                    content: [
-                        { type: "text", text: safeStringify(data) },
-                    ],
-                };
+                const approved = formatAmount(raw, resolvedToken);
+                return structuredResult({
+                    token: resolvedToken.address,
+                    spender,
+                    amount: approved,
+                    unlimited,
+                    transaction,
+                }, `Unsigned approve of ${unlimited ? "unlimited" : approved.formatted} ${approved.symbol} for ${spender} on chain ${resolvedChain.id}`);
             } catch (error: any) {
-                return {
-                    content: [
-                        { type: "text", text: `Failed to get gas price: ${error.message}` },
-                    ],
-                };
+                return errorResult(error, "Failed to build approve transaction", {
+                    candidates: error instanceof AmbiguousTokenError ? summarizeCandidates(error) : undefined,
+                });
             }
         }
     );
 
-    // getGasPrices tool: get gas prices for all supported chains
-    server.tool(
-        "gas-prices",
-        "Get gas prices for all supported chains",
-        {},
-        async () => {
+    // scan-allowances tool: allowances granted to LI.FI / bridge spenders, with revoke transactions
+    server.registerTool(
+        "scan-allowances",
+        {
+            description: "List non-zero ERC-20 allowances a wallet granted on a chain to the LI.FI Diamond and the spenders of quotes and routes handed out, with revoke transactions",
+            inputSchema: {
+                owner: z.string().describe("Wallet address"),
+                chain: chainInputSchema.describe("Chain ID, key or name"),
+                tokens: z.array(z.string()).optional().describe(`Token addresses or symbols to check, defaults to the chain's first ${config.allowanceScanLimit} verified tokens (optional)`),
+                spenders: z.array(z.string()).optional().describe("Additional spender addresses to check (optional)"),
+            },
+            outputSchema: {
+                chainId: z.number().optional().describe("Chain ID"),
+                checkedTokens: z.number().optional().describe("Number of tokens checked"),
+                uncheckedTokens: z.number().optional().describe("Verified tokens left out of a scan without a token list, pass tokens to check them"),
+                allowances: z.array(grantedAllowanceSchema.extend({
+                    revoke: unsignedTransactionSchema.optional().describe("Unsigned transaction setting the allowance to 0"),
+                })).optional().describe("Non-zero allowances"),
+                error: toolErrorSchema.optional().describe("Error"),
+            },
+        },
+        async ({ owner, chain, tokens, spenders }, extra) => {
             try {
-                const url = `https://li.quest/v1/gas/prices`;
-                const res = await fetch(url, {
-                    headers: {
-                        "x-lifi-sdk-integrator": lifiIntegrator,
-                        "x-api-key": process.env.LIFIPRO_API_KEY || "",
-                    },
+                const resolvedChain = await resolver.resolveChain(chain);
+                assertEvmChain(resolvedChain);
+                const verified = tokens ? [] : (await getCachedChainTokens(resolvedChain.id, extra.sessionId)).filter((token) => token.coinKey);
+                const tokenList = tokens
+                    ? await Promise.all(tokens.map((token) => resolver.resolveToken(resolvedChain.id, token)))
+                    : verified.slice(0, config.allowanceScanLimit);
+                const uncheckedTokens = verified.length - tokenList.length;
+                const knownSpenders = getKnownSpenders(resolvedChain.id, [
+                    ...quotedSpenders.get(resolvedChain.id),
+                    ...spenders?.map((address) => ({ address, name: "Custom spender" })) ?? [],
+                ]);
+                const granted = await scanAllowances(rpcPool.getPublicClient, owner, tokenList, knownSpenders);
+                const allowances = await Promise.all(granted.map(async (allowance) => ({
+                    ...allowance,
+                    revoke: await buildApproveTransaction({
+                        client: rpcPool.getPublicClient(resolvedChain.id),
+                        token: allowance.token,
+                        spender: allowance.spender,
+                        amount: 0n,
+                        from: owner as `0x${string}`,
+                    }).catch(() => undefined),
+                })));
+                const lines = allowances.map((allowance) => `${allowance.unlimited ? "unlimited" : allowance.allowance.formatted} ${allowance.symbol} for ${allowance.spenderName}`);
+                return structuredResult({
+                    chainId: resolvedChain.id,
+                    checkedTokens: tokenList.length,
+                    uncheckedTokens: uncheckedTokens > 0 ? uncheckedTokens : undefined,
+                    allowances,
+                }, `${allowances.length} non-zero allowances among ${tokenList.length} tokens on chain ${resolvedChain.id}${lines.length ? `: ${lines.join(", ")}` : ""}${uncheckedTokens > 0 ? ` (${uncheckedTokens} more verified tokens not checked, pass tokens to check them)` : ""}`);
+            } catch (error: any) {
+                return errorResult(error, "Failed to scan allowances", {});
+            }
+        }
+    );
+
+    // getRoutes tool: get all available routes for a token transfer
+    server.registerTool(
+        "routes",
+        {
+            description: "Get all available routes for a token transfer",
+            inputSchema: {
+                fromChainId: chainInputSchema.describe("Source chain ID, key or name"),
+                toChainId: chainInputSchema.describe("Target chain ID, key or name"),
+                fromTokenAddress: z.string().describe("Source token address or symbol"),
+                toTokenAddress: z.string().describe("Target token address or symbol"),
+                fromAmount: z.string().describe(amountInputDescription),
+                fromAddress: z.string().optional().describe("User wallet address (optional)"),
+                toAddress: z.string().optional().describe("Recipient on the target chain, required when the chains are of different types, e.g. EVM to Solana (optional)"),
+                ...routeFilterShape,
+            },
+            outputSchema: {
+                resolved: resolvedInputSchema.optional().describe("Resolved chains, tokens and raw amount"),
+                integratorFee: integratorFeeSchema.optional().describe("Integrator fee every route takes from the sent amount, when one is configured"),
+                routes: z.array(routeSchema).optional().describe("Available routes"),
+                unavailableRoutes: unavailableRoutesSchema.optional().describe("Paths that were filtered out or failed"),
+                error: toolErrorSchema.optional().describe("Error"),
+                candidates: candidateSchema.optional(),
+            },
+        },
+        async ({ fromChainId, toChainId, fromTokenAddress, toTokenAddress, fromAmount, fromAddress, toAddress, ...filters }, extra) => {
+            try {
+                const resolved = await resolver.resolveTransfer({
+                    fromChain: fromChainId,
+                    toChain: toChainId,
+                    fromToken: fromTokenAddress,
+                    toToken: toTokenAddress,
+                    amount: fromAmount,
+                    fromAddress,
+                    toAddress,
                 });
-                if (!res.ok) throw new Error(`HTTP ${res.status}: ${await res.text()}`);
-                const data = await res.json();
-                return {
-                    content: [
-                        { type: "text", text: safeStringify(data) },
-                    ],
+                const params: any = {
+                    fromChainId: resolved.fromChain.id,
+                    toChainId: resolved.toChain.id,
+                    fromTokenAddress: resolved.fromToken.address,
+                    toTokenAddress: resolved.toToken.address,
+                    fromAmount: resolved.amount.raw,
+                    options: routeOptions(config, filters, extra.authInfo?.clientId),
                 };
+                if (fromAddress) params.fromAddress = fromAddress;
+                if (toAddress) params.toAddress = toAddress;
+                const data = await callLifi(extra.sessionId, getRoutes, params);
+                // Keep routes around so build-transaction can look them up by id
+                for (const route of data.routes) {
+                    _cache.set(`route-${route.id}`, route, routeCacheTTL);
+                    route.steps.forEach(quotedSpenders.recordStep);
+                }
+                const integratorFee = summarizeIntegratorFee(feeSettings(config, extra.authInfo?.clientId), resolved.amount.raw, resolved.fromToken);
+                return structuredResult({
+                    resolved: summarizeResolvedTransfer(resolved),
+                    integratorFee,
+                    routes: data.routes,
+                    unavailableRoutes: data.unavailableRoutes,
+                }, `${data.routes.length} routes${data.routes.length ? `:\n${data.routes.map(describeRoute).join("\n")}` : ""}${integratorFee ? `\n${describeIntegratorFee(integratorFee)}` : ""}`);
             } catch (error: any) {
-                return {
-                    content: [
-                        { type: "text", text: `Failed to get gas prices: ${error.message}` },
-                    ],
-                };
+                return errorResult(error, "Failed to get routes", {
+                    candidates: error instanceof AmbiguousTokenError ? summarizeCandidates(error) : undefined,
+                });
             }
         }
     );
-}
-
-app.post("/mcp", async (req, res) => {
-    // Check for existing session ID
-    const sessionId = req.headers['mcp-session-id'] as string | undefined;
-    let transport: StreamableHTTPServerTransport;
 
-    if (sessionId && transports.streamable[sessionId]) {
-        // Reuse existing transport
-        transport = transports.streamable[sessionId];
-    } else if (!sessionId && isInitializeRequest(req.body)) {
-        // New initialization request
-        transport = new StreamableHTTPServerTransport({
-            sessionIdGenerator: () => randomUUID(),
-            onsessioninitialized: (sessionId) => {
-                // Store the transport by session ID
-                transports.streamable[sessionId] = transport;
+    // best-quote tool: fan out to every enabled quote provider
+    server.registerTool(
+        "best-quote",
+        {
+            description: `Get quotes from all enabled providers (${quoteProviders.map((provider) => provider.name).join(", ")}) normalized to one schema, best output first`,
+            inputSchema: {
+                fromChain: chainInputSchema.describe("Source chain ID, key or name"),
+                toChain: chainInputSchema.describe("Target chain ID, key or name"),
+                fromToken: z.string().describe("Source token address or symbol"),
+                toToken: z.string().describe("Target token address or symbol"),
+                fromAmount: z.string().describe(amountInputDescription),
+                fromAddress: z.string().describe("User wallet address"),
+                toAddress: z.string().optional().describe("Recipient on the target chain, required when the chains are of different types, e.g. EVM to Solana (optional)"),
+                slippage: slippageInputSchema.optional().describe("Allowed slippage as decimal, e.g. 0.005 for 0.5% (optional)"),
+            },
+            outputSchema: {
+                resolved: resolvedInputSchema.optional().describe("Resolved chains, tokens and raw amount"),
+                best: normalizedQuoteSchema.optional().describe("Quote with the highest output"),
+                quotes: z.array(normalizedQuoteSchema).optional().describe("All quotes, best first"),
+                providerErrors: z.array(z.object({
+                    provider: z.string().describe("Quote provider"),
+                    error: z.string().describe("Error message"),
+                })).optional().describe("Providers that failed to quote"),
+                error: toolErrorSchema.optional().describe("Error"),
+                candidates: candidateSchema.optional(),
+            },
+        },
+        async ({ fromChain, toChain, fromToken, toToken, fromAmount, fromAddress, toAddress, slippage }, extra) => {
+            try {
+                const resolved = await resolver.resolveTransfer({ fromChain, toChain, fromToken, toToken, amount: fromAmount, fromAddress, toAddress });
+                const { quotes, errors } = await getBestQuotes(quoteProviders, {
+                    fromChain: resolved.fromChain.id,
+                    toChain: resolved.toChain.id,
+                    fromToken: resolved.fromToken,
+                    toToken: resolved.toToken,
+                    fromAmount: resolved.amount.raw,
+                    fromAddress,
+                    toAddress,
+                    slippage: slippage ?? config.defaultSlippage,
+                }, { sessionId: extra.sessionId, clientId: extra.authInfo?.clientId, fee: feeSettings(config, extra.authInfo?.clientId).fee });
+                if (quotes.length === 0) {
+                    return errorResult(noRouteError(`No provider returned a quote: ${errors.map((error) => `${error.provider}: ${error.error}`).join("; ")}`), "Failed to get best quote", {
+                        resolved: summarizeResolvedTransfer(resolved),
+                        providerErrors: errors,
+                    });
+                }
+                for (const quote of quotes) {
+                    quotedSpenders.record(quote.fromChain, quote.approvalAddress, `${quote.provider} ${quote.tool} spender`);
+                }
+                const best = quotes[0];
+                return structuredResult({
+                    resolved: summarizeResolvedTransfer(resolved),
+                    best,
+                    quotes,
+                    providerErrors: errors,
+                }, `Best of ${quotes.length} quotes: ${best.toAmount.formatted} ${best.toAmount.symbol} from ${best.provider} via ${best.tool}${errors.length ? `, ${errors.length} providers failed` : ""}`);
+            } catch (error: any) {
+                return errorResult(error, "Failed to get best quote", {
+                    candidates: error instanceof AmbiguousTokenError ? summarizeCandidates(error) : undefined,
+                });
             }
-        });
+        }
+    );
 
-        // Clean up transport when closed
-        transport.onclose = () => {
-            if (transport.sessionId) {
-                delete transports.streamable[transport.sessionId];
+    // compare-routes tool: rank routes in a compact table
+    server.registerTool(
+        "compare-routes",
+        {
+            description: "Compare available routes for a token transfer, ranked by net received value, speed or number of hops",
+            inputSchema: {
+                fromChain: chainInputSchema.describe("Source chain ID, key or name"),
+                toChain: chainInputSchema.describe("Target chain ID, key or name"),
+                fromToken: z.string().describe("Source token address or symbol"),
+                toToken: z.string().describe("Target token address or symbol"),
+                fromAmount: z.string().describe(amountInputDescription),
+                fromAddress: z.string().optional().describe("User wallet address (optional)"),
+                toAddress: z.string().optional().describe("Recipient on the target chain, required when the chains are of different types, e.g. EVM to Solana (optional)"),
+                strategy: z.enum(rankStrategies).optional().describe("Ranking: cheapest (highest USD value after gas and fees), fastest, or safest (fewest hops); defaults to cheapest (optional)"),
+                limit: z.number().int().min(1).optional().describe("Maximum number of routes to return (optional)"),
+                ...routeFilterShape,
+            },
+            outputSchema: {
+                resolved: resolvedInputSchema.optional().describe("Resolved chains, tokens and raw amount"),
+                strategy: z.enum(rankStrategies).optional().describe("Ranking strategy used"),
+                routes: z.array(routeSummarySchema).optional().describe("Ranked routes"),
+                unavailable: z.number().optional().describe("Number of filtered out or failed paths"),
+                error: toolErrorSchema.optional().describe("Error"),
+                candidates: candidateSchema.optional(),
+            },
+        },
+        async ({ fromChain, toChain, fromToken, toToken, fromAmount, fromAddress, toAddress, strategy, limit, ...filters }, extra) => {
+            try {
+                const resolved = await resolver.resolveTransfer({ fromChain, toChain, fromToken, toToken, amount: fromAmount, fromAddress, toAddress });
+                const data = await callLifi(extra.sessionId, getRoutes, {
+                    fromChainId: resolved.fromChain.id,
+                    toChainId: resolved.toChain.id,
+                    fromTokenAddress: resolved.fromToken.address,
+                    toTokenAddress: resolved.toToken.address,
+                    fromAmount: resolved.amount.raw,
+                    fromAddress,
+                    toAddress,
+                    options: routeOptions(config, filters, extra.authInfo?.clientId),
+                });
+                for (const route of data.routes) {
+                    _cache.set(`route-${route.id}`, route, routeCacheTTL);
+                    route.steps.forEach(quotedSpenders.recordStep);
+                }
+                if (data.routes.length === 0) {
+                    throw noRouteError("No routes available for this transfer", data.unavailableRoutes);
+                }
+                const ranked = compareRoutes(data.routes, strategy ?? "cheapest");
+                const routes = limit ? ranked.slice(0, limit) : ranked;
+                const lines = routes.map((route) => `#${route.rank} ${route.id}: ${route.toAmount.formatted} ${route.toAmount.symbol}, net $${route.netValueUSD.toFixed(2)}, ~${route.durationSeconds}s via ${[...route.bridges, ...route.exchanges].join(" + ")}`);
+                return structuredResult({
+                    resolved: summarizeResolvedTransfer(resolved),
+                    strategy: strategy ?? "cheapest",
+                    routes,
+                    unavailable: data.unavailableRoutes.filteredOut.length + data.unavailableRoutes.failed.length,
+                }, `${routes.length} routes ranked by ${strategy ?? "cheapest"}:\n${lines.join("\n")}`);
+            } catch (error: any) {
+                return errorResult(error, "Failed to compare routes", {
+                    candidates: error instanceof AmbiguousTokenError ? summarizeCandidates(error) : undefined,
+                });
             }
-        };
+        }
+    );
 
-        // Create MCP server instance
-        const server = new McpServer({
-            name: "helixbox-mcp",
-            version: "0.0.1",
-            capabilities: {
-                resources: {},
-                tools: {},
+    // build-transaction tool: turn a quote or a route step into an unsigned transaction
+    server.registerTool(
+        "build-transaction",
+        {
+            description: "Build an unsigned EIP-1559 transaction (and any ERC-20 approval needed first) from a quote or a route id",
+            inputSchema: {
+                quote: stepSchema.optional().describe("Quote returned by the swap or bridge tool (optional)"),
+                routeId: z.string().optional().describe("Route ID returned by the routes tool (optional)"),
+                stepIndex: z.number().optional().describe("Index of the route step to build, defaults to 0 (optional)"),
             },
-        });
+            outputSchema: builtTransactionSchema,
+        },
+        async ({ quote, routeId, stepIndex }, extra) => {
+            try {
+                const step = findStep({ quote, routeId, stepIndex });
+                const [chain] = await resolveStepChains(step);
+                assertEvmChain(chain);
+                const built = await buildTransaction(step, rpcPool.getPublicClient(chain.id), fetchStepTransaction(extra.sessionId));
+                return structuredResult(built, `Unsigned transaction for step ${built.step.id} (${built.step.tool}) on chain ${built.transaction.chainId}${built.approval ? ", send the approval first" : ""}`);
+            } catch (error: any) {
+                return errorResult(error, "Failed to build transaction", {});
+            }
+        }
+    );
 
-        registerAllTools(server);
+    // simulate-quote tool: run a quote's transaction before signing it
+    server.registerTool(
+        "simulate-quote",
+        {
+            description: "Simulate the transaction of a quote or route step with eth_call / eth_estimateGas, reporting the revert reason, gas used and, on a forked chain, the sender's balance changes",
+            inputSchema: {
+                quote: stepSchema.optional().describe("Quote returned by the swap or bridge tool (optional)"),
+                routeId: z.string().optional().describe("Route ID returned by the routes tool (optional)"),
+                stepIndex: z.number().optional().describe("Index of the route step to simulate, defaults to 0 (optional)"),
+            },
+            outputSchema: {
+                simulation: simulationSchema.optional().describe("Simulation result"),
+                error: toolErrorSchema.optional().describe("Error"),
+            },
+        },
+        async ({ quote, routeId, stepIndex }, extra) => {
+            try {
+                const step = findStep({ quote, routeId, stepIndex });
+                const [chain] = await resolveStepChains(step);
+                assertEvmChain(chain);
+                const simulation = await simulateStep(step, chain, getSimulationClient(chain.id), fetchStepTransaction(extra.sessionId));
+                return structuredResult({ simulation }, describeSimulation(simulation));
+            } catch (error: any) {
+                return errorResult(error, "Failed to simulate quote", {});
+            }
+        }
+    );
 
-        await server.connect(transport);
-    } else {
-        // Invalid request
-        res.status(400).json({
-            jsonrpc: '2.0',
-            error: {
-                code: -32000,
-                message: 'Bad Request: No valid session ID provided',
-            },
-            id: null,
-        });
-        return;
+    // execute-route tool: sign and execute a route with the configured signer
+    if (signer) {
+        server.registerTool(
+            "execute-route",
+            {
+                description: `Execute a route or quote end to end with the configured ${signer.type} signer (${signer.account.address}), reporting step progress`,
+                inputSchema: {
+                    quote: stepSchema.optional().describe("Quote returned by the swap or bridge tool (optional)"),
+                    routeId: z.string().optional().describe("Route ID returned by the routes tool (optional)"),
+                },
+                outputSchema: {
+                    route: executionSummarySchema.optional().describe("Execution result"),
+                    error: toolErrorSchema.optional().describe("Error"),
+                },
+            },
+            async ({ quote, routeId }, extra) => {
+                try {
+                    let route: Route | undefined;
+                    if (routeId) {
+                        route = _cache.get<Route>(`route-${routeId}`);
+                        if (!route) {
+                            throw new ToolError("invalid_input", `Route ${routeId} not found or expired, request routes again`);
+                        }
+                    } else if (quote) {
+                        route = convertQuoteToRoute(quote as LiFiStep);
+                    } else {
+                        throw new ToolError("invalid_input", "Either a quote or a routeId is required");
+                    }
+                    await Promise.all(route.steps.map(resolveStepChains));
+                    if (route.fromAddress && route.fromAddress.toLowerCase() !== signer.account.address.toLowerCase()) {
+                        throw new ToolError("invalid_input", `Route was quoted for ${route.fromAddress}, but the signer is ${signer.account.address}`);
+                    }
+                    logger.info("execute-route requested", { routeId: route.id, clientId: extra.authInfo?.clientId, sessionId: extra.sessionId });
+                    const progressToken = extra._meta?.progressToken;
+                    const executed = await executeRouteWithUpdates(route, (updated) => {
+                        if (progressToken === undefined) return;
+                        const summary = summarizeExecution(updated);
+                        const current = summary.steps.find((step) => step.status !== "DONE");
+                        const process = current?.processes[current.processes.length - 1];
+                        extra.sendNotification({
+                            method: "notifications/progress",
+                            params: {
+                                progressToken,
+                                progress: countFinishedSteps(updated),
+                                total: updated.steps.length,
+                                message: process ? `${current.tool}: ${process.type} ${process.status}` : undefined,
+                            },
+                        }).catch(() => {});
+                    }, extra.signal);
+                    const summary = summarizeExecution(executed);
+                    const txLinks = summary.steps.flatMap((step) => step.processes.map((process) => process.txLink).filter(Boolean));
+                    return structuredResult({ route: summary }, `Route ${summary.id} ${summary.status}${txLinks.length ? `: ${txLinks.join(", ")}` : ""}`);
+                } catch (error: any) {
+                    return errorResult(error, "Failed to execute route", {});
+                }
+            }
+        );
     }
 
-    // Handle the request
-    await transport.handleRequest(req, res, req.body);
-});
+    server.registerTool(
+        "status",
+        {
+            description: "Get the status of a cross-chain or swap transaction",
+            inputSchema: {
+                txHash: z.string().describe("Transaction hash"),
+                bridge: z.string().optional().describe("Bridge key (optional)"),
+                fromChain: z.number().optional().describe("Source chain ID (optional)"),
+                toChain: z.number().optional().describe("Target chain ID (optional)"),
+            },
+            outputSchema: {
+                status: statusSchema.optional().describe("Transfer status"),
+                error: toolErrorSchema.optional().describe("Error"),
+            },
+        },
+        async ({ txHash, bridge, fromChain, toChain }, extra) => {
+            try {
+                const data = await callLifi(extra.sessionId, getStatus, {
+                    txHash,
+                    bridge,
+                    fromChain: await resolver.resolveChainId(fromChain),
+                    toChain: await resolver.resolveChainId(toChain),
+                });
+                const substatus = data.substatus ? ` (${data.substatus})` : "";
+                const explorer = "lifiExplorerLink" in data ? `, ${data.lifiExplorerLink}` : "";
+                return structuredResult({ status: data }, `${txHash}: ${data.status}${substatus}${explorer}`);
+            } catch (error: any) {
+                return errorResult(error, "Failed to get status", {});
+            }
+        }
+    );
 
-// Reusable handler for GET and DELETE requests
-const handleSessionRequest = async (req: express.Request, res: express.Response) => {
-    const sessionId = req.headers['mcp-session-id'] as string | undefined;
-    if (!sessionId || !transports.streamable[sessionId]) {
-        res.status(400).send('Invalid or missing session ID');
-        return;
-    }
+    // chains resources: supported chains
+    server.resource(
+        "chains",
+        "chains://all",
+        { description: "All supported chains", mimeType: "application/json" },
+        async (uri) => jsonContents(uri, await getAllowedChains())
+    );
 
-    const transport = transports.streamable[sessionId];
-    await transport.handleRequest(req, res);
-};
+    server.resource(
+        "chain",
+        new ResourceTemplate("chains://{chainId}", {
+            list: async () => ({
+                resources: (await getAllowedChains()).map((chain) => ({
+                    uri: `chains://${chain.id}`,
+                    name: chain.name,
+                    mimeType: "application/json",
+                })),
+            }),
+        }),
+        { description: "A supported chain by chain ID", mimeType: "application/json" },
+        async (uri, { chainId }) => {
+            const chain = (await getAllowedChains()).find((chain) => chain.id == Number(chainId));
+            if (!chain) {
+                throw new ToolError("unsupported_chain", `Unsupported chain ${chainId}`);
+            }
+            return jsonContents(uri, chain);
+        }
+    );
 
-// Handle GET requests for server-to-client notifications via SSE
-app.get('/mcp', handleSessionRequest);
+    // tokens resources: supported tokens per chain and single token info
+    server.resource(
+        "chain-tokens",
+        new ResourceTemplate("tokens://{chainId}", {
+            list: async () => ({
+                resources: (await getAllowedChains()).map((chain) => ({
+                    uri: `tokens://${chain.id}`,
+                    name: `${chain.name} tokens`,
+                    mimeType: "application/json",
+                })),
+            }),
+        }),
+        { description: "All supported tokens on a chain", mimeType: "application/json" },
+        async (uri, { chainId }) => jsonContents(uri, await getCachedChainTokens((await resolver.resolveChain(Number(chainId))).id))
+    );
 
-// Handle DELETE requests for session termination
-app.delete('/mcp', handleSessionRequest);
+    server.resource(
+        "token",
+        new ResourceTemplate("tokens://{chainId}/{address}", { list: undefined }),
+        { description: "Token info by chain ID and token address or symbol", mimeType: "application/json" },
+        async (uri, { chainId, address }) => jsonContents(uri, await getCachedToken((await resolver.resolveChain(Number(chainId))).id, address as string))
+    );
 
-// SSE compatible endpoint
-app.get('/sse', async (req, res) => {
-    // Create SSE transport
-    const transport = new SSEServerTransport('/messages', res);
-    transports.sse[transport.sessionId] = transport;
+    // tools resources: supported bridges and exchanges
+    server.resource(
+        "bridges",
+        "tools://bridges",
+        { description: "Supported bridges", mimeType: "application/json" },
+        async (uri) => jsonContents(uri, (await getCachedTools()).bridges)
+    );
 
-    res.on("close", () => {
-        delete transports.sse[transport.sessionId];
-    });
+    server.resource(
+        "exchanges",
+        "tools://exchanges",
+        { description: "Supported exchanges", mimeType: "application/json" },
+        async (uri) => jsonContents(uri, (await getCachedTools()).exchanges)
+    );
+
+    // transfers resource: current state of a tracked transfer
+    server.resource(
+        "transfer",
+        new ResourceTemplate("transfers://{txHash}", {
+            list: async (extra) => ({
+                resources: tracker.list({ clientId: extra.authInfo?.clientId }).map((transfer) => ({
+                    uri: `transfers://${transfer.txHash}`,
+                    name: transfer.label || transfer.txHash,
+                    mimeType: "application/json",
+                })),
+            }),
+        }),
+        { description: "Tracked transfer status", mimeType: "application/json" },
+        async (uri, { txHash }, extra) => {
+            const transfer = tracker.get(txHash as string, extra.authInfo?.clientId);
+            if (!transfer) {
+                throw new ToolError("invalid_input", `Transfer ${txHash} is not tracked`);
+            }
+            return jsonContents(uri, transfer);
+        }
+    );
+
+    // track-transfer tool: start tracking a submitted transaction
+    server.registerTool(
+        "track-transfer",
+        {
+            description: "Track a submitted swap or bridge transaction; status is polled in the background and changes are pushed to clients subscribed to transfers://{txHash}",
+            inputSchema: {
+                txHash: z.string().describe("Transaction hash"),
+                fromChain: z.number().optional().describe("Source chain ID (optional)"),
+                toChain: z.number().optional().describe("Target chain ID (optional)"),
+                bridge: z.string().optional().describe("Bridge key (optional)"),
+                label: z.string().optional().describe("Free-form label (optional)"),
+            },
+            outputSchema: {
+                transfer: transferSchema.optional().describe("Tracked transfer"),
+                error: toolErrorSchema.optional().describe("Error"),
+            },
+        },
+        async ({ txHash, fromChain, toChain, bridge, label }, extra) => {
+            try {
+                const transfer = await tracker.track({
+                    txHash,
+                    fromChain: await resolver.resolveChainId(fromChain),
+                    toChain: await resolver.resolveChainId(toChain),
+                    bridge,
+                    label,
+                    clientId: extra.authInfo?.clientId,
+                });
+                return structuredResult({ transfer }, `Tracking ${describeTransfer(transfer)}`);
+            } catch (error: any) {
+                return errorResult(error, "Failed to track transfer", {});
+            }
+        }
+    );
+
+    // list-transfers tool: list tracked transfers
+    server.registerTool(
+        "list-transfers",
+        {
+            description: "List tracked transfers, newest first",
+            inputSchema: {
+                status: z.string().optional().describe("Filter by status, e.g. PENDING (optional)"),
+                pendingOnly: z.boolean().optional().describe("Only transfers that are not DONE or FAILED (optional)"),
+            },
+            outputSchema: {
+                transfers: z.array(transferSchema).describe("Tracked transfers"),
+            },
+        },
+        async ({ status, pendingOnly }, extra) => {
+            const transfers = tracker.list({ clientId: extra.authInfo?.clientId, status, pendingOnly });
+            const summary = transfers.length > 0 ? transfers.map(describeTransfer).join("\n") : "No tracked transfers";
+            return structuredResult({ transfers }, summary);
+        }
+    );
+
+    // get-transfer tool: get a tracked transfer
+    server.registerTool(
+        "get-transfer",
+        {
+            description: "Get the current state of a tracked transfer",
+            inputSchema: {
+                txHash: z.string().describe("Transaction hash"),
+            },
+            outputSchema: {
+                transfer: transferSchema.optional().describe("Tracked transfer"),
+                error: toolErrorSchema.optional().describe("Error"),
+            },
+        },
+        async ({ txHash }, extra) => {
+            const transfer = tracker.get(txHash, extra.authInfo?.clientId);
+            if (!transfer) {
+                return errorResult(new ToolError("invalid_input", `Transfer ${txHash} is not tracked, call track-transfer first`), "Failed to get transfer", {});
+            }
+            return structuredResult({ transfer }, describeTransfer(transfer));
+        }
+    );
+
+    // fee-report tool: integrator fees collected for this deployment
+    server.registerTool(
+        "fee-report",
+        {
+            description: "Report the integrator fees collected by LI.FI for this deployment's integrator, per chain and token, with USD values",
+            inputSchema: {
+                chains: z.array(chainInputSchema).optional().describe("Chain IDs, keys or names, defaults to all chains (optional)"),
+            },
+            outputSchema: {
+                integrator: z.string().optional().describe("Integrator ID the fees are collected for"),
+                balances: z.array(feeBalanceSchema).optional().describe("Collected fees per chain, largest first"),
+                totalUSD: z.number().optional().describe("Collected fees across chains in USD"),
+                error: toolErrorSchema.optional().describe("Error"),
+            },
+        },
+        async ({ chains }, extra) => {
+            try {
+                const chainIds = await resolver.resolveChainIds(chains);
+                const url = `${config.lifi.apiUrl}/integrators/${encodeURIComponent(config.lifi.integrator)}`;
+                const integrator: Integrator = await upstream.fetchJson(url, { headers: lifiHeaders() }, { sessionId: extra.sessionId });
+                const balances = summarizeFeeBalances(integrator, chainIds);
+                const totalUSD = balances.reduce((total, balance) => total + balance.totalUSD, 0);
+                const lines = balances.map((balance) => `Chain ${balance.chainId}: $${balance.totalUSD.toFixed(2)} (${balance.tokens.map((token) => `${token.amount.formatted} ${token.amount.symbol}`).join(", ")})`);
+                return structuredResult({
+                    integrator: integrator.integratorId,
+                    balances,
+                    totalUSD,
+                }, `Integrator ${integrator.integratorId} collected $${totalUSD.toFixed(2)}${lines.length ? `:\n${lines.join("\n")}` : ""}`);
+            } catch (error: any) {
+                return errorResult(error, "Failed to get fee report", {});
+            }
+        }
+    );
+
+    // getGasPrice tool: get gas price for a specific chain
+    server.registerTool(
+        "gas-price",
+        {
+            description: "Get gas price for a specific chain",
+            inputSchema: {
+                chainId: z.number().describe("Chain ID"),
+            },
+            outputSchema: {
+                gasPrice: gasPriceSchema.optional().describe("Gas prices in wei"),
+                error: toolErrorSchema.optional().describe("Error"),
+            },
+        },
+        async ({ chainId: input }, extra) => {
+            try {
+                const chainId = (await resolver.resolveChain(input)).id;
+                const url = `${config.lifi.apiUrl}/gas/prices/${chainId}`;
+                const gasPrice = await referenceCache.get<z.infer<typeof gasPriceSchema>>("gas-prices", chainId, () => upstream.fetchJson(url, { headers: lifiHeaders() }, { sessionId: extra.sessionId }));
+                return structuredResult({ gasPrice }, `Chain ${chainId}: ${describeGasPrice(gasPrice)}`);
+            } catch (error: any) {
+                return errorResult(error, "Failed to get gas price", {});
+            }
+        }
+    );
+
+    // getGasPrices tool: get gas prices for all supported chains
+    server.registerTool(
+        "gas-prices",
+        {
+            description: "Get gas prices for all supported chains",
+            outputSchema: {
+                gasPrices: z.record(gasPriceSchema).optional().describe("Gas prices in wei by chain ID"),
+                error: toolErrorSchema.optional().describe("Error"),
+            },
+        },
+        async (extra) => {
+            try {
+                const url = `${config.lifi.apiUrl}/gas/prices`;
+                const allGasPrices = await referenceCache.get<{ [chainId: string]: z.infer<typeof gasPriceSchema> }>("gas-prices", undefined, () => upstream.fetchJson(url, { headers: lifiHeaders() }, { sessionId: extra.sessionId }));
+                const allowed = new Set((await getAllowedChains()).map((chain) => chain.id.toString()));
+                const gasPrices = Object.fromEntries(Object.entries(allGasPrices).filter(([chainId]) => allowed.has(chainId)));
+                const summary = Object.entries(gasPrices).map(([chainId, gasPrice]) => `Chain ${chainId}: ${describeGasPrice(gasPrice)}`).join("\n");
+                return structuredResult({ gasPrices }, summary);
+            } catch (error: any) {
+                return errorResult(error, "Failed to get gas prices", {});
+            }
+        }
+    );
+}
 
-    // Reuse the same server instance
+// MCP server with every tool the client may use
+function createMcpServer(auth?: AuthInfo) {
     const server = new McpServer({
         name: "helixbox-mcp",
         version: "0.0.1",
+    }, {
         capabilities: {
-            resources: {},
+            resources: { subscribe: true },
             tools: {},
         },
     });
+    registerAllTools(server, auth);
+    return server;
+}
+
+// One-shot subcommands: call a single tool through an in-memory MCP client, print the result and return the exit code
+async function runToolCall({ name, arguments: args }: ToolCall) {
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await createMcpServer().connect(serverTransport);
+    const client = new Client({ name: "helixbox-mcp-cli", version: "0.0.1" });
+    await client.connect(clientTransport);
+    const result = await client.callTool({ name, arguments: args });
+    const content = result.content as { type: string, text?: string }[];
+    if (result.structuredContent) {
+        content.forEach((item) => item.text && console.error(item.text));
+        process.stdout.write(`${JSON.stringify(result.structuredContent, null, 2)}\n`);
+    } else {
+        content.forEach((item) => item.text && process.stdout.write(`${item.text}\n`));
+    }
+    await client.close();
+    return result.isError ? 1 : 0;
+}
+
+// JSON-RPC error for requests that cannot open a session
+function rejectSession(res: express.Response, message: string) {
+    res.status(503).json({
+        jsonrpc: '2.0',
+        error: {
+            code: -32000,
+            message: `Service Unavailable: ${message}`,
+        },
+        id: null,
+    });
+}
 
-    registerAllTools(server);
+// Restoring sessions by ID, so concurrent requests for the same session share one restore
+const restoring = new Map<string, Promise<void>>();
 
+// Take over a streamable session opened on another replica, or before a restart
+async function restoreSession(record: SessionRecord, auth?: AuthInfo) {
+    const server = createMcpServer(auth);
+    const transport = await restoreStreamableSession(server, record, sessionStore.eventStore(record.id));
+    sessions.add({ type: "streamable", transport, server, auth, createdAt: record.createdAt });
+    logger.info("Session restored from the session store", { sessionId: record.id });
+}
+
+// The streamable transport of a session, restored from the session store when this replica does not have it.
+// Ownership and admission errors are answered here; undefined without a response means there is no such session.
+async function findStreamableSession(sessionId: string, req: express.Request, res: express.Response) {
+    if (!sessions.get(sessionId)) {
+        const record = await sessionStore.getSession(sessionId);
+        if (record && record.clientId !== req.auth?.clientId) {
+            res.status(403).send('Session belongs to another client');
+            return undefined;
+        }
+        if (record) {
+            const admissionError = sessions.admissionError();
+            if (admissionError) {
+                rejectSession(res, admissionError);
+                return undefined;
+            }
+            let restore = restoring.get(sessionId);
+            if (!restore) {
+                restore = restoreSession(record, req.auth).finally(() => restoring.delete(sessionId));
+                restoring.set(sessionId, restore);
+            }
+            await restore;
+        }
+    }
+
+    const session = sessions.get(sessionId);
+    if (!(session?.transport instanceof StreamableHTTPServerTransport)) {
+        return undefined;
+    }
+    if (!sessions.belongsTo(sessionId, req.auth)) {
+        res.status(403).send('Session belongs to another client');
+        return undefined;
+    }
+    sessions.touch(sessionId);
+    sessionStore.touchSession(sessionId).catch((error) => logger.error("Failed to touch session", { sessionId, error }));
+    return session.transport;
+}
+
+// Streamable HTTP transport; the legacy SSE endpoints below are served with it and by --transport sse.
+// Streamable sessions can be served by any replica sharing the session store, SSE sessions need sticky routing.
+if (cli.transport === "http") {
+    app.post("/mcp", async (req, res) => {
+        // Check for existing session ID
+        const sessionId = req.headers['mcp-session-id'] as string | undefined;
+        let transport = sessionId ? await findStreamableSession(sessionId, req, res) : undefined;
+        if (res.headersSent) {
+            return;
+        }
+
+        if (!transport && !sessionId && isInitializeRequest(req.body)) {
+            const admissionError = sessions.admissionError();
+            if (admissionError) {
+                rejectSession(res, admissionError);
+                return;
+            }
+            // New initialization request
+            const { params } = req.body;
+            const newSessionId = randomUUID();
+            const server = createMcpServer(req.auth);
+            const newTransport = new StreamableHTTPServerTransport({
+                sessionIdGenerator: () => newSessionId,
+                eventStore: sessionStore.eventStore(newSessionId),
+                onsessioninitialized: () => {
+                    sessions.add({ type: "streamable", transport: newTransport, server, auth: req.auth });
+                    sessionStore.saveSession({
+                        id: newSessionId,
+                        clientId: req.auth?.clientId,
+                        protocolVersion: params.protocolVersion,
+                        clientInfo: params.clientInfo,
+                        clientCapabilities: params.capabilities,
+                        createdAt: Date.now(),
+                    }).catch((error) => logger.error("Failed to store session", { sessionId: newSessionId, error }));
+                }
+            });
+            await server.connect(newTransport);
+            transport = newTransport;
+        } else if (!transport) {
+            // Invalid request
+            res.status(400).json({
+                jsonrpc: '2.0',
+                error: {
+                    code: -32000,
+                    message: 'Bad Request: No valid session ID provided',
+                },
+                id: null,
+            });
+            return;
+        }
+
+        // Handle the request
+        await transport.handleRequest(req, res, req.body);
+    });
+
+    // Reusable handler for GET and DELETE requests
+    const handleSessionRequest = async (req: express.Request, res: express.Response) => {
+        const sessionId = req.headers['mcp-session-id'] as string | undefined;
+        const transport = sessionId ? await findStreamableSession(sessionId, req, res) : undefined;
+        if (res.headersSent) {
+            return;
+        }
+        if (!transport) {
+            res.status(400).send('Invalid or missing session ID');
+            return;
+        }
+
+        // A terminated session is removed for every replica
+        if (req.method === "DELETE") {
+            await sessionStore.deleteSession(sessionId!);
+        }
+        await transport.handleRequest(req, res);
+    };
+
+    // Handle GET requests for server-to-client notifications via SSE, resuming from Last-Event-ID when sent
+    app.get('/mcp', handleSessionRequest);
+
+    // Handle DELETE requests for session termination
+    app.delete('/mcp', handleSessionRequest);
+}
+
+// SSE compatible endpoint
+app.get('/sse', async (req, res) => {
+    const admissionError = sessions.admissionError();
+    if (admissionError) {
+        rejectSession(res, admissionError);
+        return;
+    }
+    // Create SSE transport
+    const transport = new SSEServerTransport('/messages', res);
+    const server = createMcpServer(req.auth);
     await server.connect(transport);
+    sessions.add({ type: "sse", transport, server, auth: req.auth });
 });
 
 // SSE message endpoint
 app.post('/messages', async (req, res) => {
-    const sessionId = req.query.sessionId as string;
-    const transport = transports.sse[sessionId];
-    if (transport) {
-        await transport.handlePostMessage(req, res, req.body);
-    } else {
+    const session = sessions.get(req.query.sessionId as string);
+    if (!(session?.transport instanceof SSEServerTransport)) {
         res.status(400).send('No transport found for sessionId');
+    } else if (!sessions.belongsTo(session.id, req.auth)) {
+        res.status(403).send('Session belongs to another client');
+    } else {
+        await session.transport.handlePostMessage(req, res, req.body);
+    }
+});
+
+// Liveness: the process is up and serving HTTP
+app.get('/healthz', (req, res) => {
+    res.json({ status: "ok" });
+});
+
+// Readiness: chain data is loaded and usable, and new sessions are admitted. A missing or expired chain list
+// is fetched again here, so that a replica that started without LI.FI recovers without traffic.
+app.get('/readyz', (req, res) => {
+    const chains = referenceCache.state("chains", undefined);
+    const chainsLoaded = chains === "fresh" || chains === "stale";
+    if (!chainsLoaded) {
+        getCachedChains().catch((error) => logger.warn("Failed to load chains for readiness", { error }));
+    }
+    const admissionError = sessions.admissionError();
+    const ready = chainsLoaded && !admissionError;
+    res.status(ready ? 200 : 503).json({ status: ready ? "ready" : "not ready", chains, sessions: admissionError ?? "accepting" });
+});
+
+app.get('/metrics', (req, res) => {
+    res.type(metricsContentType).send(metrics.render());
+});
+
+// Admin endpoints, for clients with the admin scope
+app.use("/admin", (req, res, next) => {
+    if (!hasScope(req.auth, "admin", scopeOptions)) {
+        res.status(403).send('Admin scope required');
+        return;
+    }
+    next();
+});
+
+app.get('/admin/sessions', (req, res) => {
+    res.json({ sessions: sessions.list() });
+});
+
+app.get('/admin/cache', (req, res) => {
+    res.json({ cache: referenceCache.stats() });
+});
+
+app.delete('/admin/sessions/:sessionId', async (req, res) => {
+    await sessionStore.deleteSession(req.params.sessionId);
+    if (await sessions.close(req.params.sessionId)) {
+        res.status(204).end();
+    } else {
+        res.status(404).send('Session not found');
     }
 });
 
-const port = process.env.LISTEN_PORT || 3888;
-app.listen(port, () => {
-    console.log(`Server is running on port ${port}`);
-});
\ No newline at end of file
+// Reload the config on SIGHUP; open sessions keep running and see the new policy on their next request.
+// An invalid file is logged and the running config kept. The port, auth and RPC settings need a restart.
+function reloadConfig() {
+    try {
+        config = loadConfig(configFile);
+    } catch (error: any) {
+        logger.error("Failed to reload config, keeping the current one", { error });
+        return;
+    }
+    sdkConfig.set({ apiUrl: config.lifi.apiUrl, integrator: config.lifi.integrator, apiKey: config.lifi.apiKey });
+    referenceCache.setPolicies(cachePolicies(config));
+    toolRefreshers.forEach((refresh) => refresh());
+    logger.info("Config reloaded", { file: configFile, openSessions: toolRefreshers.size });
+}
+
+if (cli.toolCall) {
+    process.exit(await runToolCall(cli.toolCall).catch((error) => {
+        console.error(error instanceof Error ? error.message : error);
+        return 1;
+    }));
+} else if (cli.transport === "stdio") {
+    await createMcpServer().connect(new StdioServerTransport());
+    process.on("SIGHUP", reloadConfig);
+} else {
+    const port = cli.port ?? config.port ?? 3888;
+    const httpServer = app.listen(port, () => {
+        logger.info("Server is running", { port, transport: cli.transport === "sse" ? "SSE" : "streamable HTTP and SSE" });
+    });
+    sessions.start();
+
+    // Stop accepting connections and sessions, give pending requests time to finish, then close everything.
+    // A second signal falls through to the default handler and exits right away.
+    const shutdown = async (signal: NodeJS.Signals) => {
+        logger.info("Draining sessions", { signal, openSessions: sessions.size });
+        httpServer.close();
+        const abandoned = await sessions.drain(Number(process.env.SHUTDOWN_TIMEOUT_MS) || 10_000);
+        if (abandoned > 0) {
+            logger.warn("Closed sessions with requests still pending", { pendingRequests: abandoned });
+        }
+        rpcPool.stop();
+        await tracker.stop();
+        await sessionStore.close();
+        await referenceCache.stop();
+        await tracer.stop();
+        process.exit(0);
+    };
+    process.once("SIGTERM", shutdown);
+    process.once("SIGINT", shutdown);
+    process.on("SIGHUP", reloadConfig);
+}
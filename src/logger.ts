@@ -0,0 +1,66 @@
+import { activeSpanContext } from "./tracing.js";
+
+export const logLevels = ["debug", "info", "warn", "error"] as const;
+export type LogLevel = (typeof logLevels)[number];
+
+export type LogFields = { [field: string]: unknown };
+
+export interface LoggerOptions {
+    level?: LogLevel;
+    // Fields added to every line, e.g. a session ID
+    fields?: LogFields;
+    write?: (line: string) => void;
+}
+
+// Errors are logged by message, undefined fields are dropped
+function serialize(fields: LogFields) {
+    return Object.fromEntries(Object.entries(fields)
+        .filter(([, value]) => value !== undefined)
+        .map(([key, value]) => [key, value instanceof Error ? value.message : value]));
+}
+
+// JSON lines on stderr, so that stdout stays free for the stdio transport and subcommand results.
+// Lines written inside a span carry its trace and span IDs.
+export function createLogger({ level = "info", fields = {}, write = (line) => process.stderr.write(line) }: LoggerOptions = {}) {
+    const threshold = logLevels.indexOf(level);
+
+    const log = (lineLevel: LogLevel, msg: string, extra: LogFields = {}) => {
+        if (logLevels.indexOf(lineLevel) < threshold) return;
+        const span = activeSpanContext();
+        write(`${JSON.stringify({
+            time: new Date().toISOString(),
+            level: lineLevel,
+            msg,
+            ...serialize(fields),
+            ...serialize(extra),
+            traceId: span?.traceId,
+            spanId: span?.spanId,
+        })}\n`);
+    };
+
+    return {
+        debug: (msg: string, extra?: LogFields) => log("debug", msg, extra),
+        info: (msg: string, extra?: LogFields) => log("info", msg, extra),
+        warn: (msg: string, extra?: LogFields) => log("warn", msg, extra),
+        error: (msg: string, extra?: LogFields) => log("error", msg, extra),
+
+        child(extra: LogFields) {
+            return createLogger({ level, fields: { ...fields, ...extra }, write });
+        },
+    };
+}
+
+export type Logger = ReturnType<typeof createLogger>;
+
+// LOG_LEVEL is one of debug, info (the default), warn or error
+export function createLoggerFromEnv(env: NodeJS.ProcessEnv = process.env) {
+    const level = logLevels.find((level) => level === env.LOG_LEVEL?.toLowerCase());
+    const logger = createLogger({ level });
+    if (env.LOG_LEVEL && !level) {
+        logger.warn(`Unknown LOG_LEVEL ${env.LOG_LEVEL}, logging at info`);
+    }
+    return logger;
+}
+
+// Process-wide logger, configured by LOG_LEVEL
+export const logger = createLoggerFromEnv();
@@ -0,0 +1,122 @@
+export type Labels = { [name: string]: string };
+
+export interface Sample {
+    labels: Labels;
+    value: number;
+}
+
+interface Metric {
+    name: string;
+    help: string;
+    type: "counter" | "gauge" | "histogram";
+    samples(): { suffix: string, labels: Labels, value: number }[];
+}
+
+// Durations in seconds, from a cached lookup to a slow multi-chain quote
+export const defaultBuckets = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+function escapeLabel(value: string) {
+    return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+function formatLabels(labels: Labels) {
+    const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabel(value)}"`);
+    return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
+
+function formatValue(value: number) {
+    if (Number.isNaN(value)) return "NaN";
+    if (value === Infinity) return "+Inf";
+    if (value === -Infinity) return "-Inf";
+    return String(value);
+}
+
+const labelKey = (labels: Labels) => JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+
+// Prometheus metrics in the text exposition format. Counters and gauges either hold values set by the code
+// or read them from a collect callback on every scrape, for state that is already tracked elsewhere.
+export function createMetricsRegistry() {
+    const metrics: Metric[] = [];
+
+    const register = (metric: Metric) => {
+        if (metrics.some((existing) => existing.name === metric.name)) {
+            throw new Error(`Metric ${metric.name} is already registered`);
+        }
+        metrics.push(metric);
+    };
+
+    const valueMetric = (type: "counter" | "gauge", name: string, help: string, collect?: () => Sample[]) => {
+        const values = new Map<string, Sample>();
+        register({
+            name,
+            help,
+            type,
+            samples: () => (collect ? collect() : [...values.values()]).map((sample) => ({ suffix: "", ...sample })),
+        });
+        return {
+            inc(labels: Labels = {}, value = 1) {
+                const key = labelKey(labels);
+                const sample = values.get(key) ?? { labels, value: 0 };
+                sample.value += value;
+                values.set(key, sample);
+            },
+            set(labels: Labels, value: number) {
+                values.set(labelKey(labels), { labels, value });
+            },
+        };
+    };
+
+    return {
+        counter(name: string, help: string, collect?: () => Sample[]) {
+            const counter = valueMetric("counter", name, help, collect);
+            return { inc: counter.inc };
+        },
+
+        gauge(name: string, help: string, collect?: () => Sample[]) {
+            return valueMetric("gauge", name, help, collect);
+        },
+
+        histogram(name: string, help: string, buckets = defaultBuckets) {
+            const series = new Map<string, { labels: Labels, counts: number[], sum: number, count: number }>();
+            register({
+                name,
+                help,
+                type: "histogram",
+                samples: () => [...series.values()].flatMap(({ labels, counts, sum, count }) => [
+                    ...buckets.map((bound, index) => ({ suffix: "_bucket", labels: { ...labels, le: formatValue(bound) }, value: counts[index] })),
+                    { suffix: "_bucket", labels: { ...labels, le: "+Inf" }, value: count },
+                    { suffix: "_sum", labels, value: sum },
+                    { suffix: "_count", labels, value: count },
+                ]),
+            });
+            return {
+                observe(labels: Labels, value: number) {
+                    const key = labelKey(labels);
+                    let entry = series.get(key);
+                    if (!entry) {
+                        entry = { labels, counts: buckets.map(() => 0), sum: 0, count: 0 };
+                        series.set(key, entry);
+                    }
+                    // Buckets are cumulative
+                    buckets.forEach((bound, index) => {
+                        if (value <= bound) entry.counts[index]++;
+                    });
+                    entry.sum += value;
+                    entry.count++;
+                },
+            };
+        },
+
+        render() {
+            return metrics.map((metric) => [
+                `# HELP ${metric.name} ${metric.help.replace(/\\/g, "\\\\").replace(/\n/g, "\\n")}`,
+                `# TYPE ${metric.name} ${metric.type}`,
+                ...metric.samples().map((sample) => `${metric.name}${sample.suffix}${formatLabels(sample.labels)} ${formatValue(sample.value)}`),
+            ].join("\n")).join("\n") + "\n";
+        },
+    };
+}
+
+export type MetricsRegistry = ReturnType<typeof createMetricsRegistry>;
+
+export const metricsContentType = "text/plain; version=0.0.4; charset=utf-8";
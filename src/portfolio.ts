@@ -0,0 +1,120 @@
+import { z } from "zod";
+import { ChainType, getTokenBalances, type ExtendedChain, type Token, type TokenAmount } from "@lifi/sdk";
+import { erc20Abi, type Address } from "viem";
+import { mapWithConcurrency } from "./helper.js";
+import { formatAmount, resolvedAmountSchema } from "./resolve.js";
+import { isNativeToken } from "./transaction.js";
+import { readContracts, type ChainClient } from "./rpc.js";
+
+export const holdingSchema = z.object({
+    chainId: z.number().describe("Chain ID"),
+    address: z.string().describe("Token address"),
+    symbol: z.string().describe("Token symbol"),
+    name: z.string().describe("Token name"),
+    amount: resolvedAmountSchema.describe("Balance"),
+    priceUSD: z.number().describe("Token price in USD"),
+    valueUSD: z.number().describe("Balance value in USD"),
+});
+
+export const portfolioSchema = z.object({
+    walletAddress: z.string().describe("Wallet address"),
+    totalUSD: z.number().describe("Total value in USD across all chains"),
+    dustThresholdUSD: z.number().describe("Holdings below this USD value were dropped"),
+    chains: z.array(z.object({
+        chainId: z.number().describe("Chain ID"),
+        name: z.string().describe("Chain name"),
+        totalUSD: z.number().describe("Total value in USD on this chain"),
+        holdings: z.number().describe("Number of holdings above the dust threshold"),
+        blockNumber: z.string().optional().describe("Block number the balances were read at"),
+        error: z.string().optional().describe("Error reading this chain"),
+    })).describe("Per-chain totals, highest first"),
+    topHoldings: z.array(holdingSchema).describe("Largest holdings across all chains"),
+});
+
+export type Holding = z.infer<typeof holdingSchema>;
+
+// Balances of a wallet at one block, read through the pooled client on EVM chains and the LI.FI SDK's
+// providers on the other chain types. A balance that could not be read has no amount.
+export async function getWalletBalances(chain: ExtendedChain, walletAddress: string, tokens: Token[], getPublicClient: (chainId: number) => ChainClient): Promise<TokenAmount[]> {
+    if (chain.chainType !== ChainType.EVM) {
+        return getTokenBalances(walletAddress, tokens);
+    }
+    const client = getPublicClient(chain.id);
+    const blockNumber = await client.getBlockNumber();
+    const erc20Tokens = tokens.filter((token) => !isNativeToken(token.address));
+    const [erc20Balances, nativeBalance] = await Promise.all([
+        readContracts(client, erc20Tokens.map((token) => ({
+            address: token.address as Address,
+            abi: erc20Abi,
+            functionName: "balanceOf",
+            args: [walletAddress as Address],
+        })), blockNumber),
+        erc20Tokens.length < tokens.length ? client.getBalance({ address: walletAddress as Address, blockNumber }) : undefined,
+    ]);
+    return tokens.map((token) => ({
+        ...token,
+        amount: isNativeToken(token.address) ? nativeBalance : erc20Balances[erc20Tokens.indexOf(token)] as bigint | undefined,
+        blockNumber,
+    }));
+}
+
+export interface PortfolioOptions {
+    getChainTokens: (chainId: number) => Promise<Token[]>;
+    getPublicClient: (chainId: number) => ChainClient;
+    concurrency?: number;
+    dustThresholdUSD?: number;
+    top?: number;
+}
+
+function toHolding(balance: TokenAmount): Holding {
+    const priceUSD = Number(balance.priceUSD) || 0;
+    const amount = formatAmount(balance.amount ?? 0n, balance);
+    return {
+        chainId: balance.chainId,
+        address: balance.address,
+        symbol: balance.symbol,
+        name: balance.name,
+        amount,
+        priceUSD,
+        valueUSD: Number(amount.formatted) * priceUSD,
+    };
+}
+
+// Read balances on every chain (a few chains at a time) and aggregate USD values
+export async function buildPortfolio(walletAddress: string, chains: ExtendedChain[], { getChainTokens, getPublicClient, concurrency = 4, dustThresholdUSD = 1, top = 20 }: PortfolioOptions) {
+    const perChain = await mapWithConcurrency(chains, concurrency, async (chain) => {
+        try {
+            const tokens = await getChainTokens(chain.id);
+            const balances = await getWalletBalances(chain, walletAddress, tokens, getPublicClient);
+            const holdings = balances
+                .filter((balance) => balance.amount && balance.amount > 0n)
+                .map(toHolding)
+                .filter((holding) => holding.valueUSD >= dustThresholdUSD);
+            const blockNumber = balances.find((balance) => balance.blockNumber !== undefined)?.blockNumber;
+            return {
+                summary: {
+                    chainId: chain.id,
+                    name: chain.name,
+                    totalUSD: holdings.reduce((sum, holding) => sum + holding.valueUSD, 0),
+                    holdings: holdings.length,
+                    blockNumber: blockNumber?.toString(),
+                },
+                holdings,
+            };
+        } catch (error: any) {
+            return {
+                summary: { chainId: chain.id, name: chain.name, totalUSD: 0, holdings: 0, error: error.message },
+                holdings: [],
+            };
+        }
+    });
+
+    const holdings = perChain.flatMap((chain) => chain.holdings).sort((a, b) => b.valueUSD - a.valueUSD);
+    return {
+        walletAddress,
+        totalUSD: holdings.reduce((sum, holding) => sum + holding.valueUSD, 0),
+        dustThresholdUSD,
+        chains: perChain.map((chain) => chain.summary).sort((a, b) => b.totalUSD - a.totalUSD),
+        topHoldings: holdings.slice(0, top),
+    };
+}
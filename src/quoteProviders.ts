@@ -0,0 +1,228 @@
+import { z } from "zod";
+import { getQuote, type LiFiStep, type QuoteRequest, type Token } from "@lifi/sdk";
+import { isAddress } from "viem";
+import { formatAmount, resolvedAmountSchema } from "./resolve.js";
+import { ToolError } from "./errors.js";
+
+export const normalizedQuoteSchema = z.object({
+    provider: z.string().describe("Quote provider"),
+    tool: z.string().describe("Underlying bridge, exchange or liquidity source"),
+    fromChain: z.number().describe("Source chain ID"),
+    toChain: z.number().describe("Target chain ID"),
+    fromToken: z.string().describe("Source token address"),
+    toToken: z.string().describe("Target token address"),
+    fromAmount: resolvedAmountSchema.describe("Amount sent"),
+    toAmount: resolvedAmountSchema.describe("Estimated amount received"),
+    toAmountMin: resolvedAmountSchema.describe("Minimum amount received after slippage"),
+    gasCostUSD: z.number().optional().describe("Estimated gas cost in USD"),
+    durationSeconds: z.number().optional().describe("Estimated execution duration in seconds"),
+    approvalAddress: z.string().optional().describe("Spender that must be approved for the source token"),
+    transactionRequest: z.object({
+        to: z.string().describe("Recipient / contract address"),
+        data: z.string().describe("Calldata"),
+        value: z.string().describe("Native value in wei"),
+        gasLimit: z.string().optional().describe("Gas limit"),
+    }).optional().describe("Transaction to execute the quote"),
+});
+
+export type NormalizedQuote = z.infer<typeof normalizedQuoteSchema>;
+
+export interface NormalizedQuoteRequest {
+    fromChain: number;
+    toChain: number;
+    fromToken: Token;
+    toToken: Token;
+    fromAmount: string;
+    fromAddress: string;
+    // Recipient on the target chain, required when it is of another chain type
+    toAddress?: string;
+    // Decimal proportion, 0.005 is 0.5%
+    slippage?: number;
+}
+
+// The call a quote is requested for: the session whose rate limit it counts against and the client whose fee applies
+export interface QuoteContext {
+    sessionId?: string;
+    clientId?: string;
+    // Integrator fee as decimal, taken from the sent amount by every provider so that the quotes compare
+    fee?: number;
+}
+
+export interface QuoteProvider {
+    name: string;
+    supports(request: NormalizedQuoteRequest): boolean;
+    getQuote(request: NormalizedQuoteRequest, context?: QuoteContext): Promise<NormalizedQuote>;
+}
+
+export type FetchLifiQuote = (request: QuoteRequest, context: QuoteContext) => Promise<LiFiStep>;
+
+type Fetch = typeof fetch;
+
+const toDecimalString = (value?: string | number) => value === undefined ? "0" : BigInt(value).toString();
+
+// Normalize a LI.FI quote into the shared schema
+export function normalizeLifiQuote(quote: LiFiStep, provider = "LI.FI"): NormalizedQuote {
+    const { fromToken, toToken } = quote.action;
+    const request = quote.transactionRequest;
+    return {
+        provider,
+        tool: quote.toolDetails?.key ?? quote.tool,
+        fromChain: quote.action.fromChainId,
+        toChain: quote.action.toChainId,
+        fromToken: fromToken.address,
+        toToken: toToken.address,
+        fromAmount: formatAmount(quote.estimate?.fromAmount ?? quote.action.fromAmount, fromToken),
+        toAmount: formatAmount(quote.estimate?.toAmount ?? "0", toToken),
+        toAmountMin: formatAmount(quote.estimate?.toAmountMin ?? "0", toToken),
+        gasCostUSD: quote.estimate?.gasCosts?.reduce((sum, gas) => sum + (Number(gas.amountUSD) || 0), 0),
+        durationSeconds: quote.estimate?.executionDuration,
+        approvalAddress: quote.estimate?.approvalAddress,
+        transactionRequest: request?.to && request.data ? {
+            to: request.to,
+            data: request.data,
+            value: toDecimalString(request.value),
+            gasLimit: request.gasLimit ? toDecimalString(request.gasLimit) : undefined,
+        } : undefined,
+    };
+}
+
+// fetchQuote defaults to the SDK's getQuote
+export function createLifiProvider(name = "LI.FI", fetchQuote: FetchLifiQuote = (request) => getQuote(request)): QuoteProvider {
+    return {
+        name,
+        supports: () => true,
+        async getQuote(request, context = {}) {
+            const quote = await fetchQuote({
+                fromChain: request.fromChain,
+                toChain: request.toChain,
+                fromToken: request.fromToken.address,
+                toToken: request.toToken.address,
+                fromAmount: request.fromAmount,
+                fromAddress: request.fromAddress,
+                toAddress: request.toAddress,
+                slippage: request.slippage,
+            }, context);
+            return normalizeLifiQuote(quote, name);
+        },
+    };
+}
+
+export interface ZeroExProviderOptions {
+    apiKey: string;
+    baseUrl?: string;
+    // Wallet receiving the integrator fee on 0x swaps
+    feeRecipient?: string;
+    fetch?: Fetch;
+}
+
+// 0x uses the 0xeee... placeholder for native tokens where LI.FI uses the zero address
+const zeroExNativeToken = "0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE";
+
+function toZeroExToken(address: string) {
+    return /^0x0{40}$/i.test(address) ? zeroExNativeToken : address;
+}
+
+// Same-chain EVM swaps through the 0x Swap API v2 (allowance-holder flow), received by the taker
+export function createZeroExProvider({ apiKey, baseUrl = "https://api.0x.org", feeRecipient, fetch: fetchImpl = fetch }: ZeroExProviderOptions): QuoteProvider {
+    return {
+        name: "0x",
+        supports: (request) => request.fromChain === request.toChain
+            && isAddress(request.fromAddress)
+            && (!request.toAddress || request.toAddress.toLowerCase() === request.fromAddress.toLowerCase()),
+        async getQuote(request, context = {}) {
+            const params = new URLSearchParams({
+                chainId: request.fromChain.toString(),
+                sellToken: toZeroExToken(request.fromToken.address),
+                buyToken: toZeroExToken(request.toToken.address),
+                sellAmount: request.fromAmount,
+                taker: request.fromAddress,
+            });
+            if (request.slippage !== undefined) {
+                params.append("slippageBps", Math.round(request.slippage * 10_000).toString());
+            }
+            // The fee is charged on the sell token, as LI.FI does, so that its output is net of the same fee
+            if (context.fee) {
+                if (!feeRecipient) {
+                    throw new Error("Cannot charge the integrator fee without ZEROEX_FEE_RECIPIENT");
+                }
+                params.append("swapFeeRecipient", feeRecipient);
+                params.append("swapFeeBps", Math.round(context.fee * 10_000).toString());
+                params.append("swapFeeToken", toZeroExToken(request.fromToken.address));
+            }
+            const res = await fetchImpl(`${baseUrl}/swap/allowance-holder/quote?${params.toString()}`, {
+                headers: {
+                    "0x-api-key": apiKey,
+                    "0x-version": "v2",
+                },
+            });
+            if (!res.ok) {
+                throw new Error(`HTTP ${res.status}: ${await res.text()}`);
+            }
+            const data = await res.json();
+            if (data.liquidityAvailable === false) {
+                throw new ToolError("insufficient_liquidity", "No liquidity available");
+            }
+            const sources: string[] = (data.route?.fills ?? []).map((fill: any) => fill.source);
+            return {
+                provider: "0x",
+                tool: [...new Set(sources)].join("+") || "0x",
+                fromChain: request.fromChain,
+                toChain: request.toChain,
+                fromToken: request.fromToken.address,
+                toToken: request.toToken.address,
+                fromAmount: formatAmount(data.sellAmount ?? request.fromAmount, request.fromToken),
+                toAmount: formatAmount(data.buyAmount, request.toToken),
+                toAmountMin: formatAmount(data.minBuyAmount ?? data.buyAmount, request.toToken),
+                approvalAddress: data.issues?.allowance?.spender ?? undefined,
+                transactionRequest: data.transaction ? {
+                    to: data.transaction.to,
+                    data: data.transaction.data,
+                    value: toDecimalString(data.transaction.value),
+                    gasLimit: data.transaction.gas ? toDecimalString(data.transaction.gas) : undefined,
+                } : undefined,
+            };
+        },
+    };
+}
+
+// Enabled providers come from QUOTE_PROVIDERS (comma separated, default "lifi")
+export function createQuoteProvidersFromEnv(env: NodeJS.ProcessEnv = process.env, fetchLifiQuote?: FetchLifiQuote): QuoteProvider[] {
+    const names = (env.QUOTE_PROVIDERS || "lifi").split(",").map((name) => name.trim().toLowerCase()).filter(Boolean);
+    return names.map((name) => {
+        switch (name) {
+            case "lifi":
+                return createLifiProvider(undefined, fetchLifiQuote);
+            case "0x":
+                if (!env.ZEROEX_API_KEY) {
+                    throw new Error("The 0x quote provider requires ZEROEX_API_KEY");
+                }
+                return createZeroExProvider({
+                    apiKey: env.ZEROEX_API_KEY,
+                    baseUrl: env.ZEROEX_API_URL || undefined,
+                    feeRecipient: env.ZEROEX_FEE_RECIPIENT || undefined,
+                });
+            default:
+                throw new Error(`Unknown quote provider: ${name}`);
+        }
+    });
+}
+
+// Ask every provider supporting the request in parallel; best quote (highest output) first
+export async function getBestQuotes(providers: QuoteProvider[], request: NormalizedQuoteRequest, context: QuoteContext = {}) {
+    const eligible = providers.filter((provider) => provider.supports(request));
+    const results = await Promise.allSettled(eligible.map((provider) => provider.getQuote(request, context)));
+    const quotes: NormalizedQuote[] = [];
+    const errors: { provider: string, error: string }[] = [];
+    results.forEach((result, index) => {
+        if (result.status === "fulfilled") {
+            quotes.push(result.value);
+        } else {
+            errors.push({ provider: eligible[index].name, error: result.reason?.message ?? String(result.reason) });
+        }
+    });
+    quotes.sort((a, b) => {
+        const diff = BigInt(b.toAmount.raw) - BigInt(a.toAmount.raw);
+        return diff > 0n ? 1 : diff < 0n ? -1 : 0;
+    });
+    return { quotes, errors };
+}
@@ -0,0 +1,155 @@
+import { connect as connectTcp, type Socket } from "node:net";
+import { connect as connectTls } from "node:tls";
+
+export type RedisReply = string | number | null | RedisReply[];
+
+export class RedisError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "RedisError";
+    }
+}
+
+export interface RedisClientOptions {
+    // A command that gets no reply for this long drops the connection and fails every pending command
+    timeoutMs?: number;
+}
+
+function encodeCommand(args: (string | number)[]) {
+    return `*${args.length}\r\n${args.map((arg) => `$${Buffer.byteLength(String(arg))}\r\n${arg}\r\n`).join("")}`;
+}
+
+// One RESP2 reply starting at offset and the offset after it, undefined when the buffer holds only part of it
+function parseReply(buffer: Buffer, offset: number): [RedisReply | RedisError, number] | undefined {
+    const end = buffer.indexOf("\r\n", offset);
+    if (end === -1) return undefined;
+    const line = buffer.toString("utf8", offset + 1, end);
+    const next = end + 2;
+    switch (String.fromCharCode(buffer[offset])) {
+        case "+":
+            return [line, next];
+        case "-":
+            return [new RedisError(line), next];
+        case ":":
+            return [Number(line), next];
+        case "$": {
+            const length = Number(line);
+            if (length === -1) return [null, next];
+            if (buffer.length < next + length + 2) return undefined;
+            return [buffer.toString("utf8", next, next + length), next + length + 2];
+        }
+        case "*": {
+            const count = Number(line);
+            if (count === -1) return [null, next];
+            const items: RedisReply[] = [];
+            let position = next;
+            for (let i = 0; i < count; i++) {
+                const item = parseReply(buffer, position);
+                if (!item) return undefined;
+                items.push(item[0] as RedisReply);
+                position = item[1];
+            }
+            return [items, position];
+        }
+        default:
+            throw new RedisError(`Unexpected reply type ${buffer.toString("utf8", offset, offset + 1)}`);
+    }
+}
+
+// Minimal client for Redis-compatible servers (Redis, Valkey, KeyDB, ...): redis://[user:password@]host[:port][/db],
+// rediss:// for TLS. Commands are pipelined over one connection, which is reopened by the next command after it drops.
+export function createRedisClient(url: string, { timeoutMs = 5_000 }: RedisClientOptions = {}) {
+    const { protocol, hostname, port, username, password, pathname } = new URL(url);
+    if (protocol !== "redis:" && protocol !== "rediss:") {
+        throw new RedisError(`Unsupported Redis URL protocol ${protocol}`);
+    }
+    let socket: Socket | undefined;
+    let connecting: Promise<Socket> | undefined;
+    let buffer = Buffer.alloc(0);
+    const pending: { resolve: (reply: RedisReply) => void, reject: (error: Error) => void }[] = [];
+
+    const failPending = (error: Error) => {
+        for (const { reject } of pending.splice(0)) {
+            reject(error);
+        }
+    };
+
+    const onData = (data: Buffer) => {
+        buffer = Buffer.concat([buffer, data]);
+        let offset = 0;
+        let parsed: ReturnType<typeof parseReply>;
+        while ((parsed = parseReply(buffer, offset))) {
+            const [reply, next] = parsed;
+            offset = next;
+            const request = pending.shift();
+            if (reply instanceof RedisError) {
+                request?.reject(reply);
+            } else {
+                request?.resolve(reply);
+            }
+        }
+        buffer = buffer.subarray(offset);
+    };
+
+    const send = (target: Socket, args: (string | number)[]) => new Promise<RedisReply>((resolve, reject) => {
+        pending.push({ resolve, reject });
+        target.write(encodeCommand(args));
+    });
+
+    const open = () => new Promise<Socket>((resolve, reject) => {
+        const options = { host: hostname, port: Number(port) || 6379 };
+        const target = protocol === "rediss:" ? connectTls({ ...options, servername: hostname }) : connectTcp(options);
+        target.setTimeout(timeoutMs);
+        target.once(protocol === "rediss:" ? "secureConnect" : "connect", async () => {
+            target.off("error", reject);
+            try {
+                if (password) {
+                    await send(target, username ? ["AUTH", decodeURIComponent(username), decodeURIComponent(password)] : ["AUTH", decodeURIComponent(password)]);
+                }
+                if (pathname.length > 1) {
+                    await send(target, ["SELECT", pathname.slice(1)]);
+                }
+                resolve(target);
+            } catch (error) {
+                target.destroy();
+                reject(error);
+            }
+        });
+        let lastError: Error | undefined;
+        target.once("error", reject);
+        target.on("error", (error) => {
+            lastError = error;
+        });
+        target.on("data", onData);
+        // Idle connections are fine, only a command waiting on a reply times out
+        target.on("timeout", () => {
+            if (pending.length > 0) target.destroy(new RedisError(`Redis did not reply within ${timeoutMs}ms`));
+        });
+        target.on("close", () => {
+            if (socket === target) socket = undefined;
+            buffer = Buffer.alloc(0);
+            failPending(lastError ?? new RedisError("Redis connection closed"));
+        });
+    });
+
+    return {
+        async command(...args: (string | number)[]): Promise<RedisReply> {
+            if (!socket) {
+                connecting ??= open().finally(() => {
+                    connecting = undefined;
+                });
+                socket = await connecting;
+            }
+            return send(socket, args);
+        },
+
+        async quit() {
+            const target = socket;
+            if (!target) return;
+            await send(target, ["QUIT"]).catch(() => undefined);
+            target.destroy();
+        },
+    };
+}
+
+export type RedisClient = ReturnType<typeof createRedisClient>;
@@ -0,0 +1,300 @@
+import { z } from "zod";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import { createSharedBackendFromEnv, type StoreBackend } from "./storeBackend.js";
+import { logger } from "./logger.js";
+
+export interface CachePolicy {
+    // Served as is for ttlMs, then served while being refreshed in the background for staleMs more
+    ttlMs: number;
+    staleMs: number;
+    // Written to the snapshot file and never evicted, so the server can start and resolve inputs without LI.FI
+    persist?: boolean;
+    // Entries held at most, the least recently used are evicted first; for kinds keyed on user input
+    maxEntries?: number;
+}
+
+interface CacheEntry {
+    value: unknown;
+    fetchedAt: number;
+}
+
+const snapshotSchema = z.object({
+    savedAt: z.number(),
+    entries: z.record(z.object({
+        value: z.unknown(),
+        fetchedAt: z.number(),
+    })),
+});
+
+export const cacheStatsSchema = z.object({
+    kind: z.string().describe("Kind of reference data"),
+    entries: z.number().describe("Entries held in this process"),
+    hits: z.number().describe("Lookups served fresh"),
+    staleHits: z.number().describe("Lookups served stale while refreshing"),
+    misses: z.number().describe("Lookups that waited for LI.FI"),
+    refreshes: z.number().describe("Background refreshes started"),
+    errors: z.number().describe("Failed fetches"),
+});
+
+export type CacheStats = z.infer<typeof cacheStatsSchema>;
+
+export interface ReferenceCacheOptions<K extends string> {
+    policies: { [kind in K]: CachePolicy };
+    // Shared second level, e.g. Redis, so replicas reuse each other's fetches
+    backend?: StoreBackend;
+    keyPrefix?: string;
+    snapshotFile?: string;
+    snapshotIntervalMs?: number;
+    sweepIntervalMs?: number;
+}
+
+type Id = string | number | undefined;
+
+// Stale-while-revalidate cache for LI.FI reference data (chains, tokens, tools, ...). Each kind has its own
+// policy; concurrent lookups of a key share one fetch, and a failed fetch falls back to an expired value.
+export function createReferenceCache<K extends string>({
+    policies,
+    backend,
+    keyPrefix = "helixbox-mcp:cache",
+    snapshotFile,
+    snapshotIntervalMs = 5 * 60_000,
+    sweepIntervalMs = 60_000,
+}: ReferenceCacheOptions<K>) {
+    const kinds = Object.keys(policies) as K[];
+    const entries = new Map<string, CacheEntry>();
+    const inFlight = new Map<string, Promise<unknown>>();
+    const stats = Object.fromEntries(kinds.map((kind) => [kind, { hits: 0, staleHits: 0, misses: 0, refreshes: 0, errors: 0 }])) as {
+        [kind in K]: Omit<CacheStats, "kind" | "entries">
+    };
+    const timers: NodeJS.Timeout[] = [];
+    let saving: Promise<void> = Promise.resolve();
+
+    const cacheKey = (kind: K, id: Id) => id === undefined ? kind : `${kind}:${id}`;
+    const kindOf = (key: string) => key.split(":")[0] as K;
+    const age = (entry: CacheEntry) => Date.now() - entry.fetchedAt;
+    const isFresh = (kind: K, entry?: CacheEntry) => !!entry && age(entry) < policies[kind].ttlMs;
+    const isUsable = (kind: K, entry?: CacheEntry) => !!entry && age(entry) < policies[kind].ttlMs + policies[kind].staleMs;
+
+    // Entries are kept in the order of use, so the first ones of a kind are the least recently used
+    const setEntry = (kind: K, key: string, entry: CacheEntry) => {
+        entries.delete(key);
+        entries.set(key, entry);
+        const { maxEntries } = policies[kind];
+        if (!maxEntries) return;
+        const keys = [...entries.keys()].filter((other) => kindOf(other) === kind);
+        keys.slice(0, Math.max(keys.length - maxEntries, 0)).forEach((other) => entries.delete(other));
+    };
+
+    const touch = (key: string) => {
+        const entry = entries.get(key);
+        if (entry) {
+            entries.delete(key);
+            entries.set(key, entry);
+        }
+    };
+
+    const store = (kind: K, key: string, value: unknown) => {
+        const entry = { value, fetchedAt: Date.now() };
+        setEntry(kind, key, entry);
+        const { ttlMs, staleMs } = policies[kind];
+        backend?.set(`${keyPrefix}:${key}`, JSON.stringify(entry), ttlMs + staleMs).catch((error) => {
+            logger.error("Failed to share cache entry", { key, error });
+        });
+    };
+
+    // Local entry, or the shared one when it is newer
+    const lookup = async (kind: K, key: string) => {
+        const local = entries.get(key);
+        if (!backend || isFresh(kind, local)) {
+            return local;
+        }
+        try {
+            const value = await backend.get(`${keyPrefix}:${key}`);
+            const shared: CacheEntry | undefined = value ? JSON.parse(value) : undefined;
+            if (shared && (!local || shared.fetchedAt > local.fetchedAt)) {
+                setEntry(kind, key, shared);
+                return shared;
+            }
+        } catch (error: any) {
+            logger.error("Failed to read shared cache entry", { key, error });
+        }
+        return local;
+    };
+
+    // Fetch the given keys in one call, sharing fetches already in flight
+    const fetchKeys = <T>(kind: K, ids: Id[], fetch: (ids: Id[]) => Promise<T[]>) => {
+        const missing = ids.filter((id) => !inFlight.has(cacheKey(kind, id)));
+        if (missing.length > 0) {
+            const batch = fetch(missing).catch((error) => {
+                stats[kind].errors++;
+                throw error;
+            });
+            missing.forEach((id, index) => {
+                const key = cacheKey(kind, id);
+                const promise = batch
+                    .then((values) => {
+                        store(kind, key, values[index]);
+                        return values[index];
+                    })
+                    .finally(() => inFlight.delete(key));
+                // Callers that do not wait for a background refresh must not see an unhandled rejection
+                promise.catch(() => undefined);
+                inFlight.set(key, promise);
+            });
+        }
+        return ids.map((id) => inFlight.get(cacheKey(kind, id)) as Promise<T>);
+    };
+
+    const getMany = async <T>(kind: K, ids: Id[], fetch: (ids: Id[]) => Promise<T[]>): Promise<T[]> => {
+        const found = await Promise.all(ids.map((id) => lookup(kind, cacheKey(kind, id))));
+        ids.forEach((id) => touch(cacheKey(kind, id)));
+        const stale = ids.filter((id, index) => !isFresh(kind, found[index]) && isUsable(kind, found[index]));
+        const expired = ids.filter((id, index) => !isUsable(kind, found[index]));
+        stats[kind].hits += ids.length - stale.length - expired.length;
+        stats[kind].staleHits += stale.length;
+        stats[kind].misses += expired.length;
+
+        if (stale.length > 0) {
+            const refresh = stale.filter((id) => !inFlight.has(cacheKey(kind, id)));
+            stats[kind].refreshes += refresh.length;
+            if (refresh.length > 0) {
+                Promise.all(fetchKeys(kind, refresh, fetch)).catch((error) => {
+                    logger.error("Failed to refresh cache entries", { kind, error });
+                });
+            }
+        }
+        const fetched = expired.length > 0 ? fetchKeys(kind, expired, fetch) : [];
+
+        return Promise.all(ids.map(async (id, index) => {
+            const entry = found[index];
+            if (entry && isUsable(kind, entry)) {
+                return entry.value as T;
+            }
+            try {
+                return await fetched[expired.indexOf(id)];
+            } catch (error: any) {
+                // Stale if error: an expired value, e.g. from the snapshot, beats failing the lookup
+                if (!entry) throw error;
+                logger.warn("Serving expired cache entry after a failed fetch", { key: cacheKey(kind, id), error });
+                return entry.value as T;
+            }
+        }));
+    };
+
+    const sweep = () => {
+        for (const [key, entry] of entries) {
+            const kind = kindOf(key);
+            if (!policies[kind]?.persist && !isUsable(kind, entry)) {
+                entries.delete(key);
+            }
+        }
+    };
+
+    return {
+        // Cached value of a key, fetched when missing and refreshed in the background once stale
+        async get<T>(kind: K, id: Id, fetch: () => Promise<T>): Promise<T> {
+            const [value] = await getMany(kind, [id], async () => [await fetch()]);
+            return value;
+        },
+
+        // Several keys of a kind; the missing and stale ones are fetched together with one call
+        getMany,
+
+        // Policies for the same kinds; entries already cached are judged by the new TTLs from now on
+        setPolicies(next: { [kind in K]: CachePolicy }) {
+            policies = next;
+        },
+
+        // Whether a key can be served without waiting for LI.FI: "fresh", "stale" or "expired"; local entries only
+        state(kind: K, id: Id): "fresh" | "stale" | "expired" | "missing" {
+            const entry = entries.get(cacheKey(kind, id));
+            if (!entry) return "missing";
+            return isFresh(kind, entry) ? "fresh" : isUsable(kind, entry) ? "stale" : "expired";
+        },
+
+        stats(): CacheStats[] {
+            const counts = new Map<K, number>();
+            for (const key of entries.keys()) {
+                counts.set(kindOf(key), (counts.get(kindOf(key)) ?? 0) + 1);
+            }
+            return kinds.map((kind) => ({ kind, entries: counts.get(kind) ?? 0, ...stats[kind] }));
+        },
+
+        // Load the snapshot; its entries keep their age, so old ones are served stale and refreshed on first use
+        async load() {
+            if (!snapshotFile) return;
+            try {
+                const snapshot = snapshotSchema.parse(JSON.parse(await readFile(snapshotFile, "utf8")));
+                for (const [key, entry] of Object.entries(snapshot.entries)) {
+                    if (policies[kindOf(key)] && !entries.has(key)) {
+                        setEntry(kindOf(key), key, entry as CacheEntry);
+                    }
+                }
+            } catch (error: any) {
+                if (error.code !== "ENOENT") {
+                    logger.error("Failed to load cache snapshot", { file: snapshotFile, error });
+                }
+            }
+        },
+
+        save() {
+            if (!snapshotFile) return Promise.resolve();
+            // Serialize writes and replace the file atomically
+            saving = saving.then(async () => {
+                const persisted = [...entries].filter(([key]) => policies[kindOf(key)]?.persist);
+                await mkdir(dirname(snapshotFile), { recursive: true });
+                await writeFile(`${snapshotFile}.tmp`, JSON.stringify({ savedAt: Date.now(), entries: Object.fromEntries(persisted) }));
+                await rename(`${snapshotFile}.tmp`, snapshotFile);
+            }).catch((error) => {
+                logger.error("Failed to save cache snapshot", { file: snapshotFile, error });
+            });
+            return saving;
+        },
+
+        start() {
+            timers.push(setInterval(sweep, sweepIntervalMs));
+            if (snapshotFile) {
+                timers.push(setInterval(() => void this.save(), snapshotIntervalMs));
+            }
+            timers.forEach((timer) => timer.unref());
+        },
+
+        async stop() {
+            timers.splice(0).forEach((timer) => clearInterval(timer));
+            await this.save();
+            await backend?.close();
+        },
+    };
+}
+
+export type ReferenceCache<K extends string> = ReturnType<typeof createReferenceCache<K>>;
+
+const minute = 60_000;
+const hour = 60 * minute;
+const day = 24 * hour;
+
+// LI.FI reference data kinds; token lists change more often than chains and tools, gas prices by the block.
+// Single tokens are looked up by whatever address or symbol a client sends, so they are bounded and not persisted.
+export const referencePolicies = {
+    chains: { ttlMs: day, staleMs: 7 * day, persist: true },
+    tokens: { ttlMs: 5 * minute, staleMs: hour, persist: true },
+    token: { ttlMs: day, staleMs: 7 * day, maxEntries: 10_000 },
+    tools: { ttlMs: day, staleMs: 7 * day, persist: true },
+    connections: { ttlMs: hour, staleMs: day },
+    "gas-prices": { ttlMs: 15_000, staleMs: minute },
+} satisfies { [kind: string]: CachePolicy };
+
+export type ReferenceKind = keyof typeof referencePolicies;
+
+export type ReferencePolicies = { [kind in ReferenceKind]: CachePolicy };
+
+// CACHE_STORE=redis shares entries between replicas through REDIS_URL
+export function createReferenceCacheFromEnv(policies: ReferencePolicies = referencePolicies, env: NodeJS.ProcessEnv = process.env) {
+    return createReferenceCache({
+        policies,
+        backend: createSharedBackendFromEnv("CACHE_STORE", env),
+        keyPrefix: env.CACHE_STORE_PREFIX || undefined,
+        snapshotFile: env.CACHE_SNAPSHOT_FILE || "data/reference-cache.json",
+    });
+}
@@ -0,0 +1,197 @@
+import { z } from "zod";
+import { formatUnits, parseUnits } from "viem";
+import type { ExtendedChain, LiFiStep, Token } from "@lifi/sdk";
+import { ToolError } from "./errors.js";
+import { validateAddress } from "./chainTypes.js";
+
+// Thrown when a symbol maps to several token contracts on the same chain
+export class AmbiguousTokenError extends ToolError {
+    constructor(public symbol: string, public chainId: number, public candidates: Token[]) {
+        super("invalid_input", `Token symbol ${symbol} is ambiguous on chain ${chainId}, use one of the addresses: ${candidates.map((token) => `${token.address} (${token.name})`).join(", ")}`);
+        this.name = "AmbiguousTokenError";
+    }
+}
+
+export const chainInputSchema = z.union([z.number(), z.string()]);
+// Slippage is a decimal proportion in every tool, as LI.FI takes it: 0.005 is 0.5%
+export const slippageInputSchema = z.number().min(0).lt(1);
+export const amountInputDescription = "Amount: decimal with optional symbol (\"1.5\", \"1.5 USDC\") in token units, or a bare integer in smallest unit";
+
+export const resolvedTokenSchema = z.object({
+    chainId: z.number().describe("Chain ID"),
+    address: z.string().describe("Token address"),
+    symbol: z.string().describe("Token symbol"),
+    decimals: z.number().describe("Token decimals"),
+});
+
+export const resolvedAmountSchema = z.object({
+    raw: z.string().describe("Amount in smallest unit"),
+    formatted: z.string().describe("Amount in token units"),
+    symbol: z.string().describe("Token symbol"),
+});
+
+export const resolvedInputSchema = z.object({
+    fromChain: z.number().describe("Source chain ID"),
+    toChain: z.number().describe("Target chain ID"),
+    fromToken: resolvedTokenSchema,
+    toToken: resolvedTokenSchema,
+    amount: resolvedAmountSchema.describe("Requested amount"),
+});
+
+export const candidateSchema = z.array(resolvedTokenSchema.extend({
+    name: z.string().describe("Token name"),
+})).describe("Candidate tokens when a symbol is ambiguous");
+
+export const quoteAmountsSchema = z.object({
+    fromAmount: resolvedAmountSchema.describe("Amount sent"),
+    toAmount: resolvedAmountSchema.optional().describe("Estimated amount received"),
+    toAmountMin: resolvedAmountSchema.optional().describe("Minimum amount received after slippage"),
+});
+
+export type ResolvedAmount = z.infer<typeof resolvedAmountSchema>;
+
+export interface ResolverLookups {
+    getChains: () => Promise<ExtendedChain[]>;
+    getChainTokens: (chainId: number) => Promise<Token[]>;
+    getToken: (chainId: number, token: string) => Promise<Token>;
+}
+
+const evmAddressPattern = /^0x[0-9a-fA-F]{40}$/;
+const amountPattern = /^\s*(\d+(?:\.\d*)?|\.\d+)\s*([^\s\d][^\s]*)?\s*$/;
+
+// Longer strings are treated as addresses so non-EVM addresses work too
+function isAddressLike(value: string) {
+    return evmAddressPattern.test(value) || value.length > 20;
+}
+
+export function formatAmount(raw: string | bigint, token: Pick<Token, "decimals" | "symbol">): ResolvedAmount {
+    return {
+        raw: raw.toString(),
+        formatted: formatUnits(BigInt(raw), token.decimals),
+        symbol: token.symbol,
+    };
+}
+
+export function summarizeCandidates(error: AmbiguousTokenError) {
+    return error.candidates.map((token) => ({
+        chainId: token.chainId,
+        address: token.address,
+        symbol: token.symbol,
+        decimals: token.decimals,
+        name: token.name,
+    }));
+}
+
+// Resolves chain names, token symbols and human-readable amounts to the raw values LI.FI expects
+export function createInputResolver(lookups: ResolverLookups) {
+    const resolveChain = async (input: string | number) => {
+        const chains = await lookups.getChains();
+        const value = input.toString().trim().toLowerCase();
+        const exact = chains.find((chain) => chain.id.toString() === value)
+            ?? chains.find((chain) => chain.key.toLowerCase() === value)
+            ?? chains.find((chain) => chain.name.toLowerCase() === value);
+        if (exact) {
+            return exact;
+        }
+        // A name prefix only resolves when it names a single chain, "arb" could be Arbitrum or Arbitrum Nova
+        const prefixed = value ? chains.filter((chain) => chain.name.toLowerCase().startsWith(value)) : [];
+        if (prefixed.length > 1) {
+            throw new ToolError("invalid_input", `Chain ${input} is ambiguous, use one of: ${prefixed.map((chain) => `${chain.name} (${chain.id}, ${chain.key})`).join(", ")}`);
+        }
+        const [chain] = prefixed;
+        if (!chain) {
+            throw new ToolError("unsupported_chain", `Unknown chain ${input}`);
+        }
+        return chain;
+    };
+
+    const resolveToken = async (chainId: number, input: string) => {
+        if (isAddressLike(input)) {
+            return lookups.getToken(chainId, input);
+        }
+        const symbol = input.trim().toLowerCase();
+        const tokens = await lookups.getChainTokens(chainId);
+        const matches = tokens.filter((token) => token.symbol.toLowerCase() === symbol);
+        if (matches.length > 1) {
+            throw new AmbiguousTokenError(input, chainId, matches);
+        }
+        // Fall back to LI.FI's own symbol lookup for tokens missing from the list
+        return matches[0] ?? lookups.getToken(chainId, input);
+    };
+
+    const resolveAmount = (input: string, token: Token): ResolvedAmount => {
+        const match = amountPattern.exec(input);
+        if (!match) {
+            throw new ToolError("invalid_input", `Invalid amount ${input}`);
+        }
+        const [, value, unit] = match;
+        if (unit && unit.toLowerCase() !== token.symbol.toLowerCase()) {
+            throw new ToolError("invalid_input", `Amount ${input} is in ${unit}, but the token is ${token.symbol}`);
+        }
+        // Bare integers keep their historical meaning of smallest unit
+        const raw = !unit && !value.includes(".") ? BigInt(value) : parseUnits(value, token.decimals);
+        return formatAmount(raw, token);
+    };
+
+    return {
+        resolveChain,
+        resolveToken,
+        resolveAmount,
+
+        // Optional chain inputs go through resolveChain as well, so that the chain policy applies to every input
+        async resolveChainId(input?: string | number) {
+            return input === undefined ? undefined : (await resolveChain(input)).id;
+        },
+
+        async resolveChainIds(inputs?: (string | number)[]) {
+            return inputs && Promise.all(inputs.map(async (input) => (await resolveChain(input)).id));
+        },
+
+        // Resolve a from/to pair plus an amount expressed in the from token (or the to token for toAmount quotes)
+        async resolveTransfer(input: { fromChain: string | number, toChain: string | number, fromToken: string, toToken: string, amount: string, amountToken?: "from" | "to", fromAddress?: string, toAddress?: string }) {
+            const fromChain = await resolveChain(input.fromChain);
+            const toChain = await resolveChain(input.toChain);
+            if (input.fromAddress) validateAddress(fromChain, input.fromAddress, "fromAddress");
+            if (input.toAddress) validateAddress(toChain, input.toAddress, "toAddress");
+            // LI.FI sends to fromAddress by default, which cannot receive on a chain of another type
+            if (input.fromAddress && !input.toAddress && fromChain.chainType !== toChain.chainType) {
+                throw new ToolError("invalid_input", `toAddress is required to transfer from ${fromChain.name} (${fromChain.chainType}) to ${toChain.name} (${toChain.chainType})`);
+            }
+            const [fromToken, toToken] = await Promise.all([
+                resolveToken(fromChain.id, input.fromToken),
+                resolveToken(toChain.id, input.toToken),
+            ]);
+            const amount = resolveAmount(input.amount, input.amountToken === "to" ? toToken : fromToken);
+            return { fromChain, toChain, fromToken, toToken, amount };
+        },
+    };
+}
+
+export type InputResolver = ReturnType<typeof createInputResolver>;
+
+// Compact, JSON-friendly view of a resolved transfer for tool responses
+export function summarizeResolvedTransfer(resolved: Awaited<ReturnType<InputResolver["resolveTransfer"]>>): z.infer<typeof resolvedInputSchema> {
+    const token = (token: Token) => ({
+        chainId: token.chainId,
+        address: token.address,
+        symbol: token.symbol,
+        decimals: token.decimals,
+    });
+    return {
+        fromChain: resolved.fromChain.id,
+        toChain: resolved.toChain.id,
+        fromToken: token(resolved.fromToken),
+        toToken: token(resolved.toToken),
+        amount: resolved.amount,
+    };
+}
+
+// Raw and formatted amounts of a quote, so callers don't have to apply decimals themselves
+export function summarizeQuoteAmounts(quote: LiFiStep): z.infer<typeof quoteAmountsSchema> {
+    const { fromToken, toToken } = quote.action;
+    return {
+        fromAmount: formatAmount(quote.estimate?.fromAmount ?? quote.action.fromAmount, fromToken),
+        toAmount: quote.estimate ? formatAmount(quote.estimate.toAmount, toToken) : undefined,
+        toAmountMin: quote.estimate ? formatAmount(quote.estimate.toAmountMin, toToken) : undefined,
+    };
+}
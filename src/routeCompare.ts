@@ -0,0 +1,108 @@
+import { z } from "zod";
+import type { Order, Route, RouteOptions } from "@lifi/sdk";
+import { formatAmount, resolvedAmountSchema, slippageInputSchema } from "./resolve.js";
+
+export const rankStrategies = ["cheapest", "fastest", "safest"] as const;
+export type RankStrategy = (typeof rankStrategies)[number];
+
+export const routeFilterShape = {
+    allowBridges: z.array(z.string()).optional().describe("Only use these bridge keys (optional)"),
+    denyBridges: z.array(z.string()).optional().describe("Never use these bridge keys (optional)"),
+    allowExchanges: z.array(z.string()).optional().describe("Only use these exchange keys (optional)"),
+    denyExchanges: z.array(z.string()).optional().describe("Never use these exchange keys (optional)"),
+    order: z.enum(["RECOMMENDED", "CHEAPEST", "FASTEST", "SAFEST"]).optional().describe("LI.FI route order (optional)"),
+    slippage: slippageInputSchema.optional().describe("Allowed slippage as decimal, e.g. 0.005 for 0.5% (optional)"),
+};
+
+export interface RouteFilters {
+    allowBridges?: string[];
+    denyBridges?: string[];
+    allowExchanges?: string[];
+    denyExchanges?: string[];
+    order?: Order;
+    slippage?: number;
+}
+
+// Map flat tool filters onto the nested getRoutes options
+export function buildRouteOptions(filters: RouteFilters): RouteOptions {
+    const options: RouteOptions = {};
+    if (filters.allowBridges || filters.denyBridges) {
+        options.bridges = { allow: filters.allowBridges, deny: filters.denyBridges };
+    }
+    if (filters.allowExchanges || filters.denyExchanges) {
+        options.exchanges = { allow: filters.allowExchanges, deny: filters.denyExchanges };
+    }
+    if (filters.order) options.order = filters.order;
+    if (filters.slippage !== undefined) options.slippage = filters.slippage;
+    return options;
+}
+
+export const routeSummarySchema = z.object({
+    rank: z.number().describe("Rank under the selected strategy, 1 is best"),
+    id: z.string().describe("Route ID, usable with build-transaction and execute-route"),
+    toAmount: resolvedAmountSchema.describe("Estimated amount received"),
+    toAmountMin: resolvedAmountSchema.describe("Minimum amount received after slippage"),
+    toAmountUSD: z.number().describe("Estimated amount received in USD"),
+    gasCostUSD: z.number().describe("Gas cost in USD"),
+    feeCostUSD: z.number().describe("Fees not already deducted from the output, in USD"),
+    netValueUSD: z.number().describe("Received USD value after gas and fees"),
+    durationSeconds: z.number().describe("Estimated execution duration in seconds"),
+    steps: z.number().describe("Number of transactions / hops"),
+    bridges: z.array(z.string()).describe("Bridges used"),
+    exchanges: z.array(z.string()).describe("Exchanges used"),
+    tags: z.array(z.string()).describe("LI.FI tags, e.g. CHEAPEST, FASTEST, RECOMMENDED"),
+});
+
+export type RouteSummary = z.infer<typeof routeSummarySchema>;
+
+const toNumber = (value?: string) => Number(value ?? 0) || 0;
+
+// Normalize a route into one comparable row
+export function summarizeRoute(route: Route): Omit<RouteSummary, "rank"> {
+    const bridges = new Set<string>();
+    const exchanges = new Set<string>();
+    let durationSeconds = 0;
+    let feeCostUSD = 0;
+    let hops = 0;
+    for (const step of route.steps) {
+        durationSeconds += step.estimate?.executionDuration ?? 0;
+        for (const fee of step.estimate?.feeCosts ?? []) {
+            if (!fee.included) feeCostUSD += toNumber(fee.amountUSD);
+        }
+        for (const included of step.includedSteps ?? []) {
+            hops++;
+            if (included.type === "cross") bridges.add(included.toolDetails?.key ?? included.tool);
+            if (included.type === "swap") exchanges.add(included.toolDetails?.key ?? included.tool);
+        }
+    }
+    const toAmountUSD = toNumber(route.toAmountUSD);
+    const gasCostUSD = toNumber(route.gasCostUSD);
+    return {
+        id: route.id,
+        toAmount: formatAmount(route.toAmount, route.toToken),
+        toAmountMin: formatAmount(route.toAmountMin, route.toToken),
+        toAmountUSD,
+        gasCostUSD,
+        feeCostUSD,
+        netValueUSD: toAmountUSD - gasCostUSD - feeCostUSD,
+        durationSeconds,
+        steps: Math.max(hops, route.steps.length),
+        bridges: [...bridges],
+        exchanges: [...exchanges],
+        tags: route.tags ?? [],
+    };
+}
+
+const comparators: Record<RankStrategy, (a: Omit<RouteSummary, "rank">, b: Omit<RouteSummary, "rank">) => number> = {
+    cheapest: (a, b) => b.netValueUSD - a.netValueUSD || a.durationSeconds - b.durationSeconds,
+    fastest: (a, b) => a.durationSeconds - b.durationSeconds || b.netValueUSD - a.netValueUSD,
+    safest: (a, b) => a.steps - b.steps || a.bridges.length - b.bridges.length || b.netValueUSD - a.netValueUSD,
+};
+
+// Summarize and rank routes by the given strategy
+export function compareRoutes(routes: Route[], strategy: RankStrategy): RouteSummary[] {
+    return routes
+        .map(summarizeRoute)
+        .sort(comparators[strategy])
+        .map((summary, index) => ({ rank: index + 1, ...summary }));
+}
@@ -0,0 +1,239 @@
+import { z } from "zod";
+import { readFileSync } from "node:fs";
+import { ChainType, convertExtendedChain, type ExtendedChain } from "@lifi/sdk";
+import { createPublicClient, createWalletClient, custom, http, HttpRequestError, LimitExceededRpcError, TimeoutError, type Account, type Chain as ViemChain, type ContractFunctionParameters, type PublicClient, type Transport } from "viem";
+import { ToolError } from "./errors.js";
+import { assertEvmChain } from "./chainTypes.js";
+
+// RPC URLs per chain ID, tried in order
+export const rpcConfigSchema = z.record(
+    z.string().regex(/^\d+$/, "Keys must be chain IDs"),
+    z.array(z.string().url()).min(1),
+);
+
+export type RpcConfig = z.infer<typeof rpcConfigSchema>;
+
+// RPC_CONFIG_FILE holds { "<chainId>": [urls] }; RPC_URLS_<chainId> (comma separated) overrides a chain
+export function loadRpcConfig(env: NodeJS.ProcessEnv = process.env): RpcConfig {
+    const config: RpcConfig = env.RPC_CONFIG_FILE ? rpcConfigSchema.parse(JSON.parse(readFileSync(env.RPC_CONFIG_FILE, "utf8"))) : {};
+    for (const [key, value] of Object.entries(env)) {
+        const chainId = key.match(/^RPC_URLS_(\d+)$/)?.[1];
+        if (chainId && value) {
+            config[chainId] = value.split(",").map((url) => url.trim()).filter(Boolean);
+        }
+    }
+    return rpcConfigSchema.parse(config);
+}
+
+export const endpointStatusSchema = z.object({
+    url: z.string().describe("Endpoint URL without path or credentials"),
+    healthy: z.boolean().describe("Whether the endpoint answered the last check or request"),
+    latencyMs: z.number().optional().describe("Latency of the last health check"),
+    blockNumber: z.string().optional().describe("Block number at the last health check"),
+    error: z.string().optional().describe("Last error"),
+    checkedAt: z.number().optional().describe("Unix timestamp (ms) of the last health check"),
+});
+
+export type EndpointStatus = z.infer<typeof endpointStatusSchema>;
+
+export type ChainClient = PublicClient<Transport, ViemChain>;
+
+interface Endpoint {
+    url: string;
+    request: ReturnType<Transport>["request"];
+    status: EndpointStatus;
+}
+
+interface ChainPool {
+    chain: ViemChain;
+    endpoints: Endpoint[];
+    transport: Transport;
+    publicClient: ChainClient;
+}
+
+export interface RpcPoolOptions {
+    chains: ExtendedChain[];
+    rpcUrls?: RpcConfig;
+    // Append the public RPCs LI.FI lists for each chain after the configured ones
+    publicFallback?: boolean;
+    healthCheckIntervalMs?: number;
+    timeoutMs?: number;
+}
+
+// RPC URLs often embed API keys, only the origin is reported
+function redactUrl(url: string) {
+    try {
+        return new URL(url).origin;
+    } catch {
+        return "invalid url";
+    }
+}
+
+// Errors caused by the endpoint rather than the request, worth trying the next endpoint for
+function isEndpointFailure(error: unknown) {
+    return error instanceof HttpRequestError || error instanceof TimeoutError || error instanceof LimitExceededRpcError;
+}
+
+// Pool of viem clients per chain: requests go to the first healthy endpoint and fail over to the next
+// on HTTP errors, timeouts and rate limits; a periodic health check brings failed endpoints back
+export function createRpcPool({ chains: initialChains, rpcUrls = {}, publicFallback = true, healthCheckIntervalMs = 60_000, timeoutMs = 10_000 }: RpcPoolOptions) {
+    let chains = initialChains;
+    const pools = new Map<number, ChainPool>();
+    let timer: NodeJS.Timeout | undefined;
+
+    const markFailed = (endpoint: Endpoint, error: unknown) => {
+        endpoint.status.healthy = false;
+        endpoint.status.error = error instanceof Error ? error.message.split("\n")[0] : String(error);
+    };
+
+    const createChainPool = (chainId: number): ChainPool => {
+        const extendedChain = chains.find((chain) => chain.id === chainId);
+        if (!extendedChain) {
+            throw new ToolError("unsupported_chain", `Unsupported chain ${chainId}`);
+        }
+        assertEvmChain(extendedChain);
+        const chain = convertExtendedChain(extendedChain);
+        const urls = [...new Set([
+            ...(rpcUrls[chainId] ?? []),
+            ...(publicFallback || !rpcUrls[chainId] ? chain.rpcUrls.default.http : []),
+        ])];
+        const endpoints: Endpoint[] = urls.map((url) => ({
+            url,
+            request: http(url, { retryCount: 0, timeout: timeoutMs })({ chain, retryCount: 0 }).request,
+            status: { url: redactUrl(url), healthy: true },
+        }));
+
+        const transport = custom({
+            async request({ method, params }) {
+                // Healthy endpoints first, in configured order; unhealthy ones are still tried as a last resort
+                const ordered = [...endpoints.filter((endpoint) => endpoint.status.healthy), ...endpoints.filter((endpoint) => !endpoint.status.healthy)];
+                let lastError: unknown;
+                for (const endpoint of ordered) {
+                    try {
+                        const result = await endpoint.request({ method, params });
+                        endpoint.status.healthy = true;
+                        return result;
+                    } catch (error) {
+                        if (!isEndpointFailure(error)) throw error;
+                        markFailed(endpoint, error);
+                        lastError = error;
+                    }
+                }
+                throw lastError ?? new Error(`No RPC endpoints for chain ${chainId}`);
+            },
+        }, { retryCount: 0 });
+
+        return {
+            chain,
+            endpoints,
+            transport,
+            publicClient: createPublicClient({ chain, transport }),
+        };
+    };
+
+    const getPool = (chainId: number) => {
+        let pool = pools.get(chainId);
+        if (!pool) {
+            pool = createChainPool(chainId);
+            pools.set(chainId, pool);
+        }
+        return pool;
+    };
+
+    const checkEndpoint = async (endpoint: Endpoint) => {
+        const startedAt = Date.now();
+        try {
+            const blockNumber = await endpoint.request({ method: "eth_blockNumber" });
+            endpoint.status = {
+                url: endpoint.status.url,
+                healthy: true,
+                latencyMs: Date.now() - startedAt,
+                blockNumber: BigInt(blockNumber as string).toString(),
+                checkedAt: Date.now(),
+            };
+        } catch (error) {
+            markFailed(endpoint, error);
+            endpoint.status.checkedAt = Date.now();
+        }
+    };
+
+    return {
+        getChain(chainId: number) {
+            return getPool(chainId).chain;
+        },
+
+        getTransport(chainId: number) {
+            return getPool(chainId).transport;
+        },
+
+        getPublicClient(chainId: number) {
+            return getPool(chainId).publicClient;
+        },
+
+        getWalletClient(chainId: number, account?: Account) {
+            const { chain, transport } = getPool(chainId);
+            return createWalletClient({ account, chain, transport });
+        },
+
+        // A refreshed chain list; chains whose details changed get new clients on their next use
+        setChains(next: ExtendedChain[]) {
+            chains = next;
+            for (const chainId of pools.keys()) {
+                const previous = pools.get(chainId)!.chain;
+                const chain = next.find((chain) => chain.id === chainId);
+                if (!chain || JSON.stringify(convertExtendedChain(chain)) !== JSON.stringify(previous)) {
+                    pools.delete(chainId);
+                }
+            }
+        },
+
+        // Operator-configured URLs in the shape of the LI.FI SDK's rpcUrls option
+        getConfiguredUrls(): { [chainId: number]: string[] } {
+            return Object.fromEntries(Object.entries(rpcUrls).map(([chainId, urls]) => [Number(chainId), urls]));
+        },
+
+        // Check every endpoint of the chains in use
+        async checkHealth() {
+            await Promise.all([...pools.values()].flatMap((pool) => pool.endpoints.map(checkEndpoint)));
+        },
+
+        status() {
+            return [...pools.entries()].map(([chainId, pool]) => ({
+                chainId,
+                endpoints: pool.endpoints.map((endpoint) => ({ ...endpoint.status })),
+            }));
+        },
+
+        start() {
+            // Configured EVM chains are created up front so their endpoints are checked before first use;
+            // URLs of other chain types are only passed on to the LI.FI SDK
+            for (const chainId of Object.keys(rpcUrls)) {
+                if (chains.some((chain) => chain.id === Number(chainId) && chain.chainType === ChainType.EVM)) getPool(Number(chainId));
+            }
+            timer = setInterval(() => void this.checkHealth(), healthCheckIntervalMs);
+            timer.unref();
+            void this.checkHealth();
+        },
+
+        stop() {
+            clearInterval(timer);
+            timer = undefined;
+        },
+    };
+}
+
+export type RpcPool = ReturnType<typeof createRpcPool>;
+
+// Read contract calls in one Multicall3 request on chains LI.FI lists the contract for, one by one elsewhere.
+// The result of a call that failed is undefined.
+export async function readContracts(client: ChainClient, contracts: ContractFunctionParameters[], blockNumber?: bigint): Promise<unknown[]> {
+    if (contracts.length === 0) {
+        return [];
+    }
+    if (client.chain.contracts?.multicall3) {
+        const results = await client.multicall({ contracts, allowFailure: true, blockNumber });
+        return results.map((result) => result.status === "success" ? result.result : undefined);
+    }
+    const results = await Promise.allSettled(contracts.map((contract) => client.readContract({ ...contract, blockNumber })));
+    return results.map((result) => result.status === "fulfilled" ? result.value : undefined);
+}
@@ -0,0 +1,212 @@
+import { z } from "zod";
+import type { LiFiStep, Route } from "@lifi/sdk";
+import { formatAmount } from "./resolve.js";
+
+// Output schemas for the LI.FI shapes returned by the tools. Fields the tools and agents rely on are
+// required so that upstream drift fails validation; everything else passes through untouched.
+
+export const tokenSchema = z.object({
+    chainId: z.number().describe("Chain ID"),
+    address: z.string().describe("Token address"),
+    symbol: z.string().describe("Token symbol"),
+    decimals: z.number().describe("Token decimals"),
+    name: z.string().describe("Token name"),
+    coinKey: z.string().optional().describe("Coin key shared by the same asset across chains"),
+    logoURI: z.string().optional().describe("Logo URL"),
+    priceUSD: z.string().optional().describe("Price in USD"),
+}).passthrough();
+
+// bigint amounts are serialized as decimal strings
+export const tokenAmountSchema = tokenSchema.extend({
+    amount: z.string().optional().describe("Amount in smallest unit"),
+    blockNumber: z.string().optional().describe("Block the amount was read at"),
+});
+
+export const chainSchema = z.object({
+    id: z.number().describe("Chain ID"),
+    key: z.string().describe("Chain key"),
+    name: z.string().describe("Chain name"),
+    chainType: z.string().describe("Chain type, e.g. EVM"),
+    coin: z.string().describe("Native coin key"),
+    mainnet: z.boolean().describe("Whether the chain is a mainnet"),
+    logoURI: z.string().optional().describe("Logo URL"),
+    nativeToken: tokenSchema.optional().describe("Native token"),
+}).passthrough();
+
+export const toolDetailsSchema = z.object({
+    key: z.string().describe("Tool key"),
+    name: z.string().describe("Tool name"),
+    logoURI: z.string().optional().describe("Logo URL"),
+}).passthrough();
+
+export const actionSchema = z.object({
+    fromChainId: z.number().describe("Source chain ID"),
+    fromAmount: z.string().describe("Amount sent in smallest unit"),
+    fromToken: tokenSchema.describe("Source token"),
+    fromAddress: z.string().optional().describe("Sender address"),
+    toChainId: z.number().describe("Target chain ID"),
+    toToken: tokenSchema.describe("Target token"),
+    toAddress: z.string().optional().describe("Recipient address"),
+    slippage: z.number().optional().describe("Allowed slippage as decimal"),
+}).passthrough();
+
+export const feeCostSchema = z.object({
+    name: z.string().describe("Fee name"),
+    percentage: z.string().optional().describe("Fee percentage as decimal"),
+    token: tokenSchema.describe("Fee token"),
+    amount: z.string().describe("Fee amount in smallest unit"),
+    amountUSD: z.string().optional().describe("Fee amount in USD"),
+    included: z.boolean().optional().describe("Whether the fee is deducted from the sent amount"),
+}).passthrough();
+
+export const gasCostSchema = z.object({
+    type: z.string().describe("Gas cost type"),
+    estimate: z.string().optional().describe("Estimated gas units"),
+    limit: z.string().optional().describe("Suggested gas limit"),
+    amount: z.string().describe("Gas cost in smallest unit of the gas token"),
+    amountUSD: z.string().optional().describe("Gas cost in USD"),
+    token: tokenSchema.describe("Gas token"),
+}).passthrough();
+
+export const estimateSchema = z.object({
+    tool: z.string().describe("Tool the estimate is for"),
+    fromAmount: z.string().describe("Amount sent in smallest unit"),
+    fromAmountUSD: z.string().optional().describe("Amount sent in USD"),
+    toAmount: z.string().describe("Estimated amount received in smallest unit"),
+    toAmountMin: z.string().describe("Minimum amount received after slippage"),
+    toAmountUSD: z.string().optional().describe("Estimated amount received in USD"),
+    approvalAddress: z.string().describe("Spender to approve for the source token"),
+    feeCosts: z.array(feeCostSchema).optional().describe("Fees"),
+    gasCosts: z.array(gasCostSchema).optional().describe("Gas costs"),
+    executionDuration: z.number().describe("Estimated duration in seconds"),
+}).passthrough();
+
+// Quantities are hex or decimal strings
+export const transactionRequestSchema = z.object({
+    to: z.string().optional().describe("Recipient / contract address"),
+    from: z.string().optional().describe("Sender address"),
+    data: z.string().optional().describe("Calldata"),
+    value: z.string().optional().describe("Native value"),
+    gasLimit: z.string().optional().describe("Gas limit"),
+    gasPrice: z.string().optional().describe("Gas price"),
+    chainId: z.number().optional().describe("Chain ID"),
+}).passthrough();
+
+export const includedStepSchema = z.object({
+    id: z.string().describe("Step ID"),
+    type: z.string().describe("Step type: swap, cross, protocol or custom"),
+    tool: z.string().describe("Bridge or exchange used"),
+    toolDetails: toolDetailsSchema.optional(),
+    action: actionSchema,
+    estimate: estimateSchema.optional(),
+}).passthrough();
+
+// A quote, or one step of a route
+export const stepSchema = includedStepSchema.extend({
+    includedSteps: z.array(includedStepSchema).optional().describe("Swaps and bridges the step is made of"),
+    transactionRequest: transactionRequestSchema.optional().describe("Transaction to execute the step"),
+});
+
+export const routeSchema = z.object({
+    id: z.string().describe("Route ID"),
+    fromChainId: z.number().describe("Source chain ID"),
+    fromAmount: z.string().describe("Amount sent in smallest unit"),
+    fromAmountUSD: z.string().optional().describe("Amount sent in USD"),
+    fromToken: tokenSchema.describe("Source token"),
+    fromAddress: z.string().optional().describe("Sender address"),
+    toChainId: z.number().describe("Target chain ID"),
+    toAmount: z.string().describe("Estimated amount received in smallest unit"),
+    toAmountMin: z.string().describe("Minimum amount received after slippage"),
+    toAmountUSD: z.string().optional().describe("Estimated amount received in USD"),
+    toToken: tokenSchema.describe("Target token"),
+    toAddress: z.string().optional().describe("Recipient address"),
+    gasCostUSD: z.string().optional().describe("Total gas cost in USD"),
+    steps: z.array(stepSchema).describe("Steps to execute in order"),
+    tags: z.array(z.string()).optional().describe("Tags such as RECOMMENDED, CHEAPEST, FASTEST"),
+}).passthrough();
+
+export const unavailableRoutesSchema = z.object({
+    filteredOut: z.array(z.object({
+        overallPath: z.string().describe("Path"),
+        reason: z.string().describe("Why the path was filtered out"),
+    }).passthrough()).describe("Paths filtered out by the request options"),
+    failed: z.array(z.object({
+        overallPath: z.string().describe("Path"),
+        subpaths: z.record(z.array(z.object({}).passthrough())).describe("Errors per subpath"),
+    }).passthrough()).describe("Paths that failed to quote"),
+}).passthrough();
+
+export const transactionInfoSchema = z.object({
+    txHash: z.string().optional().describe("Transaction hash"),
+    chainId: z.number().optional().describe("Chain ID"),
+    txLink: z.string().optional().describe("Explorer link"),
+    amount: z.string().optional().describe("Amount in smallest unit"),
+    token: tokenSchema.optional().describe("Token"),
+    timestamp: z.number().optional().describe("Unix timestamp"),
+}).passthrough();
+
+export const statusSchema = z.object({
+    status: z.enum(["NOT_FOUND", "INVALID", "PENDING", "DONE", "FAILED"]).describe("Transfer status"),
+    substatus: z.string().optional().describe("Substatus, e.g. WAIT_DESTINATION_TRANSACTION or COMPLETED"),
+    substatusMessage: z.string().optional().describe("Substatus explanation"),
+    tool: z.string().optional().describe("Bridge used"),
+    sending: transactionInfoSchema.optional().describe("Source chain transaction"),
+    receiving: transactionInfoSchema.optional().describe("Target chain transaction"),
+    lifiExplorerLink: z.string().optional().describe("LI.FI explorer link"),
+    bridgeExplorerLink: z.string().optional().describe("Bridge explorer link"),
+}).passthrough();
+
+export const toolsSchema = z.object({
+    bridges: z.array(z.object({
+        key: z.string().describe("Bridge key"),
+        name: z.string().describe("Bridge name"),
+        logoURI: z.string().optional().describe("Logo URL"),
+        supportedChains: z.array(z.object({
+            fromChainId: z.number().describe("Source chain ID"),
+            toChainId: z.number().describe("Target chain ID"),
+        })).describe("Supported chain pairs"),
+    }).passthrough()).describe("Bridges"),
+    exchanges: z.array(z.object({
+        key: z.string().describe("Exchange key"),
+        name: z.string().describe("Exchange name"),
+        logoURI: z.string().optional().describe("Logo URL"),
+        supportedChains: z.array(z.number()).describe("Supported chain IDs"),
+    }).passthrough()).describe("Exchanges"),
+});
+
+export const connectionSchema = z.object({
+    fromChainId: z.number().describe("Source chain ID"),
+    toChainId: z.number().describe("Target chain ID"),
+    fromTokens: z.array(tokenSchema).describe("Tokens that can be sent"),
+    toTokens: z.array(tokenSchema).describe("Tokens that can be received"),
+}).passthrough();
+
+// Gas prices in wei
+export const gasPriceSchema = z.object({
+    standard: z.number().optional().describe("Standard gas price"),
+    fast: z.number().optional().describe("Fast gas price"),
+    slow: z.number().optional().describe("Slow gas price"),
+    lastUpdated: z.number().optional().describe("Unix timestamp of the last update"),
+}).passthrough();
+
+export function describeGasPrice(gasPrice: z.infer<typeof gasPriceSchema>) {
+    const gwei = (wei?: number) => wei === undefined ? "n/a" : `${+(wei / 1e9).toFixed(4)} gwei`;
+    return `slow ${gwei(gasPrice.slow)}, standard ${gwei(gasPrice.standard)}, fast ${gwei(gasPrice.fast)}`;
+}
+
+// One line description of a quote or route step
+export function describeStep(step: LiFiStep) {
+    const { fromToken, toToken, fromChainId, toChainId } = step.action;
+    const from = formatAmount(step.estimate?.fromAmount ?? step.action.fromAmount, fromToken);
+    const to = formatAmount(step.estimate?.toAmount ?? "0", toToken);
+    const duration = step.estimate?.executionDuration !== undefined ? `, ~${step.estimate.executionDuration}s` : "";
+    return `${from.formatted} ${from.symbol} (chain ${fromChainId}) -> ${to.formatted} ${to.symbol} (chain ${toChainId}) via ${step.toolDetails?.name ?? step.tool}${duration}`;
+}
+
+export function describeRoute(route: Route) {
+    const from = formatAmount(route.fromAmount, route.fromToken);
+    const to = formatAmount(route.toAmount, route.toToken);
+    const tools = route.steps.map((step) => step.toolDetails?.name ?? step.tool).join(" + ");
+    const gas = route.gasCostUSD ? `, gas $${route.gasCostUSD}` : "";
+    return `${route.id}: ${from.formatted} ${from.symbol} -> ${to.formatted} ${to.symbol} via ${tools}${gas}`;
+}
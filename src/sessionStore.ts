@@ -0,0 +1,169 @@
+import { z } from "zod";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport, type EventStore } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { LATEST_PROTOCOL_VERSION, type JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+import { createMemoryBackend, createSharedBackendFromEnv, type StoreBackend } from "./storeBackend.js";
+import { defaultIdleTtlMs } from "./sessions.js";
+
+// What another replica needs to take over a streamable session: who opened it and its initialize params
+export const sessionRecordSchema = z.object({
+    id: z.string(),
+    clientId: z.string().optional(),
+    protocolVersion: z.string().optional(),
+    clientInfo: z.object({ name: z.string(), version: z.string() }).passthrough().optional(),
+    clientCapabilities: z.object({}).passthrough().optional(),
+    createdAt: z.number(),
+});
+
+export type SessionRecord = z.infer<typeof sessionRecordSchema>;
+
+export interface SessionStoreOptions {
+    // Records and events expire this long after the session's last activity
+    ttlMs?: number;
+    keyPrefix?: string;
+    maxEventsPerStream?: number;
+}
+
+// Streamable session records and their stream events, so that any replica can serve any session and
+// clients can resume a dropped stream with Last-Event-ID
+export function createSessionStore(backend: StoreBackend, { ttlMs = defaultIdleTtlMs, keyPrefix = "helixbox-mcp", maxEventsPerStream = 1_000 }: SessionStoreOptions = {}) {
+    const sessionKey = (sessionId: string) => `${keyPrefix}:session:${sessionId}`;
+    // Stream IDs are only unique within a session (the standalone GET stream is always "_GET_stream")
+    const streamKey = (sessionId: string, streamId: string) => `${keyPrefix}:events:${sessionId}:${streamId}`;
+
+    return {
+        async getSession(sessionId: string): Promise<SessionRecord | undefined> {
+            const value = await backend.get(sessionKey(sessionId));
+            return value ? sessionRecordSchema.parse(JSON.parse(value)) : undefined;
+        },
+
+        async saveSession(record: SessionRecord) {
+            await backend.set(sessionKey(record.id), JSON.stringify(record), ttlMs);
+        },
+
+        async touchSession(sessionId: string) {
+            await backend.expire(sessionKey(sessionId), ttlMs);
+        },
+
+        async deleteSession(sessionId: string) {
+            await backend.delete(sessionKey(sessionId));
+        },
+
+        // Event store of one session for its streamable transport. Event IDs are <sessionId>/<streamId>/<seq>,
+        // and only IDs of the same session can be replayed.
+        eventStore(sessionId: string): EventStore {
+            return {
+                async storeEvent(streamId, message) {
+                    const seq = await backend.append(streamKey(sessionId, streamId), JSON.stringify(message), maxEventsPerStream, ttlMs);
+                    return `${sessionId}/${streamId}/${seq}`;
+                },
+                async replayEventsAfter(lastEventId, { send }) {
+                    const [, eventSessionId, streamId, seq] = lastEventId.match(/^([^/]+)\/([^/]+)\/(\d+)$/) ?? [];
+                    if (eventSessionId !== sessionId) {
+                        throw new Error(`Event ${lastEventId} does not belong to session ${sessionId}`);
+                    }
+                    for (const entry of await backend.rangeAfter(streamKey(sessionId, streamId), Number(seq))) {
+                        await send(`${sessionId}/${streamId}/${entry.seq}`, JSON.parse(entry.value) as JSONRPCMessage);
+                    }
+                    return streamId;
+                },
+            };
+        },
+
+        close() {
+            return backend.close();
+        },
+    };
+}
+
+export type SessionStore = ReturnType<typeof createSessionStore>;
+
+// SESSION_STORE=redis shares sessions between replicas through REDIS_URL; the default keeps them in memory
+export function createSessionStoreFromEnv(env: NodeJS.ProcessEnv = process.env) {
+    return createSessionStore(createSharedBackendFromEnv("SESSION_STORE", env) ?? createMemoryBackend(), {
+        ttlMs: env.SESSION_IDLE_TTL_MS ? Number(env.SESSION_IDLE_TTL_MS) : undefined,
+        keyPrefix: env.SESSION_STORE_PREFIX || undefined,
+    });
+}
+
+// Streamable transport for a session initialized elsewhere, connected to a fresh MCP server. The client's initialize
+// handshake is replayed into both, so that they hold the state they had on the replica that opened the session.
+export async function restoreStreamableSession(server: McpServer, record: SessionRecord, eventStore: EventStore) {
+    // The replayed responses go nowhere, so they are not stored for resumption either
+    let replaying = true;
+    const transport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => record.id,
+        eventStore: {
+            storeEvent: (streamId, message) => replaying ? Promise.resolve(`${record.id}/${streamId}/0`) : eventStore.storeEvent(streamId, message),
+            replayEventsAfter: (lastEventId, options) => eventStore.replayEventsAfter(lastEventId, options),
+        },
+    });
+    await server.connect(transport);
+    await replayMessage(transport, record.id, {
+        jsonrpc: "2.0",
+        id: 0,
+        method: "initialize",
+        params: {
+            protocolVersion: record.protocolVersion ?? LATEST_PROTOCOL_VERSION,
+            capabilities: record.clientCapabilities ?? {},
+            clientInfo: record.clientInfo ?? { name: "unknown", version: "0.0.0" },
+        },
+    });
+    await replayMessage(transport, record.id, { jsonrpc: "2.0", method: "notifications/initialized" });
+    replaying = false;
+    return transport;
+}
+
+// JSON-RPC messages of a response body, sent as JSON or as SSE data lines
+function parseResponseMessages(body: string): unknown[] {
+    const trimmed = body.trim();
+    if (!trimmed) {
+        return [];
+    }
+    if (trimmed.startsWith("{") || trimmed.startsWith("[")) {
+        return [JSON.parse(trimmed)].flat();
+    }
+    return trimmed.split("\n")
+        .filter((line) => line.startsWith("data:"))
+        .map((line) => JSON.parse(line.slice("data:".length)));
+}
+
+// POST one message to the transport as a client would, resolving once the response is complete
+function replayMessage(transport: StreamableHTTPServerTransport, sessionId: string, message: JSONRPCMessage) {
+    return new Promise<void>((resolve, reject) => {
+        let status = 200;
+        let body = "";
+        const res = {
+            writeHead(code: number) {
+                status = code;
+                return res;
+            },
+            write(chunk: string) {
+                body += chunk;
+                return true;
+            },
+            end(chunk?: string) {
+                body += chunk ?? "";
+                let failed = status >= 400;
+                try {
+                    failed ||= parseResponseMessages(body).some((response) => typeof response === "object" && response !== null && "error" in response);
+                } catch {
+                    failed = true;
+                }
+                if (failed) {
+                    reject(new Error(`Replaying ${"method" in message ? message.method : "a message"} failed with ${status}: ${body}`));
+                } else {
+                    resolve();
+                }
+                return res;
+            },
+            on: () => res,
+        };
+        const req = {
+            method: "POST",
+            headers: { "accept": "application/json, text/event-stream", "content-type": "application/json", "mcp-session-id": sessionId },
+        };
+        transport.handleRequest(req as unknown as IncomingMessage, res as unknown as ServerResponse, message).catch(reject);
+    });
+}
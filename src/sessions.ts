@@ -0,0 +1,210 @@
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import type { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import type { JSONRPCMessage, RequestId } from "@modelcontextprotocol/sdk/types.js";
+import { logger } from "./logger.js";
+
+export const sessionInfoSchema = z.object({
+    id: z.string().describe("Session ID"),
+    transport: z.enum(["streamable", "sse"]).describe("Transport the session was opened with"),
+    clientId: z.string().optional().describe("Authenticated client that opened the session"),
+    clientName: z.string().optional().describe("Client name sent in initialize"),
+    clientVersion: z.string().optional().describe("Client version sent in initialize"),
+    createdAt: z.number().describe("Unix timestamp (ms) the session was opened"),
+    lastSeenAt: z.number().describe("Unix timestamp (ms) of the last message"),
+    idleMs: z.number().describe("Time since the last message"),
+    pendingRequests: z.number().describe("Requests not answered yet"),
+});
+
+export type SessionInfo = z.infer<typeof sessionInfoSchema>;
+
+export type SessionTransport = StreamableHTTPServerTransport | SSEServerTransport;
+
+interface Session {
+    id: string;
+    type: SessionInfo["transport"];
+    transport: SessionTransport;
+    server: McpServer;
+    auth?: AuthInfo;
+    createdAt: number;
+    lastSeenAt: number;
+    // IDs of requests received but not answered yet
+    pending: Set<RequestId>;
+}
+
+export interface NewSession {
+    type: SessionInfo["transport"];
+    transport: SessionTransport;
+    server: McpServer;
+    auth?: AuthInfo;
+    // When the session was opened, if that was on another replica
+    createdAt?: number;
+}
+
+export interface SessionManagerOptions {
+    // Sessions without messages or pending requests for this long are closed
+    idleTtlMs?: number;
+    maxSessions?: number;
+    sweepIntervalMs?: number;
+    // Called once per session when it is gone, whoever closed it
+    onClose?: (sessionId: string) => void;
+}
+
+export const defaultIdleTtlMs = 30 * 60_000;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Registry of open HTTP sessions: idle expiry, a cap on open sessions, per-session metadata
+// and draining on shutdown. Sessions are added once their MCP server is connected.
+export function createSessionManager({ idleTtlMs = defaultIdleTtlMs, maxSessions = 1_000, sweepIntervalMs = 60_000, onClose }: SessionManagerOptions = {}) {
+    const sessions = new Map<string, Session>();
+    let timer: NodeJS.Timeout | undefined;
+    let draining = false;
+
+    const remove = (sessionId: string) => {
+        if (sessions.delete(sessionId)) {
+            onClose?.(sessionId);
+        }
+    };
+
+    const closeSession = async (session: Session, reason: string) => {
+        logger.info("Closing session", { sessionId: session.id, reason });
+        try {
+            await session.server.close();
+        } catch (error: any) {
+            logger.error("Failed to close session", { sessionId: session.id, error });
+        } finally {
+            remove(session.id);
+        }
+    };
+
+    const pendingRequests = () => [...sessions.values()].reduce((count, session) => count + session.pending.size, 0);
+
+    return {
+        get size() {
+            return sessions.size;
+        },
+
+        // Why a new session cannot be opened right now, undefined when it can
+        admissionError(): string | undefined {
+            if (draining) return "Server is shutting down";
+            if (sessions.size >= maxSessions) return `Too many open sessions (limit ${maxSessions})`;
+            return undefined;
+        },
+
+        add({ type, transport, server, auth, createdAt = Date.now() }: NewSession) {
+            const id = transport.sessionId!;
+            const session: Session = { id, type, transport, server, auth, createdAt, lastSeenAt: Date.now(), pending: new Set() };
+            sessions.set(id, session);
+
+            // The MCP server owns the transport callbacks once connected, so they are wrapped rather than replaced
+            const onmessage = transport.onmessage;
+            transport.onmessage = (message: JSONRPCMessage, extra?: any) => {
+                session.lastSeenAt = Date.now();
+                if ("method" in message && "id" in message) {
+                    session.pending.add(message.id);
+                } else if ("method" in message && message.method === "notifications/cancelled") {
+                    // Cancelled requests are never answered
+                    session.pending.delete(message.params?.requestId as RequestId);
+                }
+                onmessage?.(message, extra);
+            };
+            const send = transport.send.bind(transport);
+            transport.send = async (message, options) => {
+                if ("id" in message && !("method" in message)) {
+                    session.pending.delete(message.id);
+                    session.lastSeenAt = Date.now();
+                }
+                return send(message, options);
+            };
+            const onclose = server.server.onclose;
+            server.server.onclose = () => {
+                remove(id);
+                onclose?.();
+            };
+            logger.info("Session opened", { sessionId: id, clientId: auth?.clientId, transport: type, openSessions: sessions.size });
+        },
+
+        get(sessionId: string) {
+            return sessions.get(sessionId);
+        },
+
+        touch(sessionId: string) {
+            const session = sessions.get(sessionId);
+            if (session) {
+                session.lastSeenAt = Date.now();
+            }
+        },
+
+        // A session may only be used by the client that opened it
+        belongsTo(sessionId: string, auth?: AuthInfo) {
+            return sessions.get(sessionId)?.auth?.clientId === auth?.clientId;
+        },
+
+        list(): SessionInfo[] {
+            const now = Date.now();
+            return [...sessions.values()].map((session) => {
+                const client = session.server.server.getClientVersion();
+                return {
+                    id: session.id,
+                    transport: session.type,
+                    clientId: session.auth?.clientId,
+                    clientName: client?.name,
+                    clientVersion: client?.version,
+                    createdAt: session.createdAt,
+                    lastSeenAt: session.lastSeenAt,
+                    idleMs: now - session.lastSeenAt,
+                    pendingRequests: session.pending.size,
+                };
+            });
+        },
+
+        async close(sessionId: string, reason = "closed by admin") {
+            const session = sessions.get(sessionId);
+            if (!session) return false;
+            await closeSession(session, reason);
+            return true;
+        },
+
+        // Close sessions idle for longer than the TTL
+        async sweep() {
+            const cutoff = Date.now() - idleTtlMs;
+            const idle = [...sessions.values()].filter((session) => session.lastSeenAt < cutoff && session.pending.size === 0);
+            await Promise.all(idle.map((session) => closeSession(session, "idle")));
+            return idle.length;
+        },
+
+        start() {
+            timer = setInterval(() => void this.sweep(), sweepIntervalMs);
+            timer.unref();
+        },
+
+        // Stop admitting sessions, wait up to timeoutMs for pending requests to be answered, then close every
+        // session. Returns the number of requests still pending when the sessions were closed.
+        async drain(timeoutMs = 10_000) {
+            draining = true;
+            clearInterval(timer);
+            timer = undefined;
+            const deadline = Date.now() + timeoutMs;
+            while (pendingRequests() > 0 && Date.now() < deadline) {
+                await sleep(100);
+            }
+            const abandoned = pendingRequests();
+            await Promise.all([...sessions.values()].map((session) => closeSession(session, "shutdown")));
+            return abandoned;
+        },
+    };
+}
+
+export type SessionManager = ReturnType<typeof createSessionManager>;
+
+export function createSessionManagerFromEnv(options: Pick<SessionManagerOptions, "onClose"> = {}, env: NodeJS.ProcessEnv = process.env) {
+    const number = (value: string | undefined) => value ? Number(value) : undefined;
+    return createSessionManager({
+        ...options,
+        idleTtlMs: number(env.SESSION_IDLE_TTL_MS),
+        maxSessions: number(env.MAX_SESSIONS),
+    });
+}
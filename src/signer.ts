@@ -0,0 +1,112 @@
+import { createWalletClient, formatTransactionRequest, http, numberToHex, toHex, type Account, type Address, type Chain as ViemChain, type Hex, type TransactionRequest, type TransactionSerializable, type Transport } from "viem";
+import { mnemonicToAccount, privateKeyToAccount, toAccount } from "viem/accounts";
+
+// A signer provides the account used to execute routes; the key never leaves it
+export interface Signer {
+    type: "local" | "remote";
+    account: Account;
+}
+
+export interface LocalSignerOptions {
+    privateKey?: string;
+    mnemonic?: string;
+}
+
+export interface RemoteSignerOptions {
+    url: string;
+    address: string;
+    token?: string;
+}
+
+// Local private key / mnemonic signer, meant for development only
+export function createLocalSigner({ privateKey, mnemonic }: LocalSignerOptions): Signer {
+    if (privateKey) {
+        return { type: "local", account: privateKeyToAccount(privateKey as Hex) };
+    }
+    if (mnemonic) {
+        return { type: "local", account: mnemonicToAccount(mnemonic) };
+    }
+    throw new Error("Local signer requires SIGNER_PRIVATE_KEY or SIGNER_MNEMONIC");
+}
+
+// JSON-RPC form of a transaction: hex quantities and type codes, plus the chainId viem's formatter leaves out
+function toRpcTransaction(transaction: TransactionSerializable, from: Address) {
+    return {
+        ...formatTransactionRequest({ ...transaction, from } as TransactionRequest),
+        ...(transaction.chainId === undefined ? {} : { chainId: numberToHex(transaction.chainId) }),
+    };
+}
+
+// Remote signer: POSTs JSON-RPC signing requests (eth_signTransaction, personal_sign,
+// eth_signTypedData_v4) to an external endpoint such as Web3Signer or Clef
+export function createRemoteSigner({ url, address, token }: RemoteSignerOptions): Signer {
+    let requestId = 0;
+    const request = async (method: string, params: any[]): Promise<Hex> => {
+        const res = await fetch(url, {
+            method: "POST",
+            headers: {
+                "content-type": "application/json",
+                ...(token ? { authorization: `Bearer ${token}` } : {}),
+            },
+            body: JSON.stringify({ jsonrpc: "2.0", id: ++requestId, method, params }),
+        });
+        if (!res.ok) {
+            throw new Error(`Remote signer HTTP ${res.status}: ${await res.text()}`);
+        }
+        const data = await res.json();
+        if (data.error) {
+            throw new Error(`Remote signer error: ${data.error.message ?? JSON.stringify(data.error)}`);
+        }
+        return data.result;
+    };
+
+    const account = toAccount({
+        address: address as Address,
+        signMessage: async ({ message }) => {
+            const payload = typeof message === "string" ? toHex(message) : typeof message.raw === "string" ? message.raw : toHex(message.raw);
+            return request("personal_sign", [payload, address]);
+        },
+        signTransaction: async (transaction) => {
+            return request("eth_signTransaction", [toRpcTransaction(transaction, address as Address)]);
+        },
+        signTypedData: async (typedData) => {
+            return request("eth_signTypedData_v4", [address, JSON.stringify(typedData, (_, v) => typeof v === "bigint" ? v.toString() : v)]);
+        },
+    });
+
+    return { type: "remote", account };
+}
+
+// Build the signer from the environment; execution stays disabled unless SIGNER_TYPE is set
+export function createSignerFromEnv(env: NodeJS.ProcessEnv = process.env): Signer | undefined {
+    switch (env.SIGNER_TYPE) {
+        case undefined:
+        case "":
+            return undefined;
+        case "local":
+            return createLocalSigner({
+                privateKey: env.SIGNER_PRIVATE_KEY,
+                mnemonic: env.SIGNER_MNEMONIC,
+            });
+        case "remote":
+            if (!env.REMOTE_SIGNER_URL || !env.REMOTE_SIGNER_ADDRESS) {
+                throw new Error("Remote signer requires REMOTE_SIGNER_URL and REMOTE_SIGNER_ADDRESS");
+            }
+            return createRemoteSigner({
+                url: env.REMOTE_SIGNER_URL,
+                address: env.REMOTE_SIGNER_ADDRESS,
+                token: env.REMOTE_SIGNER_TOKEN,
+            });
+        default:
+            throw new Error(`Unknown SIGNER_TYPE: ${env.SIGNER_TYPE}`);
+    }
+}
+
+// Wallet client bound to the signer account, sending through the given transport (the chain RPC by default)
+export function createSignerWalletClient(signer: Signer, chain: ViemChain, transport: Transport = http()) {
+    return createWalletClient({
+        account: signer.account,
+        chain,
+        transport,
+    });
+}
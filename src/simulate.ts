@@ -0,0 +1,182 @@
+import { z } from "zod";
+import type { ExtendedChain, LiFiStep, Token } from "@lifi/sdk";
+import { BaseError, createPublicClient, decodeErrorResult, encodeFunctionData, erc20Abi, http, toHex, type Address, type Chain as ViemChain, type Hex } from "viem";
+import { formatAmount, resolvedAmountSchema } from "./resolve.js";
+import { isNativeToken, type FetchStepTransaction } from "./transaction.js";
+import { ToolError } from "./errors.js";
+import type { ChainClient } from "./rpc.js";
+
+export const balanceChangeSchema = z.object({
+    token: z.string().describe("Token address"),
+    symbol: z.string().describe("Token symbol"),
+    before: resolvedAmountSchema.describe("Balance before the transaction"),
+    after: resolvedAmountSchema.describe("Balance after the transaction"),
+    change: resolvedAmountSchema.describe("Balance change, negative when spent"),
+});
+
+export const simulationSchema = z.object({
+    chainId: z.number().describe("Chain ID"),
+    from: z.string().describe("Sender address"),
+    to: z.string().describe("Recipient / contract address"),
+    mode: z.enum(["fork", "call"]).describe("fork: executed on a forked chain and rolled back; call: eth_call and eth_estimateGas only"),
+    success: z.boolean().describe("Whether the transaction would succeed"),
+    revertReason: z.string().optional().describe("Decoded revert reason"),
+    gasUsed: z.string().optional().describe("Gas used; the eth_estimateGas result in call mode"),
+    gasLimit: z.string().optional().describe("Gas limit of the quote"),
+    approvalRequired: z.boolean().describe("Whether the current allowance is too low; fork mode approves before simulating"),
+    balanceChanges: z.array(balanceChangeSchema).optional().describe("Sender balance changes on the source chain, fork mode only"),
+});
+
+export type Simulation = z.infer<typeof simulationSchema>;
+
+// RPC to simulate on, e.g. a local anvil fork; without one the chain's regular RPC endpoints are used
+export function getSimulationRpcUrl(chainId: number, env: NodeJS.ProcessEnv = process.env) {
+    return env[`SIMULATION_RPC_URL_${chainId}`];
+}
+
+export function createSimulationClient(chain: ViemChain, rpcUrl: string): ChainClient {
+    return createPublicClient({
+        chain,
+        transport: http(rpcUrl),
+    });
+}
+
+// Fork-only JSON-RPC methods (anvil), not part of the public client's typed schema
+async function forkRequest<T>(client: ChainClient, method: string, params: unknown[] = []) {
+    return await client.request({ method, params } as any) as T;
+}
+
+// A snapshot id when the RPC is a fork, undefined on a regular node
+async function takeSnapshot(client: ChainClient) {
+    try {
+        return await forkRequest<Hex>(client, "evm_snapshot");
+    } catch {
+        return undefined;
+    }
+}
+
+async function readBalance(client: ChainClient, token: Token, owner: Address) {
+    if (isNativeToken(token.address)) {
+        return client.getBalance({ address: owner });
+    }
+    return client.readContract({ address: token.address as Address, abi: erc20Abi, functionName: "balanceOf", args: [owner] });
+}
+
+// Error(string) and Panic(uint256) are decoded, custom errors are reported by selector
+export function decodeRevertReason(error: unknown) {
+    if (!(error instanceof BaseError)) {
+        return error instanceof Error ? error.message : String(error);
+    }
+    const cause: any = error.walk();
+    const data: Hex | undefined = typeof cause?.data === "object" ? cause.data?.data : cause?.data;
+    if (!data || data === "0x") {
+        return error.details || error.shortMessage;
+    }
+    try {
+        const decoded = decodeErrorResult({ abi: [], data });
+        return decoded.errorName === "Error" ? String(decoded.args?.[0]) : `${decoded.errorName}(${decoded.args?.join(", ") ?? ""})`;
+    } catch {
+        return `Custom error ${data.slice(0, 10)}`;
+    }
+}
+
+// Run a quote or route step's transaction against the simulation RPC before it is signed.
+// On a fork the sender is impersonated, the transaction is mined and the fork is rolled back afterwards.
+export async function simulateStep(step: LiFiStep, chain: ExtendedChain, client: ChainClient, fetchStepTransaction: FetchStepTransaction): Promise<Simulation> {
+    if (!step.transactionRequest) {
+        step = await fetchStepTransaction(step);
+    }
+    const request = step.transactionRequest;
+    if (!request?.to || !request.data) {
+        throw new ToolError("invalid_input", `Step ${step.id} has no transaction request`);
+    }
+    const from = (request.from || step.action.fromAddress) as Address | undefined;
+    if (!from) {
+        throw new ToolError("invalid_input", `Step ${step.id} has no sender address`);
+    }
+    const to = request.to as Address;
+    const data = request.data as Hex;
+    const value = BigInt(request.value || 0);
+    const { fromToken, toToken } = step.action;
+    const amount = BigInt(step.action.fromAmount);
+    const spender = step.estimate?.approvalAddress as Address | undefined;
+
+    const allowance = spender && !isNativeToken(fromToken.address)
+        ? await client.readContract({ address: fromToken.address as Address, abi: erc20Abi, functionName: "allowance", args: [from, spender] })
+        : undefined;
+    const approvalRequired = allowance !== undefined && allowance < amount;
+
+    // The received token only changes on the source chain for same-chain swaps
+    const tokens = [fromToken, ...(step.action.toChainId === chain.id && toToken.address.toLowerCase() !== fromToken.address.toLowerCase() ? [toToken] : [])];
+    if (!tokens.some((token) => isNativeToken(token.address))) {
+        tokens.push({ ...fromToken, address: "0x0000000000000000000000000000000000000000", symbol: chain.nativeToken.symbol, decimals: chain.nativeToken.decimals });
+    }
+
+    const result: Simulation = {
+        chainId: chain.id,
+        from,
+        to,
+        mode: "call",
+        success: true,
+        gasLimit: request.gasLimit ? BigInt(request.gasLimit).toString() : undefined,
+        approvalRequired,
+    };
+
+    const snapshot = await takeSnapshot(client);
+    try {
+        if (snapshot) {
+            result.mode = "fork";
+            await forkRequest(client, "anvil_impersonateAccount", [from]);
+            if (approvalRequired) {
+                const hash = await forkRequest<Hex>(client, "eth_sendTransaction", [{ from, to: fromToken.address, data: encodeFunctionData({ abi: erc20Abi, functionName: "approve", args: [spender!, amount] }) }]);
+                await client.waitForTransactionReceipt({ hash });
+            }
+        }
+        const before = snapshot ? await Promise.all(tokens.map((token) => readBalance(client, token, from))) : [];
+
+        try {
+            await client.call({ account: from, to, data, value });
+        } catch (error) {
+            return { ...result, success: false, revertReason: decodeRevertReason(error) };
+        }
+
+        if (!snapshot) {
+            return { ...result, gasUsed: (await client.estimateGas({ account: from, to, data, value })).toString() };
+        }
+        const hash = await forkRequest<Hex>(client, "eth_sendTransaction", [{
+            from,
+            to,
+            data,
+            value: toHex(value),
+            ...(request.gasLimit && { gas: toHex(BigInt(request.gasLimit)) }),
+        }]);
+        const receipt = await client.waitForTransactionReceipt({ hash });
+        const after = await Promise.all(tokens.map((token) => readBalance(client, token, from)));
+        return {
+            ...result,
+            success: receipt.status === "success",
+            revertReason: receipt.status === "success" ? undefined : "Transaction reverted when mined",
+            gasUsed: receipt.gasUsed.toString(),
+            balanceChanges: tokens.map((token, index) => ({
+                token: token.address,
+                symbol: token.symbol,
+                before: formatAmount(before[index], token),
+                after: formatAmount(after[index], token),
+                change: formatAmount(after[index] - before[index], token),
+            })),
+        };
+    } finally {
+        if (snapshot) {
+            await forkRequest(client, "anvil_stopImpersonatingAccount", [from]).catch(() => undefined);
+            await forkRequest(client, "evm_revert", [snapshot]);
+        }
+    }
+}
+
+export function describeSimulation(simulation: Simulation) {
+    if (!simulation.success) {
+        return `Simulation failed on chain ${simulation.chainId}: ${simulation.revertReason ?? "reverted"}${simulation.approvalRequired ? " (the allowance is too low, approve first)" : ""}`;
+    }
+    const changes = simulation.balanceChanges?.map((change) => `${change.change.formatted} ${change.symbol}`).join(", ");
+    return `Simulation succeeded on chain ${simulation.chainId} (${simulation.mode}), gas ${simulation.gasUsed ?? "unknown"}${changes ? `, balance changes: ${changes}` : ""}`;
+}
@@ -0,0 +1,110 @@
+import NodeCache from "node-cache";
+import { createRedisClient, type RedisClient } from "./redis.js";
+
+// Key-value storage for the session store and the reference cache; keys expire ttlMs after they were last written or touched
+export interface StoreBackend {
+    get(key: string): Promise<string | undefined>;
+    set(key: string, value: string, ttlMs: number): Promise<void>;
+    expire(key: string, ttlMs: number): Promise<void>;
+    delete(key: string): Promise<void>;
+    // Append to a list capped at maxLength entries, returning the entry's sequence number (increasing per key)
+    append(key: string, value: string, maxLength: number, ttlMs: number): Promise<number>;
+    // Entries with a sequence number above after, oldest first
+    rangeAfter(key: string, after: number): Promise<{ seq: number, value: string }[]>;
+    close(): Promise<void>;
+}
+
+interface MemoryList {
+    seq: number;
+    entries: { seq: number, value: string }[];
+}
+
+// Single-process backend, enough for one replica and for resuming streams on it
+export function createMemoryBackend(): StoreBackend {
+    const cache = new NodeCache({ useClones: false, checkperiod: 60 });
+    const seconds = (ttlMs: number) => ttlMs / 1000;
+
+    return {
+        async get(key) {
+            return cache.get<string>(key);
+        },
+        async set(key, value, ttlMs) {
+            cache.set(key, value, seconds(ttlMs));
+        },
+        async expire(key, ttlMs) {
+            cache.ttl(key, seconds(ttlMs));
+        },
+        async delete(key) {
+            cache.del(key);
+        },
+        async append(key, value, maxLength, ttlMs) {
+            const list = cache.get<MemoryList>(key) ?? { seq: 0, entries: [] };
+            list.seq += 1;
+            list.entries.push({ seq: list.seq, value });
+            list.entries.splice(0, list.entries.length - maxLength);
+            cache.set(key, list, seconds(ttlMs));
+            return list.seq;
+        },
+        async rangeAfter(key, after) {
+            return (cache.get<MemoryList>(key)?.entries ?? []).filter((entry) => entry.seq > after);
+        },
+        async close() {
+            cache.close();
+        },
+    };
+}
+
+// Backend for Redis-compatible servers shared by all replicas. Lists keep [seq, value] pairs with the
+// sequence counter in <key>:seq.
+export function createRedisBackend(client: RedisClient): StoreBackend {
+    return {
+        async get(key) {
+            return (await client.command("GET", key) as string | null) ?? undefined;
+        },
+        async set(key, value, ttlMs) {
+            await client.command("SET", key, value, "PX", Math.ceil(ttlMs));
+        },
+        async expire(key, ttlMs) {
+            await client.command("PEXPIRE", key, Math.ceil(ttlMs));
+        },
+        async delete(key) {
+            await client.command("DEL", key);
+        },
+        async append(key, value, maxLength, ttlMs) {
+            const seq = await client.command("INCR", `${key}:seq`) as number;
+            await Promise.all([
+                client.command("RPUSH", key, JSON.stringify([seq, value])),
+                client.command("LTRIM", key, -maxLength, -1),
+                client.command("PEXPIRE", key, Math.ceil(ttlMs)),
+                client.command("PEXPIRE", `${key}:seq`, Math.ceil(ttlMs)),
+            ]);
+            return seq;
+        },
+        async rangeAfter(key, after) {
+            const entries = (await client.command("LRANGE", key, 0, -1) as string[]).map((entry) => {
+                const [seq, value] = JSON.parse(entry) as [number, string];
+                return { seq, value };
+            });
+            // Concurrent appends may land out of order
+            return entries.filter((entry) => entry.seq > after).sort((a, b) => a.seq - b.seq);
+        },
+        async close() {
+            await client.quit();
+        },
+    };
+}
+
+// Shared backend selected by an env setting: "redis" needs REDIS_URL, "memory" (the default) gives undefined
+export function createSharedBackendFromEnv(setting: string, env: NodeJS.ProcessEnv = process.env): StoreBackend | undefined {
+    const type = env[setting] || "memory";
+    if (type !== "memory" && type !== "redis") {
+        throw new Error(`Unknown ${setting} ${type}, expected memory or redis`);
+    }
+    if (type === "memory") {
+        return undefined;
+    }
+    if (!env.REDIS_URL) {
+        throw new Error(`${setting}=redis needs REDIS_URL`);
+    }
+    return createRedisBackend(createRedisClient(env.REDIS_URL));
+}
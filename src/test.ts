@@ -3,6 +3,9 @@ import { privateKeyToAccount } from "viem/accounts";
 import { arbitrum, mainnet, optimism, polygon, scroll } from 'viem/chains'
 import type { Chain } from 'viem'
 import { createWalletClient, http } from 'viem'
+import { z } from "zod";
+import { safeStringify } from "./helper.js";
+import { chainSchema, connectionSchema, gasPriceSchema, routeSchema, stepSchema, tokenAmountSchema, tokenSchema, toolsSchema, unavailableRoutesSchema } from "./schemas.js";
 
 const chains = await getChains();
 
@@ -13,7 +16,7 @@ const client = createWalletClient({
 
 createConfig({
     integrator: "test",
-    apiKey: process.env.LIFIPRO_API_KEY,
+    apiKey: process.env.LIFI_API_KEY,
     providers: [
         EVM({
             getWalletClient: async () => client,
@@ -31,3 +34,49 @@ const tokenObj = await getToken(1, "0x0000000000000000000000000000000000000000")
 console.log(tokenObj);
 const balance = await getTokenBalance("0xdEBC25Dba4445Af08859d6A37659Cb203030D8d7", tokenObj);
 console.log(balance);
+
+// Check live LI.FI responses against the tool output schemas, so upstream drift shows up here first
+const usdc = "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48";
+const usdcArbitrum = "0xaf88d065e77c8cC3eA238E3cA5Ac84B9F1A3D7b2";
+const wallet = "0xdEBC25Dba4445Af08859d6A37659Cb203030D8d7";
+
+function checkSchema(name: string, schema: z.ZodTypeAny, data: unknown) {
+    // Tools serialize bigints as strings before validating
+    const result = schema.safeParse(JSON.parse(safeStringify(data)));
+    if (result.success) {
+        console.log(`schema ${name}: ok`);
+    } else {
+        console.error(`schema ${name}: ${result.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`).join("; ")}`);
+        process.exitCode = 1;
+    }
+}
+
+checkSchema("chains", z.array(chainSchema), chains);
+checkSchema("token", tokenSchema, tokenObj);
+checkSchema("token balance", tokenAmountSchema, balance);
+checkSchema("tools", toolsSchema, await getTools());
+checkSchema("connections", z.array(connectionSchema), (await getConnections({ fromChain: 1, toChain: 42161, fromToken: usdc })).connections);
+
+const quote = await getQuote({
+    fromChain: 1,
+    toChain: 42161,
+    fromToken: usdc,
+    toToken: usdcArbitrum,
+    fromAmount: "100000000",
+    fromAddress: wallet,
+});
+checkSchema("quote", stepSchema, quote);
+
+const routes = await getRoutes({
+    fromChainId: 1,
+    toChainId: 42161,
+    fromTokenAddress: usdc,
+    toTokenAddress: usdcArbitrum,
+    fromAmount: "100000000",
+    fromAddress: wallet,
+});
+checkSchema("routes", z.array(routeSchema), routes.routes);
+checkSchema("unavailable routes", unavailableRoutesSchema, routes.unavailableRoutes);
+
+const gasPrices = await fetch("https://li.quest/v1/gas/prices").then((res) => res.json());
+checkSchema("gas prices", z.record(gasPriceSchema), gasPrices);
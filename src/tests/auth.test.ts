@@ -0,0 +1,163 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { generateKeyPairSync, sign } from "node:crypto";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { createAuthenticators, hasScope, hasToolAccess } from "../auth.js";
+import { startMockLifi, type MockLifi } from "./mockLifi.js";
+import { callTool, startServer, type TestServer } from "./harness.js";
+
+// Authentication and scopes: what each client may call and see, with static API keys, JWTs and without auth
+
+const trackedTxHash = "0x3f6a2c1e9b8d7f5a4c3e2d1b0a9f8e7d6c5b4a39281706f5e4d3c2b1a0f9e8d7";
+
+const clients = [
+    { id: "alice", token: "alice-token-0123456789", scopes: ["read", "quote"] },
+    { id: "bob", token: "bob-token-0123456789ab", scopes: ["read", "quote"] },
+    { id: "operator", token: "operator-token-012345", scopes: ["admin"] },
+];
+
+let dir: string;
+let mock: MockLifi;
+let server: TestServer;
+let alice: Client;
+let bob: Client;
+
+before(async () => {
+    dir = await mkdtemp(join(tmpdir(), "helixbox-mcp-test-"));
+    const authConfigFile = join(dir, "auth.json");
+    await writeFile(authConfigFile, JSON.stringify({ clients }));
+    // alice has its own fee, bob pays the deployment's LIFI_FEE
+    const configFile = join(dir, "config.yaml");
+    await writeFile(configFile, "lifi:\n  clients:\n    alice:\n      fee: 0.001\n");
+    mock = await startMockLifi();
+    server = await startServer({ mock, env: { AUTH_CONFIG_FILE: authConfigFile, CONFIG_FILE: configFile } });
+    alice = await server.connect("streamable", clients[0].token);
+    bob = await server.connect("sse", clients[1].token);
+});
+
+after(async () => {
+    await server?.stop();
+    await mock?.close();
+    await rm(dir, { recursive: true, force: true });
+});
+
+describe("authentication", () => {
+    it("rejects requests without valid credentials", async () => {
+        const res = await fetch(`${server.url}/mcp`, { method: "POST", headers: { authorization: "Bearer wrong" } });
+        assert.equal(res.status, 401);
+        await assert.rejects(server.connect("streamable"));
+    });
+
+    it("opens /admin to clients with the admin scope only", async () => {
+        const admin = (token: string) => fetch(`${server.url}/admin/sessions`, { headers: { authorization: `Bearer ${token}` } });
+        assert.equal((await admin(clients[0].token)).status, 403);
+        assert.equal((await admin(clients[2].token)).status, 200);
+    });
+
+    it("lists only the tools a client's scopes allow", async () => {
+        const { tools } = await alice.listTools();
+        assert.equal(tools.some((tool) => tool.name === "fee-report"), false);
+        assert.ok(tools.some((tool) => tool.name === "swap"));
+    });
+});
+
+describe("without authentication", () => {
+    it("grants every scope but admin", () => {
+        assert.equal(hasScope(undefined, "quote"), true);
+        assert.equal(hasScope(undefined, "admin"), false);
+        assert.equal(hasToolAccess(undefined, "fee-report"), false);
+        assert.equal(hasScope(undefined, "admin", { allowUnauthenticatedAdmin: true }), true);
+    });
+
+    it("keeps /admin closed unless allowed explicitly", async () => {
+        const open = await startServer({ mock });
+        try {
+            assert.equal((await fetch(`${open.url}/admin/sessions`)).status, 403);
+            const client = await open.connect("streamable");
+            const { tools } = await client.listTools();
+            assert.equal(tools.some((tool) => tool.name === "fee-report"), false);
+        } finally {
+            await open.stop();
+        }
+    });
+});
+
+describe("JWT authentication", () => {
+    const { publicKey, privateKey } = generateKeyPairSync("ed25519");
+    const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString("base64url");
+    const signJwt = (claims: object) => {
+        const payload = `${encode({ alg: "EdDSA", typ: "JWT" })}.${encode(claims)}`;
+        return `${payload}.${sign(null, Buffer.from(payload), privateKey).toString("base64url")}`;
+    };
+    const authenticator = async (requireExpiry?: boolean) => {
+        const jwksFile = join(dir, "jwks.json");
+        await writeFile(jwksFile, JSON.stringify({ keys: [publicKey.export({ format: "jwk" })] }));
+        const [, authenticate] = createAuthenticators({ clients: [], jwt: { jwksFile, defaultScopes: ["read"], requireExpiry: requireExpiry ?? true } });
+        return authenticate;
+    };
+    const now = Math.floor(Date.now() / 1000);
+
+    it("accepts a valid token", async () => {
+        const auth = (await authenticator())(signJwt({ iss: "https://issuer.example", sub: "agent", scope: "read quote", exp: now + 300 }));
+        assert.equal(auth?.clientId, "jwt:https://issuer.example:agent");
+        assert.deepEqual(auth?.scopes, ["read", "quote"]);
+    });
+
+    it("rejects expired tokens", async () => {
+        assert.equal((await authenticator())(signJwt({ sub: "agent", exp: now - 3600 })), undefined);
+    });
+
+    it("rejects tokens without exp unless configured otherwise", async () => {
+        const token = signJwt({ sub: "agent" });
+        assert.equal((await authenticator())(token), undefined);
+        assert.equal((await authenticator(false))(token)?.clientId, "jwt::agent");
+    });
+
+    it("namespaces the subject by issuer and rejects tokens without one", async () => {
+        const auth = (await authenticator())(signJwt({ sub: "alice", exp: now + 300 }));
+        assert.equal(auth?.clientId, "jwt::alice");
+        assert.equal((await authenticator())(signJwt({ scope: "read", exp: now + 300 })), undefined);
+    });
+});
+
+describe("transfer tracking per client", () => {
+    before(async () => {
+        const { isError } = await callTool(alice, "track-transfer", { txHash: trackedTxHash, label: "alice's transfer" });
+        assert.equal(isError, false);
+    });
+
+    it("shows a client its own transfers", async () => {
+        const { structured } = await callTool(alice, "list-transfers");
+        assert.deepEqual(structured.transfers.map((transfer: any) => [transfer.label, transfer.clientId]), [["alice's transfer", "alice"]]);
+        assert.equal((await callTool(alice, "get-transfer", { txHash: trackedTxHash })).isError, false);
+        const { resources } = await alice.listResources();
+        assert.ok(resources.some((resource) => resource.uri === `transfers://${trackedTxHash}`));
+    });
+
+    it("hides them from other clients", async () => {
+        const { structured } = await callTool(bob, "list-transfers");
+        assert.deepEqual(structured.transfers, []);
+        const { isError, structured: error } = await callTool(bob, "get-transfer", { txHash: trackedTxHash });
+        assert.equal(isError, true);
+        assert.match(error.error.message, /is not tracked/);
+        const { resources } = await bob.listResources();
+        assert.equal(resources.some((resource) => resource.uri.startsWith("transfers://")), false);
+        await assert.rejects(bob.readResource({ uri: `transfers://${trackedTxHash}` }), /is not tracked/);
+    });
+});
+
+describe("fees per client", () => {
+    const transfer = { fromChain: "eth", toChain: "arb", fromToken: "USDC", toToken: "USDC", fromAmount: "1000 USDC", fromAddress: "0x8ba1f109551bD432803012645Ac136ddd64DBA72" };
+
+    it("quotes each client with its own integrator fee", async () => {
+        for (const tool of ["swap", "best-quote"]) {
+            mock.reset();
+            assert.equal((await callTool(alice, tool, transfer)).isError, false);
+            assert.equal((await callTool(bob, tool, transfer)).isError, false);
+            assert.deepEqual(mock.requests("/v1/quote").map(({ query }) => query.get("fee")), ["0.001", "0.0025"], tool);
+        }
+    });
+});
@@ -0,0 +1,97 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { loadFixture, startMockLifi, type MockLifi } from "./mockLifi.js";
+import { callTool, startServer, testPrivateKey, type TestServer } from "./harness.js";
+
+// A deployment denying Arbitrum: every tool taking a chain rejects it, and listings leave it out
+
+const wallet = "0x8ba1f109551bD432803012645Ac136ddd64DBA72";
+const usdcArbitrum = "0xAf88d065E77c8cc3Ea238e3cA5aC84B9f1A3d7b2";
+const diamond = "0x1231DEB6f5749EF6cE6943a275A1D3E7486F4EaE";
+const trackedTxHash = "0x3f6a2c1e9b8d7f5a4c3e2d1b0a9f8e7d6c5b4a39281706f5e4d3c2b1a0f9e8d7";
+
+const transfer = { fromChain: "eth", toChain: "arbitrum", fromToken: "USDC", toToken: "USDC", fromAddress: wallet };
+// The quote fixture goes from Ethereum to Arbitrum
+const quote = loadFixture("quote");
+
+// Arguments naming the denied chain, per tool
+const deniedCalls: [string, { [key: string]: unknown }][] = [
+    ["swap", { ...transfer, fromAmount: "1000 USDC" }],
+    ["bridge", { ...transfer, fromAmount: "1000 USDC" }],
+    ["quote-to-amount", { ...transfer, toAmount: "996.493 USDC" }],
+    ["best-quote", { ...transfer, fromAmount: "1000 USDC" }],
+    ["compare-routes", { ...transfer, fromAmount: "1000 USDC" }],
+    ["routes", { fromChainId: "eth", toChainId: "arb", fromTokenAddress: "USDC", toTokenAddress: "USDC", fromAmount: "1000 USDC", fromAddress: wallet }],
+    ["tokens-one-chain", { chain: "arb" }],
+    ["tokens-multiple-chains", { chains: ["eth", "arb"] }],
+    ["search-tokens", { query: "usd", chains: [42161] }],
+    ["token", { chain: "arb", token: "USDC" }],
+    ["tools", { chains: ["arb"] }],
+    ["connections", { fromChain: 42161 }],
+    ["connections", { fromChain: 1, toChain: 42161 }],
+    ["token-balance", { walletAddress: wallet, chainId: 42161, token: usdcArbitrum }],
+    ["token-balances", { walletAddress: wallet, chainId: 42161 }],
+    ["portfolio", { walletAddress: wallet, chains: ["arb"] }],
+    ["token-allowance", { token: { chainId: 42161, address: usdcArbitrum }, ownerAddress: wallet, spenderAddress: diamond }],
+    ["token-allowance-multicall", { ownerAddress: wallet, tokens: [{ token: { chainId: 42161, address: usdcArbitrum }, spenderAddress: diamond }] }],
+    ["build-approve", { chain: "arb", token: "USDC", spender: diamond, owner: wallet, amount: "unlimited" }],
+    ["scan-allowances", { owner: wallet, chain: "arb" }],
+    ["check-route-approval", { quote }],
+    ["build-transaction", { quote }],
+    ["simulate-quote", { quote }],
+    ["execute-route", { quote }],
+    ["status", { txHash: trackedTxHash, toChain: 42161 }],
+    ["track-transfer", { txHash: trackedTxHash, fromChain: 42161 }],
+    ["fee-report", { chains: ["arb"] }],
+    ["gas-price", { chainId: 42161 }],
+];
+
+let dir: string;
+let mock: MockLifi;
+let server: TestServer;
+let client: Client;
+
+before(async () => {
+    dir = await mkdtemp(join(tmpdir(), "helixbox-mcp-test-"));
+    const configFile = join(dir, "config.yaml");
+    await writeFile(configFile, "chains:\n  deny: [arb]\n");
+    mock = await startMockLifi();
+    server = await startServer({
+        mock,
+        env: { CONFIG_FILE: configFile, SIGNER_TYPE: "local", SIGNER_PRIVATE_KEY: testPrivateKey, ALLOW_UNAUTHENTICATED_ADMIN: "true" },
+    });
+    client = await server.connect("streamable");
+});
+
+after(async () => {
+    await server?.stop();
+    await mock?.close();
+    await rm(dir, { recursive: true, force: true });
+});
+
+describe("chain policy", () => {
+    for (const [tool, args] of deniedCalls) {
+        it(`${tool}(${Object.keys(args).join(", ")}) rejects the denied chain`, async () => {
+            const result = await callTool(client, tool, args);
+            assert.equal(result.isError, true, `expected unsupported_chain, got ${result.text}`);
+            assert.equal(result.structured.error.code, "unsupported_chain");
+        });
+    }
+
+    it("leaves the denied chain out of listings", async () => {
+        const { structured: { chains } } = await callTool(client, "chains");
+        assert.deepEqual(chains.map((chain: any) => chain.key), ["eth", "sol"]);
+        const { structured: { gasPrices } } = await callTool(client, "gas-prices");
+        assert.deepEqual(Object.keys(gasPrices), ["1"]);
+        const { structured: { connections } } = await callTool(client, "connections", { fromChain: 1 });
+        assert.deepEqual(connections, []);
+        const { resources } = await client.listResources();
+        assert.ok(!resources.some((resource) => resource.uri.includes("42161")));
+        await assert.rejects(client.readResource({ uri: "chains://42161" }), /Unsupported chain 42161/);
+        await assert.rejects(client.readResource({ uri: "tokens://42161" }), /Unknown chain 42161/);
+    });
+});
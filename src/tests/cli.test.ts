@@ -0,0 +1,32 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { parseCli, usage } from "../cli.js";
+
+// Command line parsing; running the subcommands is covered by transports.test.ts
+
+const wallet = "0x8ba1f109551bD432803012645Ac136ddd64DBA72";
+const quote = (...flags: string[]) => parseCli(["quote", "eth", "arb", "USDC", "USDC", "1000", "--from-address", wallet, ...flags]);
+
+describe("parseCli", () => {
+    it("maps quote onto the swap tool with slippage as a decimal", () => {
+        assert.deepEqual(quote("--slippage", "0.005").toolCall, {
+            name: "swap",
+            arguments: { fromChain: "eth", toChain: "arb", fromToken: "USDC", toToken: "USDC", fromAmount: "1000", fromAddress: wallet, slippage: 0.005 },
+        });
+        assert.equal(quote().toolCall?.arguments.slippage, undefined);
+        assert.match(usage, /--slippage <decimal, e\.g\. 0\.005>/);
+    });
+
+    it("rejects slippage that is not a decimal proportion", () => {
+        assert.throws(() => quote("--slippage", "1"), /--slippage is a decimal between 0 and 1, e\.g\. 0\.005 for 0\.5%, got 1/);
+        assert.throws(() => quote("--slippage=-0.1"), /--slippage is a decimal between 0 and 1/);
+        assert.throws(() => quote("--slippage", "0.5%"), /--slippage must be a number, got 0\.5%/);
+    });
+
+    it("parses the server options and status subcommand", () => {
+        const options = parseCli(["--transport", "stdio", "--port", "4000", "--tools", "swap, chains"]);
+        assert.deepEqual(options, { transport: "stdio", port: 4000, tools: ["swap", "chains"], config: undefined, toolCall: undefined, help: undefined });
+        assert.deepEqual(parseCli(["status", "0xabc", "--from-chain", "1"]).toolCall, { name: "status", arguments: { txHash: "0xabc", fromChain: 1 } });
+        assert.throws(() => parseCli(["--transport", "ws"]), /Unknown transport ws/);
+    });
+});
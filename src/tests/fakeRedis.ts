@@ -0,0 +1,167 @@
+import { createServer, type AddressInfo, type Socket } from "node:net";
+
+// RESP2 encodings of the reply types
+export const resp = {
+    simple: (value: string) => `+${value}\r\n`,
+    error: (message: string) => `-${message}\r\n`,
+    integer: (value: number) => `:${value}\r\n`,
+    bulk: (value: string | null) => value === null ? "$-1\r\n" : `$${Buffer.byteLength(value)}\r\n${value}\r\n`,
+    array: (items: string[] | null) => items === null ? "*-1\r\n" : `*${items.length}\r\n${items.join("")}`,
+};
+
+// Commands of one connection, parsed from RESP arrays of bulk strings, and the bytes of the ones not complete yet
+function parseCommands(buffer: Buffer): [string[][], Buffer] {
+    const commands: string[][] = [];
+    let offset = 0;
+    while (offset < buffer.length) {
+        const header = buffer.indexOf("\r\n", offset);
+        if (header === -1) break;
+        const count = Number(buffer.toString("utf8", offset + 1, header));
+        const args: string[] = [];
+        let position = header + 2;
+        for (let i = 0; i < count; i++) {
+            const end = buffer.indexOf("\r\n", position);
+            if (end === -1) break;
+            const length = Number(buffer.toString("utf8", position + 1, end));
+            if (buffer.length < end + 2 + length + 2) break;
+            args.push(buffer.toString("utf8", end + 2, end + 2 + length));
+            position = end + 2 + length + 2;
+        }
+        if (args.length < count) break;
+        commands.push(args);
+        offset = position;
+    }
+    return [commands, buffer.subarray(offset)];
+}
+
+// In-process stand-in for a Redis server, enough for the store backends: strings, lists, INCR and expiry.
+// Every command is recorded with its connection, and any command can be answered with a raw reply or left unanswered.
+export async function startFakeRedis({ password }: { password?: string } = {}) {
+    const values = new Map<string, string | string[]>();
+    const expiries = new Map<string, number>();
+    const commands: { connection: number, args: string[] }[] = [];
+    const overrides = new Map<string, string | null>();
+    const sockets = new Set<Socket>();
+    let connections = 0;
+
+    const list = (key: string) => {
+        const value = values.get(key) ?? [];
+        if (!Array.isArray(value)) throw new Error("WRONGTYPE Operation against a key holding the wrong kind of value");
+        return value;
+    };
+    // Redis' LRANGE/LTRIM indexes, negative ones counting from the end
+    const index = (value: string, length: number) => Number(value) < 0 ? Math.max(length + Number(value), 0) : Number(value);
+
+    const execute = ([name, ...args]: string[], authenticated: boolean): string | null => {
+        const command = name.toUpperCase();
+        if (overrides.has(command)) {
+            const reply = overrides.get(command)!;
+            overrides.delete(command);
+            return reply;
+        }
+        if (password && !authenticated && command !== "AUTH") return resp.error("NOAUTH Authentication required.");
+        switch (command) {
+            case "AUTH":
+                return args.at(-1) === password ? resp.simple("OK") : resp.error("WRONGPASS invalid username-password pair");
+            case "SELECT":
+            case "QUIT":
+                return resp.simple("OK");
+            case "GET": {
+                const value = values.get(args[0]);
+                return resp.bulk(typeof value === "string" ? value : null);
+            }
+            case "SET":
+                values.set(args[0], args[1]);
+                if (args[2]?.toUpperCase() === "PX") expiries.set(args[0], Number(args[3]));
+                return resp.simple("OK");
+            case "PEXPIRE":
+                if (!values.has(args[0])) return resp.integer(0);
+                expiries.set(args[0], Number(args[1]));
+                return resp.integer(1);
+            case "DEL": {
+                const deleted = args.filter((key) => values.delete(key)).length;
+                return resp.integer(deleted);
+            }
+            case "INCR": {
+                const value = Number(values.get(args[0]) ?? 0) + 1;
+                values.set(args[0], value.toString());
+                return resp.integer(value);
+            }
+            case "RPUSH": {
+                const items = [...list(args[0]), ...args.slice(1)];
+                values.set(args[0], items);
+                return resp.integer(items.length);
+            }
+            case "LTRIM": {
+                const items = list(args[0]);
+                values.set(args[0], items.slice(index(args[1], items.length), index(args[2], items.length) + 1));
+                return resp.simple("OK");
+            }
+            case "LRANGE": {
+                const items = list(args[0]);
+                return resp.array(items.slice(index(args[1], items.length), index(args[2], items.length) + 1).map(resp.bulk));
+            }
+            default:
+                return resp.error(`ERR unknown command '${name}'`);
+        }
+    };
+
+    const server = createServer((socket) => {
+        const connection = ++connections;
+        let buffer = Buffer.alloc(0);
+        let authenticated = false;
+        sockets.add(socket);
+        socket.on("close", () => sockets.delete(socket));
+        socket.on("error", () => {});
+        socket.on("data", (data) => {
+            let parsed: string[][];
+            [parsed, buffer] = parseCommands(Buffer.concat([buffer, data]));
+            for (const args of parsed) {
+                commands.push({ connection, args });
+                let reply: string | null;
+                try {
+                    reply = execute(args, authenticated);
+                } catch (error: any) {
+                    reply = resp.error(error.message);
+                }
+                if (args[0].toUpperCase() === "AUTH" && reply === resp.simple("OK")) authenticated = true;
+                if (reply !== null) socket.write(reply);
+            }
+        });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const { port } = server.address() as AddressInfo;
+
+    return {
+        url: `redis://127.0.0.1:${port}`,
+        port,
+        values,
+        // PX/PEXPIRE TTL last set per key, in milliseconds
+        expiries,
+
+        commands(name?: string) {
+            return commands.filter(({ args }) => !name || args[0].toUpperCase() === name);
+        },
+
+        // Answer the next command of this name with a raw RESP reply, or never with null
+        override(name: string, reply: string | null) {
+            overrides.set(name.toUpperCase(), reply);
+        },
+
+        // Close every open connection, as a restarting or failing over server would
+        disconnect() {
+            sockets.forEach((socket) => socket.end());
+        },
+
+        get connections() {
+            return connections;
+        },
+
+        close() {
+            sockets.forEach((socket) => socket.destroy());
+            return new Promise<void>((resolve) => server.close(() => resolve()));
+        },
+    };
+}
+
+export type FakeRedis = Awaited<ReturnType<typeof startFakeRedis>>;
@@ -0,0 +1,187 @@
+import { spawn, type ChildProcess } from "node:child_process";
+import { mkdtemp, rm } from "node:fs/promises";
+import { createServer } from "node:net";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { Readable } from "node:stream";
+import { fileURLToPath } from "node:url";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js";
+import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import type { MockLifi } from "./mockLifi.js";
+
+export const clientTransports = ["streamable", "sse", "stdio"] as const;
+export type ClientTransport = (typeof clientTransports)[number];
+
+export interface ServerOptions {
+    mock: MockLifi;
+    // Added to, or with undefined removed from, the test environment
+    env?: { [name: string]: string | undefined };
+    args?: string[];
+}
+
+const root = fileURLToPath(new URL("../..", import.meta.url));
+const entry = join(root, "src/index.ts");
+
+// Hardhat's first account, a well-known key holding nothing on any real chain
+export const testPrivateKey = "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80";
+
+function freePort() {
+    return new Promise<number>((resolve, reject) => {
+        const server = createServer();
+        server.once("error", reject);
+        server.listen(0, "127.0.0.1", () => {
+            const { port } = server.address() as { port: number };
+            server.close(() => resolve(port));
+        });
+    });
+}
+
+// The server's environment: everything pointed at the mock, state files in a throwaway directory, and rate
+// limits high enough that the suite never waits on them
+function serverEnv(mock: MockLifi, dir: string, env: ServerOptions["env"] = {}) {
+    const merged: { [name: string]: string | undefined } = {
+        PATH: process.env.PATH,
+        HOME: dir,
+        LIFI_API_URL: mock.apiUrl,
+        LIFI_INTEGRATOR: "helixbox-mcp",
+        LIFI_FEE: "0.0025",
+        RPC_URLS_1: mock.rpcUrl(1),
+        RPC_URLS_42161: mock.rpcUrl(42161),
+        RPC_HEALTH_CHECK_INTERVAL_MS: "3600000",
+        CACHE_SNAPSHOT_FILE: join(dir, "reference-cache.json"),
+        TRACKER_FILE: join(dir, "transfers.json"),
+        UPSTREAM_RATE_LIMIT: "1000",
+        SESSION_RATE_LIMIT: "1000",
+        UPSTREAM_MAX_WAIT_MS: "1000",
+        SHUTDOWN_TIMEOUT_MS: "1000",
+        LOG_LEVEL: "error",
+        ...env,
+    };
+    return Object.fromEntries(Object.entries(merged).filter(([, value]) => value !== undefined)) as { [name: string]: string };
+}
+
+function run(args: string[], env: { [name: string]: string }) {
+    return new Promise<{ code: number | null, stdout: string, stderr: string }>((resolve, reject) => {
+        const child = spawn(process.execPath, ["--import", "tsx", entry, ...args], { cwd: root, env });
+        let stdout = "";
+        let stderr = "";
+        child.stdout.on("data", (chunk) => stdout += chunk);
+        child.stderr.on("data", (chunk) => stderr += chunk);
+        child.on("error", reject);
+        child.on("close", (code) => resolve({ code, stdout, stderr }));
+    });
+}
+
+// Run the server as a separate process against the mock, the way it is deployed. HTTP clients connect to the
+// running server, stdio clients and one-shot subcommands start their own process with the same environment.
+export async function startServer({ mock, env, args = [] }: ServerOptions) {
+    const dir = await mkdtemp(join(tmpdir(), "helixbox-mcp-test-"));
+    const environment = serverEnv(mock, dir, env);
+    const port = await freePort();
+    const url = `http://127.0.0.1:${port}`;
+
+    const child: ChildProcess = spawn(process.execPath, ["--import", "tsx", entry, "--transport", "http", "--port", String(port), ...args], {
+        cwd: root,
+        env: environment,
+        stdio: ["ignore", "ignore", "pipe"],
+    });
+    let stderr = "";
+    child.stderr!.on("data", (chunk) => stderr += chunk);
+    const exited = new Promise<never>((_, reject) => child.once("exit", (code) => reject(new Error(`Server exited with ${code}:\n${stderr.slice(-2000)}`))));
+    exited.catch(() => {});
+
+    const ready = async () => {
+        for (const deadline = Date.now() + 60_000; Date.now() < deadline;) {
+            const res = await fetch(`${url}/readyz`).catch(() => undefined);
+            if (res?.ok) return;
+            await new Promise((resolve) => setTimeout(resolve, 200));
+        }
+        throw new Error(`Server not ready after 60s:\n${stderr.slice(-2000)}`);
+    };
+    try {
+        await Promise.race([ready(), exited]);
+    } catch (error) {
+        child.kill("SIGKILL");
+        await rm(dir, { recursive: true, force: true });
+        throw error;
+    }
+
+    const clients: Client[] = [];
+    const stdioExits: Promise<unknown>[] = [];
+
+    return {
+        url,
+        dir,
+        stderr: () => stderr,
+
+        // An MCP client on the given transport, authenticated with the bearer token over HTTP; tools are listed
+        // first so that the client validates structured results against their output schemas
+        async connect(transport: ClientTransport = "streamable", token?: string) {
+            const client = new Client({ name: "helixbox-mcp-test", version: "0.0.1" });
+            const requestInit = token ? { headers: { authorization: `Bearer ${token}` } } : undefined;
+            switch (transport) {
+                case "streamable":
+                    await client.connect(new StreamableHTTPClientTransport(new URL(`${url}/mcp`), { requestInit }));
+                    break;
+                case "sse":
+                    await client.connect(new SSEClientTransport(new URL(`${url}/sse`), {
+                        requestInit,
+                        // The SSE stream is opened with eventSourceInit, which does not take requestInit's headers
+                        eventSourceInit: token ? { fetch: (input, init) => fetch(input, { ...init, headers: { ...init?.headers, authorization: `Bearer ${token}` } }) } : undefined,
+                    }));
+                    break;
+                case "stdio": {
+                    const stdio = new StdioClientTransport({
+                        command: process.execPath,
+                        args: ["--import", "tsx", entry, "--transport", "stdio", ...args],
+                        cwd: root,
+                        env: environment,
+                        stderr: "pipe",
+                    });
+                    // stderr ends once the process exited, after it saved its state into the test directory
+                    stdioExits.push(new Promise((resolve) => (stdio.stderr as Readable).once("end", resolve).resume()));
+                    await client.connect(stdio);
+                    break;
+                }
+            }
+            await client.listTools();
+            clients.push(client);
+            return client;
+        },
+
+        // One-shot `call` subcommand, which runs the tool over the in-memory transport
+        async call(tool: string, toolArgs: object = {}, env: { [name: string]: string } = {}) {
+            const { code, stdout, stderr } = await run(["call", tool, JSON.stringify(toolArgs), ...args], { ...environment, ...env });
+            let result: any;
+            try {
+                result = JSON.parse(stdout);
+            } catch {
+                throw new Error(`call ${tool} printed no JSON (exit ${code}):\n${stdout}\n${stderr.slice(-2000)}`);
+            }
+            return { code, result, stderr };
+        },
+
+        async stop() {
+            await Promise.all(clients.map((client) => client.close().catch(() => {})));
+            await Promise.race([Promise.all(stdioExits), new Promise((resolve) => setTimeout(resolve, 5_000))]);
+            if (child.exitCode === null) {
+                const closed = new Promise((resolve) => child.once("exit", resolve));
+                child.kill("SIGTERM");
+                await Promise.race([closed, new Promise((resolve) => setTimeout(resolve, 5_000))]);
+                if (child.exitCode === null) child.kill("SIGKILL");
+            }
+            await rm(dir, { recursive: true, force: true });
+        },
+    };
+}
+
+export type TestServer = Awaited<ReturnType<typeof startServer>>;
+
+// A tool call's outcome; text is the first text content
+export async function callTool(client: Client, name: string, args: { [key: string]: unknown } = {}) {
+    const result = await client.callTool({ name, arguments: args });
+    const content = result.content as { type: string, text?: string }[];
+    return { isError: result.isError === true, structured: result.structuredContent as any, text: content[0]?.text ?? "" };
+}
@@ -0,0 +1,377 @@
+import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
+import { readFileSync } from "node:fs";
+import type { AddressInfo } from "node:net";
+import { decodeFunctionData, encodeErrorResult, encodeFunctionResult, erc20Abi, keccak256, multicall3Abi, parseAbi, parseTransaction, toHex, type Hex } from "viem";
+
+// Recorded LI.FI responses and chain state, see fixtures/
+export function loadFixture<T = any>(name: string): T {
+    return JSON.parse(readFileSync(new URL(`./fixtures/${name}.json`, import.meta.url), "utf8"));
+}
+
+export interface RecordedRequest {
+    method: string;
+    path: string;
+    query: URLSearchParams;
+    headers: IncomingMessage["headers"];
+    body?: any;
+}
+
+export interface MockResponse {
+    status?: number;
+    headers?: { [name: string]: string };
+    // JSON body; for JSON-RPC overrides the fields merged into the response, e.g. { error: { code, message } }
+    body?: unknown;
+}
+
+interface RpcState {
+    blockNumber: Hex;
+    baseFeePerGas: Hex;
+    maxPriorityFeePerGas: Hex;
+    gasPrice: Hex;
+    gasEstimate: Hex;
+    nonce: Hex;
+    // chain ID -> owner -> token -> amount
+    balances: { [chainId: string]: { [owner: string]: { [token: string]: string } } };
+    // chain ID -> owner -> token -> spender -> amount
+    allowances: { [chainId: string]: { [owner: string]: { [token: string]: { [spender: string]: string } } } };
+    // Contracts whose calls revert, with the reason
+    reverts: { [address: string]: string };
+}
+
+const nativeToken = "0x0000000000000000000000000000000000000000";
+const getEthBalanceAbi = parseAbi(["function getEthBalance(address addr) view returns (uint256 balance)"]);
+const callAbi = [...erc20Abi, ...multicall3Abi, ...getEthBalanceAbi];
+
+// LI.FI API error body, as li.quest sends it
+const apiError = (status: number, code: number, message: string): MockResponse => ({ status, body: { message, code } });
+
+class RpcError extends Error {
+    constructor(public code: number, message: string, public data?: Hex) {
+        super(message);
+    }
+}
+
+function readBody(req: IncomingMessage) {
+    return new Promise<any>((resolve, reject) => {
+        let body = "";
+        req.on("data", (chunk) => body += chunk);
+        req.on("end", () => {
+            try {
+                resolve(body ? JSON.parse(body) : undefined);
+            } catch (error) {
+                reject(error);
+            }
+        });
+        req.on("error", reject);
+    });
+}
+
+const sameAddress = (a?: string, b?: string) => !!a && !!b && a.toLowerCase() === b.toLowerCase();
+
+// Local stand-in for li.quest and the chains' RPC endpoints, served from the fixtures: the LI.FI API on /v1
+// and JSON-RPC per chain on /rpc/<chainId>. Every request is recorded, and any endpoint can be made to fail.
+export async function startMockLifi() {
+    const chains = loadFixture("chains").chains as any[];
+    const tokens = loadFixture("tokens").tokens as { [chainId: string]: any[] };
+    const quote = loadFixture("quote");
+    const routes = loadFixture("routes");
+    const rpc = loadFixture<RpcState>("rpc");
+
+    const requests: RecordedRequest[] = [];
+    // Raw transactions sent through eth_sendRawTransaction by hash; they are mined right away
+    const sent = new Map<string, { chainId: string, raw: Hex }>();
+    // Keyed by "GET /v1/quote" or "rpc eth_call"
+    const overrides = new Map<string, { response: MockResponse, times: number }>();
+
+    const takeOverride = (key: string) => {
+        const override = overrides.get(key);
+        if (!override) return undefined;
+        if (--override.times <= 0) overrides.delete(key);
+        return override.response;
+    };
+
+    const findChain = (input: string | null) => chains.find((chain) => String(chain.id) === input || chain.key === input?.toLowerCase());
+
+    const findToken = (chainId: number, input: string) => (tokens[chainId] ?? [])
+        .find((token) => sameAddress(token.address, input) || token.symbol.toLowerCase() === input.toLowerCase());
+
+    // The fixtures hold one quote and its routes, for the pair they were recorded for
+    const isQuotedPair = (fromChain: unknown, fromToken: unknown, toChain: unknown, toToken: unknown) => {
+        const from = findChain(String(fromChain));
+        const to = findChain(String(toChain));
+        return from?.id === quote.action.fromChainId && to?.id === quote.action.toChainId
+            && (sameAddress(String(fromToken), quote.action.fromToken.address) || String(fromToken) === quote.action.fromToken.symbol)
+            && (sameAddress(String(toToken), quote.action.toToken.address) || String(toToken) === quote.action.toToken.symbol);
+    };
+
+    const lifi = (method: string, path: string, query: URLSearchParams, body: any): MockResponse => {
+        if (method === "GET" && path === "/v1/chains") {
+            const types = query.get("chainTypes")?.split(",");
+            return { body: { chains: chains.filter((chain) => !types || types.includes(chain.chainType)) } };
+        }
+        if (method === "GET" && path === "/v1/tokens") {
+            const ids = query.get("chains")?.split(",") ?? Object.keys(tokens);
+            return { body: { tokens: Object.fromEntries(ids.filter((id) => tokens[id]).map((id) => [id, tokens[id]])) } };
+        }
+        if (method === "GET" && path === "/v1/token") {
+            const chain = findChain(query.get("chain"));
+            const token = chain && findToken(chain.id, query.get("token") ?? "");
+            return token ? { body: token } : apiError(404, 1003, `Could not find token ${query.get("token")} on chain ${query.get("chain")}`);
+        }
+        if (method === "GET" && path === "/v1/tools") {
+            return { body: loadFixture("tools") };
+        }
+        if (method === "GET" && path === "/v1/connections") {
+            const fromChain = query.get("fromChain");
+            return { body: { connections: loadFixture("connections").connections.filter((connection: any) => !fromChain || String(connection.fromChainId) === fromChain) } };
+        }
+        if (method === "GET" && (path === "/v1/quote" || path === "/v1/quote/toAmount")) {
+            const amount = path === "/v1/quote" ? "fromAmount" : "toAmount";
+            const missing = ["fromChain", "toChain", "fromToken", "toToken", amount, "fromAddress"].filter((name) => !query.get(name));
+            if (missing.length > 0) {
+                return apiError(400, 1011, `Missing parameters: ${missing.join(", ")}`);
+            }
+            if (!isQuotedPair(query.get("fromChain"), query.get("fromToken"), query.get("toChain"), query.get("toToken"))) {
+                return apiError(404, 1002, "No available quotes for the requested transfer");
+            }
+            return { body: quote };
+        }
+        if (method === "POST" && path === "/v1/advanced/routes") {
+            if (!isQuotedPair(body?.fromChainId, body?.fromTokenAddress, body?.toChainId, body?.toTokenAddress)) {
+                const overallPath = `${body?.fromChainId}:${body?.fromTokenAddress}-${body?.toChainId}:${body?.toTokenAddress}`;
+                return {
+                    body: {
+                        routes: [],
+                        unavailableRoutes: {
+                            filteredOut: [],
+                            failed: [{ overallPath, subpaths: { [overallPath]: [{ errorType: "NO_QUOTE", code: "INSUFFICIENT_LIQUIDITY", tool: "stargateV2", message: "There is not enough liquidity" }] } }],
+                        },
+                    },
+                };
+            }
+            return { body: routes };
+        }
+        if (method === "POST" && path === "/v1/advanced/stepTransaction") {
+            return { body: { ...body, transactionRequest: quote.transactionRequest } };
+        }
+        if (method === "GET" && path === "/v1/status") {
+            const status = loadFixture("status");
+            const txHash = query.get("txHash") ?? "";
+            // A transaction sent to the mock RPC completes like the recorded one
+            if (sent.has(txHash.toLowerCase())) {
+                return { body: { ...status, sending: { ...status.sending, txHash } } };
+            }
+            return { body: sameAddress(txHash, status.sending.txHash) ? status : { status: "NOT_FOUND" } };
+        }
+        if (method === "GET" && path === "/v1/gas/prices") {
+            return { body: loadFixture("gas-prices") };
+        }
+        const gasPrice = path.match(/^\/v1\/gas\/prices\/(\d+)$/);
+        if (method === "GET" && gasPrice) {
+            const price = loadFixture("gas-prices")[gasPrice[1]];
+            return price ? { body: price } : apiError(400, 1011, `Chain ${gasPrice[1]} is not supported`);
+        }
+        // OTLP/HTTP collector the server exports its spans to
+        if (method === "POST" && path === "/otlp/v1/traces") {
+            return { body: {} };
+        }
+        const integrator = path.match(/^\/v1\/integrators\/([^/]+)$/);
+        if (method === "GET" && integrator) {
+            return { body: { ...loadFixture<object>("integrator"), integratorId: decodeURIComponent(integrator[1]) } };
+        }
+        return apiError(404, 1003, `Not found: ${method} ${path}`);
+    };
+
+    // eth_call against the fixture state: ERC-20 balanceOf / allowance, Multicall3 aggregate3 and getEthBalance
+    const ethCall = (chainId: string, to: string, data: Hex): Hex => {
+        const reason = Object.entries(rpc.reverts).find(([address]) => sameAddress(address, to))?.[1];
+        if (reason) {
+            throw new RpcError(3, `execution reverted: ${reason}`, encodeErrorResult({ abi: parseAbi(["error Error(string)"]), errorName: "Error", args: [reason] }));
+        }
+        let call;
+        try {
+            call = decodeFunctionData({ abi: callAbi, data });
+        } catch {
+            // Any other contract call, e.g. a LI.FI diamond transaction, succeeds without return data
+            return "0x";
+        }
+        const balances = rpc.balances[chainId] ?? {};
+        const balanceOf = (owner: string, token: string) => BigInt(balances[owner.toLowerCase()]?.[token.toLowerCase()] ?? 0);
+        switch (call.functionName) {
+            case "balanceOf":
+                return encodeFunctionResult({ abi: erc20Abi, functionName: "balanceOf", result: balanceOf(call.args[0], to) });
+            case "getEthBalance":
+                return encodeFunctionResult({ abi: getEthBalanceAbi, functionName: "getEthBalance", result: balanceOf(call.args[0], nativeToken) });
+            case "allowance": {
+                const [owner, spender] = call.args;
+                const allowance = rpc.allowances[chainId]?.[owner.toLowerCase()]?.[to.toLowerCase()]?.[spender.toLowerCase()] ?? "0";
+                return encodeFunctionResult({ abi: erc20Abi, functionName: "allowance", result: BigInt(allowance) });
+            }
+            case "aggregate3": {
+                const results = call.args[0].map((inner) => {
+                    try {
+                        return { success: true, returnData: ethCall(chainId, inner.target, inner.callData) };
+                    } catch {
+                        return { success: false, returnData: "0x" as Hex };
+                    }
+                });
+                return encodeFunctionResult({ abi: multicall3Abi, functionName: "aggregate3", result: results });
+            }
+            default:
+                return "0x";
+        }
+    };
+
+    // Block every sent transaction is mined in, the latest one
+    const minedIn = { blockHash: `0x${"ab".repeat(32)}`, blockNumber: rpc.blockNumber, transactionIndex: "0x0" };
+
+    const rpcResult = (chainId: string, method: string, params: any[]): unknown => {
+        switch (method) {
+            case "eth_chainId":
+                return toHex(Number(chainId));
+            case "eth_blockNumber":
+                return rpc.blockNumber;
+            case "eth_getBalance":
+                return toHex(BigInt(rpc.balances[chainId]?.[params[0].toLowerCase()]?.[nativeToken] ?? 0));
+            case "eth_call":
+                return ethCall(chainId, params[0].to, params[0].data ?? params[0].input);
+            case "eth_estimateGas": {
+                ethCall(chainId, params[0].to, params[0].data ?? params[0].input ?? "0x");
+                return rpc.gasEstimate;
+            }
+            case "eth_gasPrice":
+                return rpc.gasPrice;
+            case "eth_maxPriorityFeePerGas":
+                return rpc.maxPriorityFeePerGas;
+            case "eth_getTransactionCount":
+                return rpc.nonce;
+            case "eth_sendRawTransaction": {
+                const hash = keccak256(params[0]);
+                sent.set(hash, { chainId, raw: params[0] });
+                return hash;
+            }
+            case "eth_getTransactionByHash": {
+                const transaction = sent.get(params[0].toLowerCase());
+                if (!transaction) return null;
+                const { to, nonce, value, data, gas, maxFeePerGas, maxPriorityFeePerGas, type } = parseTransaction(transaction.raw);
+                return {
+                    hash: params[0],
+                    ...minedIn,
+                    to: to ?? null,
+                    nonce: toHex(nonce ?? 0),
+                    value: toHex(value ?? 0n),
+                    input: data ?? "0x",
+                    gas: toHex(gas ?? 0n),
+                    maxFeePerGas: maxFeePerGas === undefined ? undefined : toHex(maxFeePerGas),
+                    maxPriorityFeePerGas: maxPriorityFeePerGas === undefined ? undefined : toHex(maxPriorityFeePerGas),
+                    type: type === "eip1559" ? "0x2" : "0x0",
+                    chainId: toHex(Number(chainId)),
+                };
+            }
+            case "eth_getTransactionReceipt": {
+                const transaction = sent.get(params[0].toLowerCase());
+                if (!transaction) return null;
+                const { to, type } = parseTransaction(transaction.raw);
+                return {
+                    transactionHash: params[0],
+                    ...minedIn,
+                    to: to ?? null,
+                    contractAddress: null,
+                    cumulativeGasUsed: rpc.gasEstimate,
+                    gasUsed: rpc.gasEstimate,
+                    effectiveGasPrice: rpc.gasPrice,
+                    logs: [],
+                    logsBloom: `0x${"0".repeat(512)}`,
+                    status: "0x1",
+                    type: type === "eip1559" ? "0x2" : "0x0",
+                };
+            }
+            case "eth_getBlockByNumber":
+                return {
+                    number: rpc.blockNumber,
+                    hash: `0x${"ab".repeat(32)}`,
+                    parentHash: `0x${"cd".repeat(32)}`,
+                    timestamp: toHex(1760868000),
+                    baseFeePerGas: rpc.baseFeePerGas,
+                    gasLimit: toHex(30_000_000),
+                    gasUsed: toHex(15_000_000),
+                    transactions: [],
+                };
+            default:
+                // Not a fork: evm_snapshot and the anvil methods are unknown, as on a regular node
+                throw new RpcError(-32601, `the method ${method} does not exist/is not available`);
+        }
+    };
+
+    const jsonRpc = (chainId: string, request: any) => {
+        const override = takeOverride(`rpc ${request.method}`);
+        if (override) {
+            return { jsonrpc: "2.0", id: request.id, ...(override.body as object) };
+        }
+        try {
+            return { jsonrpc: "2.0", id: request.id, result: rpcResult(chainId, request.method, request.params ?? []) };
+        } catch (error: any) {
+            return { jsonrpc: "2.0", id: request.id, error: { code: error.code ?? -32603, message: error.message, data: error.data } };
+        }
+    };
+
+    const send = (res: ServerResponse, { status = 200, headers = {}, body }: MockResponse) => {
+        res.writeHead(status, { "content-type": "application/json", ...headers });
+        res.end(JSON.stringify(body ?? {}));
+    };
+
+    const server = createServer(async (req, res) => {
+        const url = new URL(req.url ?? "/", "http://localhost");
+        const body = await readBody(req).catch(() => undefined);
+        requests.push({ method: req.method ?? "GET", path: url.pathname, query: url.searchParams, headers: req.headers, body });
+
+        const rpcChain = url.pathname.match(/^\/rpc\/(\d+)$/)?.[1];
+        if (rpcChain) {
+            const override = takeOverride(`rpc ${Array.isArray(body) ? body[0]?.method : body?.method}`);
+            if (override?.status && override.status !== 200) {
+                send(res, override);
+                return;
+            }
+            const handle = (request: any) => override ? { jsonrpc: "2.0", id: request.id, ...(override.body as object) } : jsonRpc(rpcChain, request);
+            send(res, { body: Array.isArray(body) ? body.map(handle) : handle(body) });
+            return;
+        }
+        send(res, takeOverride(`${req.method} ${url.pathname}`) ?? lifi(req.method ?? "GET", url.pathname, url.searchParams, body));
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    return {
+        url,
+        apiUrl: `${url}/v1`,
+        rpcUrl: (chainId: number) => `${url}/rpc/${chainId}`,
+
+        // Requests received so far, optionally only those to one path, e.g. "/v1/quote"
+        requests(path?: string) {
+            return requests.filter((request) => !path || request.path === path);
+        },
+
+        // Answer the next requests to an endpoint ("GET /v1/quote") or JSON-RPC method ("rpc eth_call") with
+        // the given response instead of the fixtures
+        override(key: string, response: MockResponse, times = 1) {
+            overrides.set(key, { response, times });
+        },
+
+        // Raw transactions sent to the mock RPC
+        sentTransactions() {
+            return [...sent.values()];
+        },
+
+        reset() {
+            requests.length = 0;
+            overrides.clear();
+        },
+
+        close() {
+            server.closeAllConnections();
+            return new Promise<void>((resolve) => server.close(() => resolve()));
+        },
+    };
+}
+
+export type MockLifi = Awaited<ReturnType<typeof startMockLifi>>;
@@ -0,0 +1,115 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { startMockLifi, type MockLifi } from "./mockLifi.js";
+import { callTool, startServer, type TestServer } from "./harness.js";
+
+// Health endpoints, Prometheus metrics, structured logs and OTLP spans of a server handling tool calls
+
+let mock: MockLifi;
+let server: TestServer;
+let client: Client;
+
+before(async () => {
+    mock = await startMockLifi();
+    server = await startServer({
+        mock,
+        env: {
+            LOG_LEVEL: "info",
+            OTEL_EXPORTER_OTLP_ENDPOINT: `${mock.url}/otlp`,
+            OTEL_EXPORTER_OTLP_HEADERS: "x-collector-token=secret",
+            OTEL_SERVICE_NAME: "helixbox-mcp-test",
+        },
+    });
+    client = await server.connect("streamable");
+    assert.equal((await callTool(client, "chains")).isError, false);
+    // A gas price of the wrong type fails the output schema, which the client receives as an upstream_error
+    mock.override("GET /v1/gas/prices/1", { body: { standard: "12 gwei" } });
+    const invalid = await callTool(client, "gas-price", { chainId: 1 });
+    assert.equal(invalid.isError, true);
+    assert.equal(JSON.parse(invalid.text).error.code, "upstream_error");
+});
+
+after(async () => {
+    await server?.stop();
+    await mock?.close();
+});
+
+// JSON log lines the server wrote to stderr
+const logLines = () => server.stderr().split("\n").filter((line) => line.startsWith("{")).map((line) => JSON.parse(line));
+
+describe("health endpoints", () => {
+    it("reports liveness", async () => {
+        const res = await fetch(`${server.url}/healthz`);
+        assert.equal(res.status, 200);
+        assert.deepEqual(await res.json(), { status: "ok" });
+    });
+
+    it("reports readiness with the chain data and session admission", async () => {
+        const res = await fetch(`${server.url}/readyz`);
+        assert.equal(res.status, 200);
+        assert.deepEqual(await res.json(), { status: "ready", chains: "fresh", sessions: "accepting" });
+    });
+});
+
+describe("metrics", () => {
+    let body: string;
+
+    before(async () => {
+        const res = await fetch(`${server.url}/metrics`);
+        assert.equal(res.status, 200);
+        assert.match(res.headers.get("content-type") ?? "", /^text\/plain;.*version=0\.0\.4/);
+        body = await res.text();
+    });
+
+    it("counts tool calls by tool and outcome, a schema-invalid result as an error", () => {
+        assert.match(body, /^# TYPE mcp_tool_calls_total counter$/m);
+        assert.match(body, /^mcp_tool_calls_total\{tool="chains",outcome="success"\} 1$/m);
+        assert.match(body, /^mcp_tool_calls_total\{tool="gas-price",outcome="error"\} 1$/m);
+        assert.match(body, /^mcp_tool_errors_total\{tool="gas-price",code="upstream_error"\} 1$/m);
+        assert.doesNotMatch(body, /tool="gas-price",outcome="success"/);
+    });
+
+    it("records call durations and LI.FI requests", () => {
+        assert.match(body, /^mcp_tool_call_duration_seconds_count\{tool="chains"\} 1$/m);
+        assert.match(body, /^mcp_tool_call_duration_seconds_bucket\{tool="chains",le="\+Inf"\} 1$/m);
+        assert.match(body, /^lifi_requests_total\{operation="\S+",outcome="success"\} \d+$/m);
+        assert.match(body, /^mcp_active_sessions\{transport="streamable"\} 1$/m);
+    });
+});
+
+describe("structured logs", () => {
+    it("logs each tool call as a JSON line with its trace", () => {
+        const lines = logLines();
+        const call = lines.find((line) => line.msg === "Tool call" && line.tool === "chains");
+        assert.ok(call, "no Tool call line for chains");
+        assert.equal(call.level, "info");
+        assert.equal(typeof call.sessionId, "string");
+        assert.equal(typeof call.durationMs, "number");
+        assert.match(call.traceId, /^[\da-f]{32}$/);
+
+        const failed = lines.find((line) => line.msg === "Tool call failed" && line.tool === "gas-price");
+        assert.ok(failed, "no Tool call failed line for gas-price");
+        assert.equal(failed.level, "warn");
+        assert.equal(failed.errorCode, "upstream_error");
+        assert.match(failed.error, /Unexpected response shape/);
+    });
+});
+
+describe("OTLP export", () => {
+    it("exports the tool call spans when the server stops", async () => {
+        await server.stop();
+        const exports = mock.requests("/otlp/v1/traces");
+        assert.ok(exports.length > 0, "no spans exported");
+        assert.equal(exports[0].headers["x-collector-token"], "secret");
+        const resourceSpans = exports.flatMap((request) => request.body.resourceSpans);
+        assert.deepEqual(resourceSpans[0].resource.attributes, [{ key: "service.name", value: { stringValue: "helixbox-mcp-test" } }]);
+        const spans = resourceSpans.flatMap((resource: any) => resource.scopeSpans.flatMap((scope: any) => scope.spans));
+        const chains = spans.find((span: any) => span.name === "tool chains");
+        assert.equal(chains.kind, 2);
+        assert.equal(chains.status.code, 0);
+        const gasPrice = spans.find((span: any) => span.name === "tool gas-price");
+        assert.equal(gasPrice.status.code, 2);
+        assert.ok(gasPrice.attributes.some((attribute: any) => attribute.key === "error.type" && attribute.value.stringValue === "upstream_error"));
+    });
+});
@@ -0,0 +1,144 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { LiFiStep, Token } from "@lifi/sdk";
+import { ToolError } from "../errors.js";
+import { createLifiProvider, createZeroExProvider, getBestQuotes, type NormalizedQuoteRequest, type QuoteProvider } from "../quoteProviders.js";
+import { loadFixture } from "./mockLifi.js";
+
+// The 0x adapter against recorded Swap API v2 responses, served by an injected fetch
+
+const wallet = "0x8ba1f109551bD432803012645Ac136ddd64DBA72";
+const [eth, usdc, usdt] = loadFixture("tokens").tokens["1"] as Token[];
+
+const request: NormalizedQuoteRequest = {
+    fromChain: 1,
+    toChain: 1,
+    fromToken: usdc,
+    toToken: usdt,
+    fromAmount: "1000000000",
+    fromAddress: wallet,
+    slippage: 0.005,
+};
+
+// A fetch answering every request with the given response, recording the requests
+function mockFetch(status: number, body: unknown) {
+    const requests: { url: URL, headers: Headers }[] = [];
+    const fetch = async (input: string | URL | Request, init?: RequestInit) => {
+        requests.push({ url: new URL(input.toString()), headers: new Headers(init?.headers) });
+        return new Response(typeof body === "string" ? body : JSON.stringify(body), { status, headers: { "content-type": "application/json" } });
+    };
+    return { fetch: fetch as typeof globalThis.fetch, requests };
+}
+
+describe("0x quote provider", () => {
+    it("sends the allowance-holder quote request", async () => {
+        const { fetch, requests } = mockFetch(200, loadFixture("zeroex-quote"));
+        await createZeroExProvider({ apiKey: "zeroex-key", baseUrl: "https://0x.test", fetch }).getQuote({ ...request, fromToken: eth });
+        const [{ url, headers }] = requests;
+        assert.equal(url.origin + url.pathname, "https://0x.test/swap/allowance-holder/quote");
+        assert.deepEqual(Object.fromEntries(url.searchParams), {
+            chainId: "1",
+            // 0x has its own placeholder for the native token
+            sellToken: "0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE",
+            buyToken: usdt.address,
+            sellAmount: "1000000000",
+            taker: wallet,
+            slippageBps: "50",
+        });
+        assert.equal(headers.get("0x-api-key"), "zeroex-key");
+        assert.equal(headers.get("0x-version"), "v2");
+    });
+
+    it("maps the 0x quote onto the common quote shape", async () => {
+        const { fetch } = mockFetch(200, loadFixture("zeroex-quote"));
+        const quote = await createZeroExProvider({ apiKey: "zeroex-key", fetch }).getQuote(request);
+        assert.deepEqual(quote, {
+            provider: "0x",
+            tool: "Uniswap_V3+Curve",
+            fromChain: 1,
+            toChain: 1,
+            fromToken: usdc.address,
+            toToken: usdt.address,
+            fromAmount: { raw: "1000000000", formatted: "1000", symbol: "USDC" },
+            toAmount: { raw: "997215000", formatted: "997.215", symbol: "USDT" },
+            toAmountMin: { raw: "992228925", formatted: "992.228925", symbol: "USDT" },
+            approvalAddress: "0x0000000000001fF3684f28c67538d4D072C22734",
+            transactionRequest: {
+                to: "0x0000000000001fF3684f28c67538d4D072C22734",
+                data: "0x2213bc0b0000000000000000000000000000000000000000000000000000000000000000",
+                value: "0",
+                gasLimit: "288079",
+            },
+        });
+    });
+
+    it("fails with insufficient_liquidity when 0x has no route", async () => {
+        const { fetch } = mockFetch(200, loadFixture("zeroex-no-liquidity"));
+        await assert.rejects(createZeroExProvider({ apiKey: "zeroex-key", fetch }).getQuote(request), (error) => {
+            assert.ok(error instanceof ToolError);
+            assert.equal(error.code, "insufficient_liquidity");
+            return true;
+        });
+    });
+
+    it("fails with the status and body of an HTTP error", async () => {
+        const { fetch } = mockFetch(400, { name: "TOKEN_NOT_SUPPORTED", message: "Token is not supported" });
+        await assert.rejects(createZeroExProvider({ apiKey: "zeroex-key", fetch }).getQuote(request), /HTTP 400: .*TOKEN_NOT_SUPPORTED/);
+    });
+
+    it("supports same-chain swaps received by the taker only", () => {
+        const provider = createZeroExProvider({ apiKey: "zeroex-key", fetch: mockFetch(200, {}).fetch });
+        assert.equal(provider.supports(request), true);
+        assert.equal(provider.supports({ ...request, toAddress: wallet.toLowerCase() }), true);
+        assert.equal(provider.supports({ ...request, toChain: 42161 }), false);
+        assert.equal(provider.supports({ ...request, toAddress: "0x000000000000000000000000000000000000bEEF" }), false);
+    });
+});
+
+describe("getBestQuotes", () => {
+    it("ranks quotes by output and reports failing providers", async () => {
+        const zeroEx = createZeroExProvider({ apiKey: "zeroex-key", fetch: mockFetch(200, loadFixture("zeroex-quote")).fetch });
+        const failing: QuoteProvider = {
+            name: "failing",
+            supports: () => true,
+            getQuote: async () => { throw new Error("unavailable"); },
+        };
+        const better: QuoteProvider = {
+            name: "better",
+            supports: () => true,
+            getQuote: async (request) => ({ ...await zeroEx.getQuote(request), provider: "better", toAmount: { raw: "998000000", formatted: "998", symbol: "USDT" } }),
+        };
+        const { quotes, errors } = await getBestQuotes([zeroEx, failing, better], request);
+        assert.deepEqual(quotes.map((quote) => quote.provider), ["better", "0x"]);
+        assert.deepEqual(errors, [{ provider: "failing", error: "unavailable" }]);
+    });
+
+    it("passes the call's context to the LI.FI fetch", async () => {
+        const contexts: unknown[] = [];
+        const lifi = createLifiProvider(undefined, async (_, context) => {
+            contexts.push(context);
+            return loadFixture<LiFiStep>("quote");
+        });
+        const { quotes } = await getBestQuotes([lifi], request, { sessionId: "session-1", clientId: "alice", fee: 0.001 });
+        assert.equal(quotes[0].provider, "LI.FI");
+        assert.deepEqual(contexts, [{ sessionId: "session-1", clientId: "alice", fee: 0.001 }]);
+    });
+
+    it("charges each client's integrator fee on 0x swaps", async () => {
+        const { fetch, requests } = mockFetch(200, loadFixture("zeroex-quote"));
+        const zeroEx = createZeroExProvider({ apiKey: "zeroex-key", feeRecipient: wallet, fetch });
+        await getBestQuotes([zeroEx], request, { clientId: "alice", fee: 0.001 });
+        await getBestQuotes([zeroEx], request, { clientId: "bob", fee: 0.0025 });
+        await getBestQuotes([zeroEx], request, {});
+        const feeParams = requests.map(({ url }) => ["swapFeeRecipient", "swapFeeBps", "swapFeeToken"].map((name) => url.searchParams.get(name)));
+        assert.deepEqual(feeParams, [[wallet, "10", usdc.address], [wallet, "25", usdc.address], [null, null, null]]);
+    });
+
+    it("leaves 0x out rather than quoting it without the integrator fee", async () => {
+        const { fetch, requests } = mockFetch(200, loadFixture("zeroex-quote"));
+        const { quotes, errors } = await getBestQuotes([createZeroExProvider({ apiKey: "zeroex-key", fetch })], request, { fee: 0.0025 });
+        assert.deepEqual(quotes, []);
+        assert.deepEqual(errors, [{ provider: "0x", error: "Cannot charge the integrator fee without ZEROEX_FEE_RECIPIENT" }]);
+        assert.equal(requests.length, 0);
+    });
+});
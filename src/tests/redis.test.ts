@@ -0,0 +1,119 @@
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createRedisClient, RedisError, type RedisClient } from "../redis.js";
+import { resp, startFakeRedis, type FakeRedis } from "./fakeRedis.js";
+
+// The RESP2 client against an in-process fake server: command encoding, reply decoding, pipelining and reconnects
+
+let redis: FakeRedis;
+let client: RedisClient;
+
+before(async () => {
+    redis = await startFakeRedis();
+    client = createRedisClient(redis.url, { timeoutMs: 500 });
+});
+
+after(async () => {
+    await client?.quit();
+    await redis?.close();
+});
+
+beforeEach(() => redis.values.clear());
+
+describe("Redis client", () => {
+    it("sends commands as arrays of bulk strings", async () => {
+        await client.command("SET", "naïve key", "value with\r\nnewline", "PX", 1500);
+        assert.deepEqual(redis.commands("SET").at(-1)?.args, ["SET", "naïve key", "value with\r\nnewline", "PX", "1500"]);
+        assert.equal(await client.command("GET", "naïve key"), "value with\r\nnewline");
+    });
+
+    it("decodes simple, integer, bulk and nil replies", async () => {
+        assert.equal(await client.command("SET", "key", "1"), "OK");
+        assert.equal(await client.command("INCR", "key"), 2);
+        assert.equal(await client.command("GET", "key"), "2");
+        assert.equal(await client.command("GET", "missing"), null);
+        redis.override("GET", resp.bulk(""));
+        assert.equal(await client.command("GET", "key"), "");
+    });
+
+    it("decodes nested arrays with nil entries", async () => {
+        redis.override("LRANGE", resp.array([resp.bulk("a"), resp.integer(1), resp.bulk(null), resp.array([resp.simple("nested")]), resp.array(null)]));
+        assert.deepEqual(await client.command("LRANGE", "list", 0, -1), ["a", 1, null, ["nested"], null]);
+        redis.override("LRANGE", resp.array(null));
+        assert.equal(await client.command("LRANGE", "list", 0, -1), null);
+    });
+
+    it("rejects error replies with a RedisError and keeps the connection", async () => {
+        const connections = redis.connections;
+        await assert.rejects(client.command("NOPE"), (error) => {
+            assert.ok(error instanceof RedisError);
+            assert.equal(error.message, "ERR unknown command 'NOPE'");
+            return true;
+        });
+        assert.equal(await client.command("SET", "key", "value"), "OK");
+        assert.equal(redis.connections, connections);
+    });
+
+    it("matches pipelined replies to their commands in order", async () => {
+        await client.command("SET", "a", "1");
+        await client.command("SET", "b", "2");
+        const replies = await Promise.all([client.command("GET", "a"), client.command("INCR", "counter"), client.command("GET", "b"), client.command("GET", "c")]);
+        assert.deepEqual(replies, ["1", 1, "2", null]);
+    });
+
+    it("decodes replies split across reads", async () => {
+        const value = "x".repeat(256 * 1024);
+        await client.command("SET", "large", value);
+        assert.equal(await client.command("GET", "large"), value);
+    });
+
+    it("reconnects with the next command after the connection drops", async () => {
+        await client.command("SET", "key", "value");
+        const connections = redis.connections;
+        redis.override("GET", null);
+        const pending = client.command("GET", "key");
+        redis.disconnect();
+        await assert.rejects(pending, /Redis connection closed/);
+        assert.equal(await client.command("GET", "key"), "value");
+        assert.equal(redis.connections, connections + 1);
+    });
+
+    it("drops the connection when a command gets no reply in time", async () => {
+        const connections = redis.connections;
+        redis.override("GET", null);
+        await assert.rejects(client.command("GET", "key"), /Redis did not reply within 500ms/);
+        assert.equal(await client.command("GET", "key"), null);
+        assert.equal(redis.connections, connections + 1);
+    });
+
+    it("rejects URLs of other protocols", () => {
+        assert.throws(() => createRedisClient("http://127.0.0.1:6379"), /Unsupported Redis URL protocol http:/);
+    });
+});
+
+describe("Redis client connection setup", () => {
+    let secured: FakeRedis;
+
+    before(async () => {
+        secured = await startFakeRedis({ password: "s3cret/pass" });
+    });
+
+    after(async () => {
+        await secured?.close();
+    });
+
+    it("authenticates and selects the database of the URL", async () => {
+        const authenticated = createRedisClient(`redis://app:${encodeURIComponent("s3cret/pass")}@127.0.0.1:${secured.port}/2`);
+        try {
+            assert.equal(await authenticated.command("SET", "key", "value"), "OK");
+            assert.deepEqual(secured.commands().slice(0, 3).map(({ args }) => args), [["AUTH", "app", "s3cret/pass"], ["SELECT", "2"], ["SET", "key", "value"]]);
+        } finally {
+            await authenticated.quit();
+        }
+    });
+
+    it("fails the command when authentication fails", async () => {
+        const rejected = createRedisClient(`redis://:wrong@127.0.0.1:${secured.port}`);
+        await assert.rejects(rejected.command("GET", "key"), /WRONGPASS/);
+    });
+});
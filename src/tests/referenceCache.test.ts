@@ -0,0 +1,54 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createReferenceCache } from "../referenceCache.js";
+
+// Eviction and the snapshot of the reference cache; serving stale entries is covered through the tools
+
+let dir: string;
+
+before(async () => {
+    dir = await mkdtemp(join(tmpdir(), "helixbox-mcp-test-"));
+});
+
+after(async () => {
+    await rm(dir, { recursive: true, force: true });
+});
+
+const hour = 3_600_000;
+
+describe("reference cache", () => {
+    it("evicts the least recently used entries of a bounded kind", async () => {
+        const cache = createReferenceCache({ policies: { token: { ttlMs: hour, staleMs: hour, maxEntries: 2 }, chains: { ttlMs: hour, staleMs: hour } } });
+        await cache.get("chains", undefined, async () => []);
+        await cache.get("token", "a", async () => "A");
+        await cache.get("token", "b", async () => "B");
+        // A lookup makes "a" the most recently used
+        await cache.get("token", "a", async () => assert.fail("a is cached"));
+        await cache.get("token", "c", async () => "C");
+
+        assert.equal(cache.state("token", "b"), "missing");
+        assert.equal(cache.state("token", "a"), "fresh");
+        assert.equal(cache.state("token", "c"), "fresh");
+        // Other kinds do not count against the bound
+        assert.equal(cache.state("chains", undefined), "fresh");
+        assert.deepEqual(cache.stats().map(({ kind, entries }) => [kind, entries]), [["token", 2], ["chains", 1]]);
+    });
+
+    it("snapshots the persisted kinds only", async () => {
+        const snapshotFile = join(dir, "snapshot.json");
+        const policies = { chains: { ttlMs: hour, staleMs: hour, persist: true }, token: { ttlMs: hour, staleMs: hour, maxEntries: 10 } };
+        const cache = createReferenceCache({ policies, snapshotFile });
+        await cache.get("chains", undefined, async () => [{ id: 1 }]);
+        await cache.get("token", "1:usdc", async () => ({ symbol: "USDC" }));
+        await cache.save();
+        assert.deepEqual(Object.keys(JSON.parse(await readFile(snapshotFile, "utf8")).entries), ["chains"]);
+
+        const restored = createReferenceCache({ policies, snapshotFile });
+        await restored.load();
+        assert.deepEqual(await restored.get("chains", undefined, async () => assert.fail("chains are restored")), [{ id: 1 }]);
+        assert.equal(restored.state("token", "1:usdc"), "missing");
+    });
+});
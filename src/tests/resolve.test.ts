@@ -0,0 +1,46 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { ExtendedChain, Token } from "@lifi/sdk";
+import { ToolError } from "../errors.js";
+import { createInputResolver } from "../resolve.js";
+import { loadFixture } from "./mockLifi.js";
+
+// Chain lookup by ID, key and name; tokens and amounts are covered through the tools
+
+const chains = [
+    ...loadFixture("chains").chains,
+    { id: 42170, key: "arn", name: "Arbitrum Nova", chainType: "EVM" },
+    { id: 10, key: "opt", name: "Optimism", chainType: "EVM" },
+    { id: 204, key: "opb", name: "opBNB", chainType: "EVM" },
+] as ExtendedChain[];
+
+const resolver = createInputResolver({
+    getChains: async () => chains,
+    getChainTokens: async () => [] as Token[],
+    getToken: async () => assert.fail("no token lookups"),
+});
+
+describe("resolveChain", () => {
+    it("resolves IDs, keys and names exactly before name prefixes", async () => {
+        assert.equal((await resolver.resolveChain(42170)).name, "Arbitrum Nova");
+        assert.equal((await resolver.resolveChain("ARB")).id, 42161);
+        assert.equal((await resolver.resolveChain("arbitrum")).id, 42161);
+        assert.equal((await resolver.resolveChain("Arbitrum Nova")).id, 42170);
+        assert.equal((await resolver.resolveChain("optim")).id, 10);
+    });
+
+    it("rejects a name prefix matching several chains, listing them", async () => {
+        await assert.rejects(resolver.resolveChain("arbi"), (error) => {
+            assert.ok(error instanceof ToolError);
+            assert.equal(error.code, "invalid_input");
+            assert.equal(error.message, "Chain arbi is ambiguous, use one of: Arbitrum (42161, arb), Arbitrum Nova (42170, arn)");
+            return true;
+        });
+        await assert.rejects(resolver.resolveChain("op"), /Chain op is ambiguous, use one of: Optimism \(10, opt\), opBNB \(204, opb\)/);
+    });
+
+    it("fails with unsupported_chain for unknown chains", async () => {
+        await assert.rejects(resolver.resolveChain("fantom"), (error) => error instanceof ToolError && error.code === "unsupported_chain");
+        await assert.rejects(resolver.resolveChain(""), /Unknown chain/);
+    });
+});
@@ -0,0 +1,137 @@
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { z } from "zod";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+import { createRedisClient } from "../redis.js";
+import { createRedisBackend } from "../storeBackend.js";
+import { createSessionStore, restoreStreamableSession, type SessionRecord, type SessionStore } from "../sessionStore.js";
+import { startFakeRedis, type FakeRedis } from "./fakeRedis.js";
+
+// Session records and stream events in the Redis backend, and taking over a stored session on a fresh server
+
+const record: SessionRecord = {
+    id: "session-1",
+    clientId: "alice",
+    protocolVersion: "2025-03-26",
+    clientInfo: { name: "restored-client", version: "1.2.3" },
+    clientCapabilities: { roots: { listChanged: true } },
+    createdAt: 1_750_000_000_000,
+};
+
+const message = (id: number): JSONRPCMessage => ({ jsonrpc: "2.0", id, result: {} });
+
+let redis: FakeRedis;
+let store: SessionStore;
+
+before(async () => {
+    redis = await startFakeRedis();
+    store = createSessionStore(createRedisBackend(createRedisClient(redis.url)), { ttlMs: 60_000, keyPrefix: "test", maxEventsPerStream: 3 });
+});
+
+after(async () => {
+    await store?.close();
+    await redis?.close();
+});
+
+describe("session store", () => {
+    beforeEach(() => redis.values.clear());
+
+    it("saves, touches and deletes session records", async () => {
+        await store.saveSession(record);
+        assert.deepEqual(await store.getSession(record.id), record);
+        assert.equal(redis.expiries.get("test:session:session-1"), 60_000);
+        redis.expiries.clear();
+        await store.touchSession(record.id);
+        assert.equal(redis.expiries.get("test:session:session-1"), 60_000);
+        await store.deleteSession(record.id);
+        assert.equal(await store.getSession(record.id), undefined);
+    });
+
+    it("replays the events of a stream after the last event ID", async () => {
+        const events = store.eventStore(record.id);
+        const ids = [];
+        for (let id = 1; id <= 3; id++) {
+            ids.push(await events.storeEvent("stream-a", message(id)));
+        }
+        await events.storeEvent("stream-b", message(9));
+        assert.deepEqual(ids, ["session-1/stream-a/1", "session-1/stream-a/2", "session-1/stream-a/3"]);
+
+        const replayed: [string, JSONRPCMessage][] = [];
+        const streamId = await events.replayEventsAfter(ids[0], { send: async (eventId, event) => { replayed.push([eventId, event]); } });
+        assert.equal(streamId, "stream-a");
+        assert.deepEqual(replayed, [[ids[1], message(2)], [ids[2], message(3)]]);
+    });
+
+    it("keeps the latest events of a stream only", async () => {
+        const events = store.eventStore(record.id);
+        for (let id = 1; id <= 5; id++) {
+            await events.storeEvent("stream-a", message(id));
+        }
+        const replayed: number[] = [];
+        await events.replayEventsAfter("session-1/stream-a/0", { send: async (eventId) => { replayed.push(Number(eventId.split("/")[2])); } });
+        assert.deepEqual(replayed, [3, 4, 5]);
+    });
+
+    it("does not replay events of another session", async () => {
+        const eventId = await store.eventStore("session-2").storeEvent("stream-a", message(1));
+        await assert.rejects(store.eventStore(record.id).replayEventsAfter(eventId, { send: async () => {} }), /does not belong to session session-1/);
+    });
+});
+
+describe("restoreStreamableSession", () => {
+    let server: McpServer;
+    let transport: StreamableHTTPServerTransport;
+    let http: Server;
+    let client: Client;
+
+    before(async () => {
+        redis.values.clear();
+        server = new McpServer({ name: "test", version: "0.0.1" });
+        server.tool("echo", { text: z.string() }, async ({ text }) => ({ content: [{ type: "text", text }] }));
+        transport = await restoreStreamableSession(server, record, store.eventStore(record.id));
+        http = createServer((req, res) => transport.handleRequest(req, res));
+        await new Promise<void>((resolve) => http.listen(0, "127.0.0.1", resolve));
+        const { port } = http.address() as AddressInfo;
+        // A client of the stored session continues it without initializing again
+        client = new Client({ name: "restored-client", version: "1.2.3" });
+        await client.connect(new StreamableHTTPClientTransport(new URL(`http://127.0.0.1:${port}/mcp`), { sessionId: record.id }));
+    });
+
+    after(async () => {
+        await client?.close();
+        await server?.close();
+        await new Promise((resolve) => http?.close(resolve));
+    });
+
+    it("restores the client's initialize params", () => {
+        assert.equal(transport.sessionId, record.id);
+        assert.deepEqual(server.server.getClientVersion(), record.clientInfo);
+        assert.deepEqual(server.server.getClientCapabilities(), record.clientCapabilities);
+    });
+
+    it("serves requests of the session and stores their events, not the replayed handshake", async () => {
+        const result = await client.callTool({ name: "echo", arguments: { text: "hello" } });
+        assert.deepEqual(result.content, [{ type: "text", text: "hello" }]);
+        const streams = [...redis.values.entries()].filter(([key]) => key.startsWith("test:events:session-1:") && !key.endsWith(":seq"));
+        assert.equal(streams.length, 1);
+        assert.match(JSON.stringify(streams), /hello/);
+    });
+
+    it("tells a failed handshake from a result mentioning an error", async () => {
+        // A capability named error appears as "error": in the initialize result, which is still a success
+        const withErrorCapability = new McpServer({ name: "test", version: "0.0.1" }, { capabilities: { experimental: { error: {} } } });
+        await restoreStreamableSession(withErrorCapability, { ...record, id: "session-2" }, store.eventStore("session-2"));
+        await withErrorCapability.close();
+
+        const invalid = { ...record, id: "session-3", clientInfo: { version: "1.2.3" } } as unknown as SessionRecord;
+        const rejecting = new McpServer({ name: "test", version: "0.0.1" });
+        await assert.rejects(restoreStreamableSession(rejecting, invalid, store.eventStore("session-3")), /Replaying initialize failed/);
+        await rejecting.close();
+    });
+});
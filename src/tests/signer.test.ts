@@ -0,0 +1,76 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { createRemoteSigner } from "../signer.js";
+
+// The remote signer against a local JSON-RPC endpoint that records what it is asked to sign
+
+const address = "0x8ba1f109551bD432803012645Ac136ddd64DBA72";
+
+let server: Server;
+let url: string;
+let received: any[] = [];
+
+before(async () => {
+    server = createServer((req, res) => {
+        let body = "";
+        req.on("data", (chunk) => body += chunk);
+        req.on("end", () => {
+            const request = JSON.parse(body);
+            received.push({ ...request, authorization: req.headers.authorization });
+            res.setHeader("content-type", "application/json");
+            res.end(JSON.stringify({ jsonrpc: "2.0", id: request.id, result: "0x02f8" }));
+        });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+describe("remote signer", () => {
+    it("sends eth_signTransaction with JSON-RPC quantities and type codes", async () => {
+        received = [];
+        const { account } = createRemoteSigner({ url, address, token: "secret" });
+        const signed = await account.signTransaction!({
+            type: "eip1559",
+            chainId: 42161,
+            nonce: 7,
+            to: "0x1231DEB6f5749EF6cE6943a275A1D3E7486F4EaE",
+            data: "0xabcdef",
+            value: 10n ** 18n,
+            gas: 300_000n,
+            maxFeePerGas: 13_000_000_000n,
+            maxPriorityFeePerGas: 1_000_000_000n,
+        });
+        assert.equal(signed, "0x02f8");
+        assert.deepEqual(received, [{
+            jsonrpc: "2.0",
+            id: 1,
+            method: "eth_signTransaction",
+            params: [{
+                type: "0x2",
+                chainId: "0xa4b1",
+                nonce: "0x7",
+                from: address,
+                to: "0x1231DEB6f5749EF6cE6943a275A1D3E7486F4EaE",
+                data: "0xabcdef",
+                value: "0xde0b6b3a7640000",
+                gas: "0x493e0",
+                maxFeePerGas: "0x306dc4200",
+                maxPriorityFeePerGas: "0x3b9aca00",
+            }],
+            authorization: "Bearer secret",
+        }]);
+    });
+
+    it("sends personal_sign with the hex message and the signer address", async () => {
+        received = [];
+        const { account } = createRemoteSigner({ url, address });
+        await account.signMessage!({ message: "hello" });
+        assert.equal(received[0].method, "personal_sign");
+        assert.deepEqual(received[0].params, ["0x68656c6c6f", address]);
+        assert.equal(received[0].authorization, undefined);
+    });
+});
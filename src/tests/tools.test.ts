@@ -0,0 +1,923 @@
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { ResourceUpdatedNotificationSchema } from "@modelcontextprotocol/sdk/types.js";
+import { loadFixture, startMockLifi, type MockLifi } from "./mockLifi.js";
+import { callTool, startServer, testPrivateKey, type TestServer } from "./harness.js";
+
+// Contract tests for every tool: input validation, the structured result of a successful call and each error
+// path, against the mock LI.FI API. The client validates structured results against the tools' output schemas.
+
+const wallet = "0x8ba1f109551bD432803012645Ac136ddd64DBA72";
+const otherWallet = "0x000000000000000000000000000000000000bEEF";
+const usdc = "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48";
+const usdt = "0xdAC17F958D2ee523a2206206994597C13D831ec7";
+const usdcArbitrum = "0xAf88d065E77c8cc3Ea238e3cA5aC84B9f1A3d7b2";
+const diamond = "0x1231DEB6f5749EF6cE6943a275A1D3E7486F4EaE";
+const revertingContract = "0x000000000000000000000000000000000000dEaD";
+const solanaWallet = "9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM";
+const trackedTxHash = "0x3f6a2c1e9b8d7f5a4c3e2d1b0a9f8e7d6c5b4a39281706f5e4d3c2b1a0f9e8d7";
+const recommendedRouteId = "5d3c8a0e-7b6f-4e21-9a4d-2c8e1f0b7a63";
+const fastestRouteId = "b8e2f4a1-3c5d-4f6e-8a7b-9c0d1e2f3a4b";
+
+// USDC from Ethereum to Arbitrum is the pair the quote and route fixtures were recorded for
+const transfer = { fromChain: "eth", toChain: "arbitrum", fromToken: "USDC", toToken: "USDC", fromAddress: wallet };
+const noQuoteTransfer = { ...transfer, fromToken: "USDT" };
+
+const quote = loadFixture("quote");
+
+let mock: MockLifi;
+let server: TestServer;
+let client: Client;
+
+before(async () => {
+    mock = await startMockLifi();
+    // fee-report needs the admin scope, which unauthenticated clients only get when allowed explicitly
+    server = await startServer({ mock, env: { ALLOW_UNAUTHENTICATED_ADMIN: "true" } });
+    client = await server.connect("streamable");
+});
+
+after(async () => {
+    await server?.stop();
+    await mock?.close();
+});
+
+beforeEach(() => mock.reset());
+
+function assertError(result: Awaited<ReturnType<typeof callTool>>, code: string, message?: RegExp) {
+    assert.equal(result.isError, true, `expected ${code}, got ${result.text}`);
+    assert.equal(result.structured.error.code, code);
+    if (message) {
+        assert.match(result.structured.error.message, message);
+    }
+    return result.structured.error;
+}
+
+describe("input validation", () => {
+    it("rejects missing required arguments", async () => {
+        await assert.rejects(client.callTool({ name: "swap", arguments: { fromChain: 1 } }), /Invalid arguments for tool swap/);
+    });
+
+    it("rejects arguments of the wrong type", async () => {
+        await assert.rejects(client.callTool({ name: "gas-price", arguments: { chainId: "one" } }), /Invalid arguments for tool gas-price/);
+        await assert.rejects(client.callTool({ name: "chains", arguments: { chainTypes: ["FOO"] } }), /Invalid arguments for tool chains/);
+    });
+
+    it("rejects out of range arguments", async () => {
+        await assert.rejects(client.callTool({ name: "search-tokens", arguments: { limit: 0 } }), /Invalid arguments for tool search-tokens/);
+        await assert.rejects(client.callTool({ name: "portfolio", arguments: { walletAddress: wallet, dustThresholdUSD: -1 } }), /Invalid arguments for tool portfolio/);
+        // Slippage is a decimal, 0.5 would be 50%
+        await assert.rejects(client.callTool({ name: "swap", arguments: { fromChain: 1, toChain: 1, fromToken: "USDC", toToken: "USDT", fromAmount: "1", fromAddress: wallet, slippage: 1 } }), /Invalid arguments for tool swap/);
+    });
+
+    it("rejects a quote that is not a LI.FI step", async () => {
+        for (const name of ["build-transaction", "simulate-quote", "check-route-approval"]) {
+            await assert.rejects(client.callTool({ name, arguments: { quote: { id: quote.id, tool: quote.tool } } }), new RegExp(`Invalid arguments for tool ${name}`));
+        }
+    });
+
+    it("rejects unknown tools", async () => {
+        await assert.rejects(client.callTool({ name: "no-such-tool", arguments: {} }), /Tool no-such-tool not found/);
+    });
+
+    it("does not register execute-route without a signer", async () => {
+        const { tools } = await client.listTools();
+        assert.equal(tools.some((tool) => tool.name === "execute-route"), false);
+        assert.ok(tools.some((tool) => tool.name === "swap"));
+    });
+});
+
+describe("swap", () => {
+    it("quotes a transfer given by names, symbols and a human-readable amount", async () => {
+        const { isError, structured } = await callTool(client, "swap", { ...transfer, fromAmount: "1000 USDC" });
+        assert.equal(isError, false);
+        assert.equal(structured.protocol, "LI.FI");
+        assert.equal(structured.resolved.fromChain, 1);
+        assert.equal(structured.resolved.toChain, 42161);
+        assert.equal(structured.resolved.fromToken.address, usdc);
+        assert.equal(structured.resolved.toToken.address, usdcArbitrum);
+        assert.deepEqual(structured.resolved.amount, { raw: "1000000000", formatted: "1000", symbol: "USDC" });
+        assert.deepEqual(structured.amounts.toAmount, { raw: "996493000", formatted: "996.493", symbol: "USDC" });
+        assert.equal(structured.quote.id, quote.id);
+        assert.equal(structured.simulation, undefined);
+    });
+
+    it("sends the resolved request with the integrator and fee", async () => {
+        await callTool(client, "swap", { ...transfer, fromAmount: "1000 USDC", slippage: 0.005 });
+        const [request] = mock.requests("/v1/quote");
+        assert.equal(request.query.get("fromChain"), "1");
+        assert.equal(request.query.get("toChain"), "42161");
+        assert.equal(request.query.get("fromToken"), usdc);
+        assert.equal(request.query.get("fromAmount"), "1000000000");
+        assert.equal(request.query.get("slippage"), "0.005");
+        assert.equal(request.query.get("integrator"), "helixbox-mcp");
+        assert.equal(request.query.get("fee"), "0.0025");
+    });
+
+    it("reports the integrator fee", async () => {
+        const { structured } = await callTool(client, "swap", { ...transfer, fromAmount: "1000 USDC" });
+        assert.deepEqual(structured.integratorFee, { percent: 0.25, amount: { raw: "2500000", formatted: "2.5", symbol: "USDC" }, amountUSD: 2.5 });
+    });
+
+    it("simulates the quote when asked", async () => {
+        const { structured } = await callTool(client, "swap", { ...transfer, fromAmount: "1000 USDC", simulate: true });
+        assert.equal(structured.simulation.mode, "call");
+        assert.equal(structured.simulation.success, true);
+        assert.equal(structured.simulation.gasUsed, "300000");
+        // 500 USDC approved for 1000 USDC sent
+        assert.equal(structured.simulation.approvalRequired, true);
+    });
+
+    it("keeps the quote when the simulation cannot run", async () => {
+        mock.override("rpc eth_call", { status: 500, body: "unavailable" }, 10);
+        const { isError, structured } = await callTool(client, "swap", { ...transfer, fromAmount: "1000 USDC", simulate: true });
+        assert.equal(isError, false);
+        assert.equal(structured.quote.id, quote.id);
+        assert.equal(structured.simulation, undefined);
+        assert.ok(structured.simulationError.message);
+    });
+
+    it("fails with unsupported_chain for an unknown chain", async () => {
+        const { structured } = await callTool(client, "swap", { ...transfer, fromChain: "moonbase", fromAmount: "1000 USDC" });
+        assert.equal(structured.error.code, "unsupported_chain");
+        assert.match(structured.error.message, /Unknown chain moonbase/);
+        assert.equal(structured.params.fromChain, "moonbase");
+    });
+
+    it("fails with invalid_input and candidates for an ambiguous symbol", async () => {
+        const result = await callTool(client, "swap", { ...transfer, fromToken: "PEPE", fromAmount: "1000" });
+        assertError(result, "invalid_input");
+        assert.equal(result.structured.candidates.length, 2);
+        assert.deepEqual(result.structured.candidates.map((candidate: any) => candidate.decimals).sort(), [18, 9]);
+        assert.equal(mock.requests("/v1/quote").length, 0);
+    });
+
+    it("fails with invalid_input for a malformed amount or one in another token", async () => {
+        assertError(await callTool(client, "swap", { ...transfer, fromAmount: "lots" }), "invalid_input", /Invalid amount lots/);
+        assertError(await callTool(client, "swap", { ...transfer, fromAmount: "1 ETH" }), "invalid_input", /is in ETH, but the token is USDC/);
+    });
+
+    it("fails with invalid_input for an invalid address", async () => {
+        assertError(await callTool(client, "swap", { ...transfer, fromAmount: "1000 USDC", fromAddress: "0x1234" }), "invalid_input", /fromAddress/);
+    });
+
+    it("requires toAddress between chains of different types", async () => {
+        assertError(await callTool(client, "swap", { ...transfer, toChain: "sol", fromAmount: "1000 USDC" }), "invalid_input", /toAddress is required/);
+    });
+
+    it("fails with no_route when LI.FI has no quote", async () => {
+        const error = assertError(await callTool(client, "swap", { ...noQuoteTransfer, fromAmount: "1000 USDT" }), "no_route");
+        assert.equal(error.upstreamStatus, 404);
+        assert.equal(error.upstreamCode, 1002);
+        assert.equal(error.retryable, false);
+    });
+
+    it("fails with a retryable upstream_error once retries are exhausted", async () => {
+        mock.override("GET /v1/quote", { status: 503, body: { message: "Service unavailable" } }, 10);
+        const error = assertError(await callTool(client, "swap", { ...transfer, fromAmount: "1000 USDC" }), "upstream_error");
+        assert.equal(error.upstreamStatus, 503);
+        assert.equal(error.retryable, true);
+        assert.ok(mock.requests("/v1/quote").length > 1);
+    });
+});
+
+describe("bridge", () => {
+    it("quotes a bridge-only transfer", async () => {
+        const { isError, structured } = await callTool(client, "bridge", { ...transfer, fromAmount: "1000 USDC" });
+        assert.equal(isError, false);
+        assert.equal(structured.quote.tool, "stargateV2");
+        assert.equal(structured.integratorFee.amount.raw, "2500000");
+        assert.equal(mock.requests("/v1/quote")[0].query.get("allowBridges"), "all");
+    });
+
+    it("fails with no_route when LI.FI has no quote", async () => {
+        assertError(await callTool(client, "bridge", { ...noQuoteTransfer, fromAmount: "1000 USDT" }), "no_route");
+    });
+
+    it("fails with unsupported_chain for an unknown chain", async () => {
+        assertError(await callTool(client, "bridge", { ...transfer, toChain: 999999, fromAmount: "1000 USDC" }), "unsupported_chain");
+    });
+});
+
+describe("chains", () => {
+    it("lists all chain types by default", async () => {
+        const { structured } = await callTool(client, "chains");
+        assert.deepEqual(structured.chains.map((chain: any) => chain.key), ["eth", "arb", "sol"]);
+    });
+
+    it("filters by chain type", async () => {
+        const { structured } = await callTool(client, "chains", { chainTypes: ["SVM"] });
+        assert.deepEqual(structured.chains.map((chain: any) => chain.id), [1151111081099710]);
+    });
+});
+
+describe("tokens-one-chain", () => {
+    it("lists the tokens of a chain given by name", async () => {
+        const { structured } = await callTool(client, "tokens-one-chain", { chain: "Arbitrum" });
+        assert.deepEqual(structured.tokens.map((token: any) => token.symbol), ["ETH", "USDC"]);
+    });
+
+    it("lists the tokens of all chains of the given types", async () => {
+        const { structured } = await callTool(client, "tokens-one-chain", { chainTypes: ["SVM"] });
+        assert.deepEqual(structured.tokens.map((token: any) => token.symbol), ["SOL", "USDC"]);
+    });
+
+    it("fails with unsupported_chain for an unknown chain", async () => {
+        assertError(await callTool(client, "tokens-one-chain", { chain: "999999" }), "unsupported_chain");
+    });
+});
+
+describe("tokens-multiple-chains", () => {
+    it("lists tokens per chain ID", async () => {
+        const { structured } = await callTool(client, "tokens-multiple-chains", { chains: ["eth", "42161"] });
+        assert.deepEqual(Object.keys(structured.tokens), ["1", "42161"]);
+        assert.equal(structured.tokens["1"].length, 5);
+        assert.equal(structured.tokens["42161"].length, 2);
+    });
+
+    it("fails with unsupported_chain for an unknown chain", async () => {
+        assertError(await callTool(client, "tokens-multiple-chains", { chains: ["eth", "fantom"] }), "unsupported_chain", /Unknown chain fantom/);
+    });
+});
+
+describe("search-tokens", () => {
+    it("pages through matches with a cursor", async () => {
+        const first = await callTool(client, "search-tokens", { query: "usd", limit: 2 });
+        assert.equal(first.structured.total, 4);
+        assert.equal(first.structured.tokens.length, 2);
+        assert.ok(first.structured.nextCursor);
+
+        const second = await callTool(client, "search-tokens", { query: "usd", limit: 2, cursor: first.structured.nextCursor });
+        assert.equal(second.structured.tokens.length, 2);
+        assert.equal(second.structured.nextCursor, undefined);
+        const symbols = [...first.structured.tokens, ...second.structured.tokens].map((token: any) => `${token.chainId}:${token.symbol}`);
+        assert.equal(new Set(symbols).size, 4);
+    });
+
+    it("filters by chain, price and verification", async () => {
+        const { structured } = await callTool(client, "search-tokens", { chains: [1], minPriceUSD: 100 });
+        assert.deepEqual(structured.tokens.map((token: any) => token.symbol), ["ETH"]);
+        const verified = await callTool(client, "search-tokens", { query: "pepe", chains: [1], verified: true });
+        assert.deepEqual(verified.structured.tokens.map((token: any) => token.address), ["0x6982508145454Ce325dDbE47a25d4ec3d2311933"]);
+    });
+
+    it("fails with invalid_input for a malformed cursor", async () => {
+        assertError(await callTool(client, "search-tokens", { query: "usd", cursor: "not-a-cursor" }), "invalid_input");
+    });
+});
+
+describe("token", () => {
+    it("looks a token up by symbol", async () => {
+        const { structured } = await callTool(client, "token", { chain: "eth", token: "USDC" });
+        assert.equal(structured.token.address, usdc);
+        assert.equal(structured.token.decimals, 6);
+    });
+
+    it("looks a token up by address in any case", async () => {
+        const { structured } = await callTool(client, "token", { chain: "42161", token: usdcArbitrum.toLowerCase() });
+        assert.equal(structured.token.symbol, "USDC");
+        assert.equal(structured.token.chainId, 42161);
+    });
+
+    it("fails with invalid_input for an unknown token", async () => {
+        const error = assertError(await callTool(client, "token", { chain: "eth", token: "NOPE" }), "invalid_input");
+        assert.equal(error.upstreamStatus, 404);
+        assert.equal(error.upstreamCode, 1003);
+    });
+
+    it("fails with unsupported_chain for an unknown chain", async () => {
+        assertError(await callTool(client, "token", { chain: "fantom", token: "USDC" }), "unsupported_chain");
+    });
+});
+
+describe("tools", () => {
+    it("lists bridges and exchanges", async () => {
+        const { structured } = await callTool(client, "tools");
+        assert.deepEqual(structured.bridges.map((bridge: any) => bridge.key), ["stargateV2", "across"]);
+        assert.deepEqual(structured.exchanges.map((exchange: any) => exchange.key), ["1inch"]);
+    });
+
+    it("fails with invalid_input when LI.FI rejects the request", async () => {
+        mock.override("GET /v1/tools", { status: 400, body: { message: "Invalid chains", code: 1011 } });
+        assertError(await callTool(client, "tools", { chains: ["sol"] }), "invalid_input");
+    });
+});
+
+describe("quote-to-amount", () => {
+    it("quotes by the amount to receive", async () => {
+        const { isError, structured } = await callTool(client, "quote-to-amount", { ...transfer, toAmount: "996.493 USDC" });
+        assert.equal(isError, false);
+        assert.deepEqual(structured.resolved.amount, { raw: "996493000", formatted: "996.493", symbol: "USDC" });
+        assert.equal(structured.amounts.fromAmount.formatted, "1000");
+        assert.equal(structured.integratorFee.amount.formatted, "2.5");
+        const [request] = mock.requests("/v1/quote/toAmount");
+        assert.equal(request.query.get("toAmount"), "996493000");
+        assert.equal(request.query.get("fee"), "0.0025");
+        assert.equal(request.headers["x-lifi-sdk-integrator"], "helixbox-mcp");
+    });
+
+    it("retries a server error and returns the quote", async () => {
+        mock.override("GET /v1/quote/toAmount", { status: 502, body: { message: "Bad gateway" } });
+        const { isError } = await callTool(client, "quote-to-amount", { ...transfer, toAmount: "996.493 USDC" });
+        assert.equal(isError, false);
+        assert.equal(mock.requests("/v1/quote/toAmount").length, 2);
+    });
+
+    it("fails with rate_limited when LI.FI asks to wait longer than the wait budget", async () => {
+        mock.override("GET /v1/quote/toAmount", { status: 429, headers: { "retry-after": "5" }, body: { message: "Too many requests", code: 1005 } });
+        const error = assertError(await callTool(client, "quote-to-amount", { ...transfer, toAmount: "996.493 USDC" }), "rate_limited");
+        assert.equal(error.retryable, true);
+        assert.equal(error.retryAfterMs, 5000);
+        assert.equal(mock.requests("/v1/quote/toAmount").length, 1);
+    });
+
+    it("fails with no_route when LI.FI has no quote", async () => {
+        const error = assertError(await callTool(client, "quote-to-amount", { ...noQuoteTransfer, toAmount: "100 USDC" }), "no_route");
+        assert.equal(error.upstreamCode, 1002);
+    });
+
+    it("fails with invalid_input and candidates for an ambiguous symbol", async () => {
+        const { structured } = await callTool(client, "quote-to-amount", { ...transfer, fromToken: "pepe", toAmount: "100 USDC" });
+        assert.equal(structured.error.code, "invalid_input");
+        assert.equal(structured.candidates.length, 2);
+    });
+});
+
+describe("connections", () => {
+    it("lists connections from a chain", async () => {
+        const { structured } = await callTool(client, "connections", { fromChain: 1 });
+        assert.equal(structured.connections.length, 1);
+        assert.equal(structured.connections[0].toChainId, 42161);
+        assert.equal(mock.requests("/v1/connections")[0].query.get("fromChain"), "1");
+    });
+
+    it("fails with invalid_input when LI.FI rejects the request", async () => {
+        mock.override("GET /v1/connections", { status: 400, body: { message: "Invalid token", code: 1011 } });
+        const error = assertError(await callTool(client, "connections", { fromChain: 42161, fromToken: "0x1234" }), "invalid_input");
+        assert.equal(error.upstreamCode, 1011);
+    });
+});
+
+describe("token-balance", () => {
+    it("reads a token balance", async () => {
+        const { structured } = await callTool(client, "token-balance", { walletAddress: wallet, chainId: 1, token: usdc });
+        assert.equal(structured.balance.symbol, "USDC");
+        assert.equal(structured.balance.amount, "2500000000");
+    });
+
+    it("fails with invalid_input for an address of another chain type", async () => {
+        assertError(await callTool(client, "token-balance", { walletAddress: solanaWallet, chainId: 1, token: usdc }), "invalid_input", /walletAddress/);
+    });
+
+    it("fails with unsupported_chain for an unknown chain", async () => {
+        assertError(await callTool(client, "token-balance", { walletAddress: wallet, chainId: 10, token: usdc }), "unsupported_chain");
+    });
+});
+
+describe("token-balances", () => {
+    it("lists the non-zero balances of a chain", async () => {
+        const { structured } = await callTool(client, "token-balances", { walletAddress: wallet, chainId: 1 });
+        assert.deepEqual(structured.balances.map((balance: any) => [balance.symbol, balance.amount]), [["ETH", "2000000000000000000"], ["USDC", "2500000000"]]);
+    });
+
+    it("returns no balances for an empty wallet", async () => {
+        const { structured } = await callTool(client, "token-balances", { walletAddress: otherWallet, chainId: 42161 });
+        assert.deepEqual(structured.balances, []);
+    });
+
+    it("fails with invalid_input for an invalid address", async () => {
+        assertError(await callTool(client, "token-balances", { walletAddress: "wallet", chainId: 1 }), "invalid_input");
+    });
+
+    it("reads the cached token list", async () => {
+        await callTool(client, "token-balances", { walletAddress: wallet, chainId: 1 });
+        assert.equal(mock.requests("/v1/tokens").length, 0);
+    });
+
+    it("fails with invalid_input for a chain without a token list", async () => {
+        // A one-shot call with an empty cache, so the token list is fetched
+        mock.override("GET /v1/tokens", { body: { tokens: {} } });
+        const { code, result } = await server.call("token-balances", { walletAddress: wallet, chainId: 42161 }, { CACHE_SNAPSHOT_FILE: join(server.dir, "empty-cache.json") });
+        assert.equal(code, 1);
+        assert.equal(result.error.code, "invalid_input");
+        assert.match(result.error.message, /no token list for chain 42161/);
+    });
+});
+
+describe("portfolio", () => {
+    it("sums holdings across the chains of the address type", async () => {
+        const { structured } = await callTool(client, "portfolio", { walletAddress: wallet });
+        assert.equal(structured.portfolio.totalUSD, 10000);
+        assert.deepEqual(structured.portfolio.chains.map((chain: any) => [chain.chainId, chain.totalUSD]), [[1, 8500], [42161, 1500]]);
+        assert.deepEqual(structured.portfolio.topHoldings.map((holding: any) => holding.valueUSD), [6000, 2500, 1500]);
+    });
+
+    it("applies the chain selection, dust threshold and top limit", async () => {
+        const { structured } = await callTool(client, "portfolio", { walletAddress: wallet, chains: ["eth"], dustThresholdUSD: 3000, top: 1 });
+        assert.equal(structured.portfolio.totalUSD, 6000);
+        assert.deepEqual(structured.portfolio.topHoldings.map((holding: any) => holding.symbol), ["ETH"]);
+    });
+
+    it("fails with invalid_input for an address valid on no chain", async () => {
+        assertError(await callTool(client, "portfolio", { walletAddress: "not-an-address" }), "invalid_input", /not a valid address on any supported chain/);
+    });
+
+    it("fails with invalid_input for an address of another chain type", async () => {
+        assertError(await callTool(client, "portfolio", { walletAddress: wallet, chains: ["sol"] }), "invalid_input");
+    });
+});
+
+describe("token-allowance", () => {
+    it("reads an allowance", async () => {
+        const { structured } = await callTool(client, "token-allowance", { token: { chainId: 1, address: usdc }, ownerAddress: wallet, spenderAddress: diamond });
+        assert.deepEqual(structured.allowance, { raw: "500000000", formatted: "500", symbol: "USDC" });
+    });
+
+    it("fails with unsupported_chain on a non-EVM chain", async () => {
+        assertError(await callTool(client, "token-allowance", { token: { chainId: 1151111081099710, address: "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v" }, ownerAddress: solanaWallet, spenderAddress: solanaWallet }), "unsupported_chain");
+    });
+});
+
+describe("token-allowance-multicall", () => {
+    it("reads the allowances of several tokens", async () => {
+        const { structured } = await callTool(client, "token-allowance-multicall", {
+            ownerAddress: wallet,
+            tokens: [
+                { token: { chainId: 1, address: usdc }, spenderAddress: diamond },
+                { token: { chainId: 1, address: usdt }, spenderAddress: diamond },
+            ],
+        });
+        assert.deepEqual(structured.allowances.map((allowance: any) => [allowance.token.symbol, allowance.allowance.raw]), [["USDC", "500000000"], ["USDT", "0"]]);
+    });
+
+    it("fails with invalid_input for an unknown token", async () => {
+        assertError(await callTool(client, "token-allowance-multicall", { ownerAddress: wallet, tokens: [{ token: { chainId: 1, address: "0x0000000000000000000000000000000000000bad" }, spenderAddress: diamond }] }), "invalid_input");
+    });
+});
+
+describe("check-route-approval", () => {
+    it("reports a missing approval for a quote", async () => {
+        const { structured } = await callTool(client, "check-route-approval", { quote });
+        assert.equal(structured.approval.approvalNeeded, true);
+        assert.equal(structured.approval.spender, diamond);
+        assert.equal(structured.approval.required.raw, "1000000000");
+        assert.equal(structured.approval.allowance.raw, "500000000");
+    });
+
+    it("needs no approval when the allowance covers the amount", async () => {
+        const smaller = { ...quote, action: { ...quote.action, fromAmount: "400000000" } };
+        const { structured } = await callTool(client, "check-route-approval", { quote: smaller });
+        assert.equal(structured.approval.approvalNeeded, false);
+    });
+
+    it("checks a cached route by ID", async () => {
+        await callTool(client, "routes", { fromChainId: "eth", toChainId: "arb", fromTokenAddress: "USDC", toTokenAddress: "USDC", fromAmount: "1000 USDC", fromAddress: wallet });
+        const { structured } = await callTool(client, "check-route-approval", { routeId: recommendedRouteId, owner: otherWallet });
+        assert.equal(structured.approval.owner, otherWallet);
+        assert.equal(structured.approval.allowance.raw, "0");
+        assert.equal(structured.approval.approvalNeeded, true);
+    });
+
+    it("fails with invalid_input without a quote or route", async () => {
+        assertError(await callTool(client, "check-route-approval", {}), "invalid_input", /Either a quote or a routeId is required/);
+        assertError(await callTool(client, "check-route-approval", { routeId: "unknown" }), "invalid_input", /Route unknown not found or expired/);
+    });
+});
+
+describe("build-approve", () => {
+    it("builds an exact approval", async () => {
+        const { structured } = await callTool(client, "build-approve", { chain: "eth", token: "USDC", spender: diamond, owner: wallet, amount: "1000 USDC" });
+        assert.equal(structured.unlimited, false);
+        assert.equal(structured.amount.raw, "1000000000");
+        assert.equal(structured.transaction.to, usdc);
+        assert.equal(structured.transaction.from, wallet);
+        assert.equal(structured.transaction.chainId, 1);
+        assert.equal(structured.transaction.data, `0x095ea7b3${diamond.slice(2).toLowerCase().padStart(64, "0")}${(1000000000).toString(16).padStart(64, "0")}`);
+        assert.equal(structured.transaction.gas, "0x493e0");
+        assert.equal(structured.transaction.nonce, 7);
+    });
+
+    it("builds an unlimited approval", async () => {
+        const { structured } = await callTool(client, "build-approve", { chain: 1, token: usdc, spender: diamond, owner: wallet, amount: "unlimited" });
+        assert.equal(structured.unlimited, true);
+        assert.equal(structured.amount.raw, (2n ** 256n - 1n).toString());
+    });
+
+    it("fails with invalid_input and candidates for an ambiguous symbol", async () => {
+        const { structured } = await callTool(client, "build-approve", { chain: "eth", token: "PEPE", spender: diamond, owner: wallet, amount: "1" });
+        assert.equal(structured.error.code, "invalid_input");
+        assert.equal(structured.candidates.length, 2);
+    });
+
+    it("fails with unsupported_chain on a non-EVM chain", async () => {
+        assertError(await callTool(client, "build-approve", { chain: "sol", token: "USDC", spender: solanaWallet, owner: solanaWallet, amount: "1" }), "unsupported_chain");
+    });
+});
+
+describe("scan-allowances", () => {
+    it("lists granted allowances with revoke transactions", async () => {
+        const { structured } = await callTool(client, "scan-allowances", { owner: wallet, chain: "eth" });
+        assert.equal(structured.chainId, 1);
+        // Verified tokens only: ETH, USDC, USDT and the PEPE with a coin key
+        assert.equal(structured.checkedTokens, 4);
+        assert.equal(structured.allowances.length, 1);
+        const [allowance] = structured.allowances;
+        assert.equal(allowance.symbol, "USDC");
+        assert.equal(allowance.spender, diamond);
+        assert.equal(allowance.allowance.raw, "500000000");
+        assert.equal(allowance.unlimited, false);
+        assert.match(allowance.revoke.data, /^0x095ea7b3.{64}0{64}$/);
+    });
+
+    it("checks only the given tokens", async () => {
+        const { structured } = await callTool(client, "scan-allowances", { owner: wallet, chain: 1, tokens: ["USDT"] });
+        assert.equal(structured.checkedTokens, 1);
+        assert.deepEqual(structured.allowances, []);
+    });
+
+    it("also checks the spenders of the quotes handed out", async () => {
+        const allowanceHolder = "0x0000000000001fF3684f28c67538d4D072C22734";
+        mock.override("GET /v1/quote", { body: { ...quote, estimate: { ...quote.estimate, approvalAddress: allowanceHolder } } });
+        await callTool(client, "swap", { ...transfer, fromAmount: "1000 USDC" });
+        const { structured } = await callTool(client, "scan-allowances", { owner: wallet, chain: "eth" });
+        assert.deepEqual(structured.allowances.map((allowance: any) => [allowance.symbol, allowance.spender, allowance.unlimited]), [
+            ["USDC", diamond, false],
+            ["USDT", allowanceHolder, true],
+        ]);
+        assert.match(structured.allowances[1].spenderName, /spender$/);
+    });
+
+    it("checks the first verified tokens up to the configured limit without a token list", async () => {
+        const configFile = join(server.dir, "scan-limit.yaml");
+        await writeFile(configFile, "allowanceScanLimit: 2\n");
+        const { code, result } = await server.call("scan-allowances", { owner: wallet, chain: "eth" }, { CONFIG_FILE: configFile });
+        assert.equal(code, 0);
+        assert.equal(result.checkedTokens, 2);
+        assert.equal(result.uncheckedTokens, 2);
+        assert.deepEqual(result.allowances.map((allowance: any) => allowance.symbol), ["USDC"]);
+    });
+
+    it("fails with unsupported_chain on a non-EVM chain", async () => {
+        assertError(await callTool(client, "scan-allowances", { owner: solanaWallet, chain: "sol" }), "unsupported_chain");
+    });
+});
+
+describe("routes", () => {
+    const request = { fromChainId: "eth", toChainId: 42161, fromTokenAddress: "USDC", toTokenAddress: usdcArbitrum, fromAmount: "1000 USDC", fromAddress: wallet };
+
+    it("lists routes with the integrator fee", async () => {
+        const { structured } = await callTool(client, "routes", request);
+        assert.deepEqual(structured.routes.map((route: any) => route.id), [recommendedRouteId, fastestRouteId]);
+        assert.equal(structured.integratorFee.amount.raw, "2500000");
+        const [sent] = mock.requests("/v1/advanced/routes");
+        assert.equal(sent.body.fromAmount, "1000000000");
+        assert.equal(sent.body.options.fee, 0.0025);
+        assert.equal(sent.body.options.integrator, "helixbox-mcp");
+    });
+
+    it("passes route filters as options", async () => {
+        await callTool(client, "routes", { ...request, order: "FASTEST", allowBridges: ["across"] });
+        const [sent] = mock.requests("/v1/advanced/routes");
+        assert.equal(sent.body.options.order, "FASTEST");
+        assert.deepEqual(sent.body.options.bridges, { allow: ["across"] });
+    });
+
+    it("returns no routes with the failed paths", async () => {
+        const { isError, structured } = await callTool(client, "routes", { ...request, fromTokenAddress: "USDT", fromAmount: "1000 USDT" });
+        assert.equal(isError, false);
+        assert.deepEqual(structured.routes, []);
+        assert.equal(structured.unavailableRoutes.failed.length, 1);
+    });
+
+    it("fails with unsupported_chain for an unknown chain", async () => {
+        assertError(await callTool(client, "routes", { ...request, toChainId: "fantom" }), "unsupported_chain");
+    });
+});
+
+describe("best-quote", () => {
+    it("returns the best normalized quote", async () => {
+        const { structured } = await callTool(client, "best-quote", { ...transfer, fromAmount: "1000 USDC" });
+        assert.equal(structured.best.provider, "LI.FI");
+        assert.equal(structured.best.tool, "stargateV2");
+        assert.equal(structured.best.toAmount.raw, "996493000");
+        assert.equal(structured.quotes.length, 1);
+        assert.deepEqual(structured.providerErrors, []);
+    });
+
+    it("fails with no_route and the provider errors when no provider quotes", async () => {
+        const result = await callTool(client, "best-quote", { ...noQuoteTransfer, fromAmount: "1000 USDT" });
+        assertError(result, "no_route", /No provider returned a quote/);
+        assert.equal(result.structured.providerErrors.length, 1);
+        assert.equal(result.structured.providerErrors[0].provider, "LI.FI");
+    });
+});
+
+describe("compare-routes", () => {
+    it("ranks routes by the given strategy", async () => {
+        const fastest = await callTool(client, "compare-routes", { ...transfer, fromAmount: "1000 USDC", strategy: "fastest" });
+        assert.equal(fastest.structured.strategy, "fastest");
+        assert.deepEqual(fastest.structured.routes.map((route: any) => route.id), [fastestRouteId, recommendedRouteId]);
+        assert.deepEqual(fastest.structured.routes.map((route: any) => route.rank), [1, 2]);
+
+        const cheapest = await callTool(client, "compare-routes", { ...transfer, fromAmount: "1000 USDC", limit: 1 });
+        assert.equal(cheapest.structured.strategy, "cheapest");
+        assert.deepEqual(cheapest.structured.routes.map((route: any) => route.id), [recommendedRouteId]);
+        assert.equal(cheapest.structured.unavailable, 0);
+    });
+
+    it("fails with insufficient_liquidity when the paths lack liquidity", async () => {
+        assertError(await callTool(client, "compare-routes", { ...noQuoteTransfer, fromAmount: "1000 USDT" }), "insufficient_liquidity");
+    });
+});
+
+describe("build-transaction", () => {
+    it("builds the transaction of a quote and the approval it needs", async () => {
+        const { structured } = await callTool(client, "build-transaction", { quote });
+        assert.equal(structured.step.id, quote.id);
+        assert.equal(structured.transaction.to, diamond);
+        assert.equal(structured.transaction.data, quote.transactionRequest.data);
+        assert.equal(structured.transaction.chainId, 1);
+        assert.equal(structured.approval.spender, diamond);
+        assert.equal(structured.approval.amount, "1000000000");
+        assert.equal(structured.approval.currentAllowance, "500000000");
+    });
+
+    it("builds a cached route's step, fetching its transaction", async () => {
+        await callTool(client, "routes", { fromChainId: 1, toChainId: 42161, fromTokenAddress: "USDC", toTokenAddress: "USDC", fromAmount: "1000 USDC", fromAddress: wallet });
+        const { structured } = await callTool(client, "build-transaction", { routeId: recommendedRouteId });
+        assert.equal(structured.step.id, `${recommendedRouteId}:0`);
+        assert.equal(structured.transaction.to, diamond);
+        assert.equal(mock.requests("/v1/advanced/stepTransaction").length, 1);
+        // Fetched through the upstream client, like every other LI.FI request
+        const metrics = await (await fetch(`${server.url}/metrics`)).text();
+        assert.match(metrics, /^lifi_requests_total\{operation="getStepTransaction",outcome="success"\} 1$/m);
+    });
+
+    it("fails with invalid_input for a missing route or step", async () => {
+        assertError(await callTool(client, "build-transaction", {}), "invalid_input", /Either a quote or a routeId is required/);
+        assertError(await callTool(client, "build-transaction", { routeId: "expired" }), "invalid_input", /Route expired not found or expired/);
+        await callTool(client, "routes", { fromChainId: 1, toChainId: 42161, fromTokenAddress: "USDC", toTokenAddress: "USDC", fromAmount: "1000 USDC", fromAddress: wallet });
+        assertError(await callTool(client, "build-transaction", { routeId: recommendedRouteId, stepIndex: 3 }), "invalid_input", /has no step 3/);
+    });
+
+    it("builds legacy transactions on a chain without EIP-1559", async () => {
+        // A latest block without a base fee, for the approval and the step transaction
+        const { result: block } = await (await fetch(mock.rpcUrl(1), { method: "POST", body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "eth_getBlockByNumber", params: ["latest", false] }) })).json();
+        const { baseFeePerGas, ...legacyBlock } = block;
+        mock.override("rpc eth_getBlockByNumber", { body: { result: legacyBlock } }, 2);
+        const quotedGasPrice = { ...quote, transactionRequest: { ...quote.transactionRequest, gasPrice: "0x3b9aca00" } };
+        const { structured } = await callTool(client, "build-transaction", { quote: quotedGasPrice });
+        assert.equal(structured.transaction.type, "legacy");
+        assert.equal(structured.transaction.gasPrice, "0x3b9aca00");
+        assert.equal(structured.transaction.maxFeePerGas, undefined);
+        assert.equal(structured.approval.transaction.type, "legacy");
+        assert.equal(structured.approval.transaction.gasPrice, "0x2cb417800");
+    });
+
+    it("fails with invalid_input when there is no transaction to build", async () => {
+        const { transactionRequest, ...withoutTransaction } = quote;
+        mock.override("POST /v1/advanced/stepTransaction", { body: withoutTransaction });
+        assertError(await callTool(client, "build-transaction", { quote: withoutTransaction }), "invalid_input", /has no transaction request/);
+        const { fromAddress, ...action } = quote.action;
+        const withoutSender = { ...quote, action, transactionRequest: { ...quote.transactionRequest, from: undefined } };
+        assertError(await callTool(client, "build-transaction", { quote: withoutSender }), "invalid_input", /has no sender address/);
+    });
+
+    it("fails with unsupported_chain for a quote on an unknown chain", async () => {
+        const elsewhere = { ...quote, action: { ...quote.action, fromChainId: 10 } };
+        assertError(await callTool(client, "build-transaction", { quote: elsewhere }), "unsupported_chain", /Unknown chain 10/);
+    });
+});
+
+describe("simulate-quote", () => {
+    it("simulates a quote with eth_call and eth_estimateGas on a regular node", async () => {
+        const { structured } = await callTool(client, "simulate-quote", { quote });
+        assert.equal(structured.simulation.mode, "call");
+        assert.equal(structured.simulation.success, true);
+        assert.equal(structured.simulation.gasUsed, "300000");
+        assert.equal(structured.simulation.approvalRequired, true);
+    });
+
+    it("reports the revert reason of a failing transaction", async () => {
+        const reverting = { ...quote, transactionRequest: { ...quote.transactionRequest, to: revertingContract } };
+        const { isError, structured } = await callTool(client, "simulate-quote", { quote: reverting });
+        assert.equal(isError, false);
+        assert.equal(structured.simulation.success, false);
+        assert.equal(structured.simulation.revertReason, "Insufficient output amount");
+    });
+
+    it("fetches the transaction of a quote without one", async () => {
+        const { transactionRequest, ...withoutTransaction } = quote;
+        const { structured } = await callTool(client, "simulate-quote", { quote: withoutTransaction });
+        assert.equal(structured.simulation.success, true);
+        assert.equal(mock.requests("/v1/advanced/stepTransaction").length, 1);
+    });
+
+    it("fails with invalid_input when there is no transaction to simulate", async () => {
+        const { transactionRequest, ...withoutTransaction } = quote;
+        mock.override("POST /v1/advanced/stepTransaction", { body: withoutTransaction });
+        assertError(await callTool(client, "simulate-quote", { quote: withoutTransaction }), "invalid_input", /has no transaction request/);
+        assertError(await callTool(client, "simulate-quote", {}), "invalid_input", /Either a quote or a routeId is required/);
+    });
+});
+
+describe("status", () => {
+    it("returns a transfer's status", async () => {
+        const { structured, text } = await callTool(client, "status", { txHash: trackedTxHash, fromChain: 1 });
+        assert.equal(structured.status.status, "DONE");
+        assert.equal(structured.status.substatus, "COMPLETED");
+        assert.match(text, /DONE \(COMPLETED\)/);
+        assert.equal(mock.requests("/v1/status")[0].query.get("fromChain"), "1");
+    });
+
+    it("returns NOT_FOUND for an unknown transaction", async () => {
+        const { isError, structured } = await callTool(client, "status", { txHash: `0x${"1".repeat(64)}` });
+        assert.equal(isError, false);
+        assert.equal(structured.status.status, "NOT_FOUND");
+    });
+
+    it("fails with invalid_input when LI.FI rejects the hash", async () => {
+        mock.override("GET /v1/status", { status: 400, body: { message: "Invalid transaction hash", code: 1011 } });
+        assertError(await callTool(client, "status", { txHash: "0x12" }), "invalid_input");
+    });
+});
+
+describe("transfer tracking", () => {
+    it("tracks a transfer and polls its status right away", async () => {
+        const { structured } = await callTool(client, "track-transfer", { txHash: trackedTxHash, bridge: "stargateV2", label: "test transfer" });
+        assert.equal(structured.transfer.txHash, trackedTxHash);
+        assert.equal(structured.transfer.label, "test transfer");
+        assert.equal(structured.transfer.status, "DONE");
+        assert.equal(structured.transfer.polls, 1);
+    });
+
+    it("lists and gets tracked transfers", async () => {
+        const listed = await callTool(client, "list-transfers");
+        assert.deepEqual(listed.structured.transfers.map((transfer: any) => transfer.txHash), [trackedTxHash]);
+        const pending = await callTool(client, "list-transfers", { pendingOnly: true });
+        assert.deepEqual(pending.structured.transfers, []);
+        const { structured } = await callTool(client, "get-transfer", { txHash: trackedTxHash.toUpperCase().replace("0X", "0x") });
+        assert.equal(structured.transfer.status, "DONE");
+    });
+
+    it("fails with invalid_input for an untracked transfer", async () => {
+        assertError(await callTool(client, "get-transfer", { txHash: `0x${"2".repeat(64)}` }), "invalid_input", /is not tracked/);
+    });
+
+    it("pushes status changes of subscribed transfers only", async () => {
+        assert.equal(client.getServerCapabilities()?.resources?.subscribe, true);
+        const updates: string[] = [];
+        client.setNotificationHandler(ResourceUpdatedNotificationSchema, ({ params }) => {
+            updates.push(params.uri);
+        });
+        const [subscribed, unsubscribed] = [`0x${"3".repeat(64)}`, `0x${"4".repeat(64)}`];
+        const status = loadFixture("status");
+        const completes = (txHash: string) => mock.override("GET /v1/status", { body: { ...status, sending: { ...status.sending, txHash } } });
+        await client.subscribeResource({ uri: `transfers://${subscribed}` });
+        await client.subscribeResource({ uri: `transfers://${unsubscribed}` });
+        await client.unsubscribeResource({ uri: `transfers://${unsubscribed}` });
+        completes(subscribed);
+        assert.equal((await callTool(client, "track-transfer", { txHash: subscribed })).structured.transfer.status, "DONE");
+        completes(unsubscribed);
+        assert.equal((await callTool(client, "track-transfer", { txHash: unsubscribed })).structured.transfer.status, "DONE");
+        await new Promise((resolve) => setTimeout(resolve, 100));
+        assert.deepEqual(updates, [`transfers://${subscribed}`]);
+    });
+});
+
+describe("resources", () => {
+    const read = async (uri: string) => {
+        const { contents } = await client.readResource({ uri });
+        assert.equal(contents[0].mimeType, "application/json");
+        return JSON.parse(contents[0].text as string);
+    };
+
+    it("lists the chains, their tokens and the tracked transfers", async () => {
+        const { resources } = await client.listResources();
+        const uris = resources.map((resource) => resource.uri);
+        for (const uri of ["chains://all", "chains://42161", "tokens://1", "tools://bridges", "tools://exchanges", `transfers://${trackedTxHash}`]) {
+            assert.ok(uris.includes(uri), `${uri} is not listed`);
+        }
+    });
+
+    it("reads chains", async () => {
+        assert.deepEqual((await read("chains://all")).map((chain: any) => chain.key), ["eth", "arb", "sol"]);
+        assert.equal((await read("chains://42161")).key, "arb");
+        await assert.rejects(client.readResource({ uri: "chains://10" }), /Unsupported chain 10/);
+    });
+
+    it("reads a chain's tokens and a single token by address or symbol", async () => {
+        assert.deepEqual((await read("tokens://42161")).map((token: any) => token.symbol), ["ETH", "USDC"]);
+        assert.equal((await read(`tokens://1/${usdc}`)).symbol, "USDC");
+        assert.equal((await read("tokens://42161/USDC")).address, usdcArbitrum);
+        await assert.rejects(client.readResource({ uri: "tokens://10" }), /Unknown chain 10/);
+    });
+
+    it("reads bridges and exchanges", async () => {
+        assert.deepEqual((await read("tools://bridges")).map((bridge: any) => bridge.key), ["stargateV2", "across"]);
+        assert.deepEqual((await read("tools://exchanges")).map((exchange: any) => exchange.key), ["1inch"]);
+    });
+
+    it("reads a tracked transfer", async () => {
+        const transfer = await read(`transfers://${trackedTxHash}`);
+        assert.equal(transfer.txHash, trackedTxHash);
+        assert.equal(transfer.status, "DONE");
+        await assert.rejects(client.readResource({ uri: `transfers://0x${"2".repeat(64)}` }), /is not tracked/);
+    });
+});
+
+describe("fee-report", () => {
+    it("reports collected fees per chain", async () => {
+        const { structured } = await callTool(client, "fee-report");
+        assert.equal(structured.integrator, "helixbox-mcp");
+        assert.equal(structured.totalUSD, 167.5);
+        assert.deepEqual(structured.balances.map((balance: any) => [balance.chainId, balance.totalUSD]), [[1, 125], [42161, 42.5]]);
+        assert.equal(mock.requests("/v1/integrators/helixbox-mcp").length, 1);
+    });
+
+    it("limits the report to the given chains", async () => {
+        const { structured } = await callTool(client, "fee-report", { chains: ["arb"] });
+        assert.equal(structured.totalUSD, 42.5);
+    });
+
+    it("fails with unsupported_chain for an unknown chain", async () => {
+        assertError(await callTool(client, "fee-report", { chains: ["fantom"] }), "unsupported_chain");
+    });
+});
+
+describe("gas-price", () => {
+    it("fails with invalid_input for a chain LI.FI has no prices for", async () => {
+        const error = assertError(await callTool(client, "gas-price", { chainId: 1151111081099710 }), "invalid_input");
+        assert.equal(error.upstreamStatus, 400);
+    });
+
+    it("fails with unsupported_chain for an unknown chain", async () => {
+        assertError(await callTool(client, "gas-price", { chainId: 10 }), "unsupported_chain", /Unknown chain 10/);
+    });
+
+    it("fails with a retryable upstream_error while LI.FI is down", async () => {
+        mock.override("GET /v1/gas/prices/42161", { status: 503, body: { message: "Service unavailable" } }, 10);
+        const error = assertError(await callTool(client, "gas-price", { chainId: 42161 }), "upstream_error");
+        assert.equal(error.retryable, true);
+        assert.equal(error.upstreamStatus, 503);
+    });
+
+    it("returns a chain's gas prices, cached afterwards", async () => {
+        const { structured } = await callTool(client, "gas-price", { chainId: 1 });
+        assert.deepEqual(structured.gasPrice, loadFixture("gas-prices")["1"]);
+        await callTool(client, "gas-price", { chainId: 1 });
+        assert.equal(mock.requests("/v1/gas/prices/1").length, 1);
+    });
+});
+
+describe("gas-prices", () => {
+    it("returns gas prices of all chains", async () => {
+        const { structured } = await callTool(client, "gas-prices");
+        assert.deepEqual(Object.keys(structured.gasPrices), ["1", "42161"]);
+    });
+});
+
+describe("execute-route", () => {
+    let signerServer: TestServer;
+    let signerClient: Client;
+
+    before(async () => {
+        signerServer = await startServer({ mock, env: { SIGNER_TYPE: "local", SIGNER_PRIVATE_KEY: testPrivateKey } });
+        signerClient = await signerServer.connect("streamable");
+    });
+
+    after(async () => {
+        await signerServer?.stop();
+    });
+
+    it("is registered with a signer", async () => {
+        const { tools } = await signerClient.listTools();
+        const tool = tools.find((tool) => tool.name === "execute-route");
+        assert.ok(tool);
+        assert.match(tool.description ?? "", /local signer \(0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266\)/);
+    });
+
+    it("fails with invalid_input without a quote or route", async () => {
+        assertError(await callTool(signerClient, "execute-route"), "invalid_input", /Either a quote or a routeId is required/);
+        assertError(await callTool(signerClient, "execute-route", { routeId: "expired" }), "invalid_input", /not found or expired/);
+    });
+
+    it("refuses a quote made for another wallet", async () => {
+        assertError(await callTool(signerClient, "execute-route", { quote }), "invalid_input", /Route was quoted for 0x8ba1f109551bD432803012645Ac136ddd64DBA72, but the signer is 0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266/);
+        assert.equal(mock.requests().filter((request) => request.method === "POST" && request.path.startsWith("/rpc/")).some((request) => JSON.stringify(request.body).includes("eth_sendRawTransaction")), false);
+    });
+
+    it("signs and sends a quote made for the signer and follows it to the target chain", async () => {
+        const signerAddress = "0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266";
+        const signerQuote = { ...quote, action: { ...quote.action, fromAddress: signerAddress, toAddress: signerAddress } };
+        const { structured } = await callTool(signerClient, "execute-route", { quote: signerQuote });
+        assert.equal(structured.route.status, "DONE", JSON.stringify(structured));
+        assert.equal(structured.route.fromAddress, signerAddress);
+        const [sent] = mock.sentTransactions();
+        assert.equal(sent.chainId, "1");
+        const processes = structured.route.steps[0].processes;
+        assert.ok(processes.some((process: any) => process.txHash && process.chainId === 1));
+    });
+});
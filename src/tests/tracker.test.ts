@@ -0,0 +1,99 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { StatusResponse } from "@lifi/sdk";
+import { createTransferTracker } from "../tracker.js";
+
+const txHash = "0x3f6a2c1e9b8d7f5a4c3e2d1b0a9f8e7d6c5b4a39281706f5e4d3c2b1a0f9e8d7";
+
+let dir: string;
+
+before(async () => {
+    dir = await mkdtemp(join(tmpdir(), "helixbox-mcp-test-"));
+});
+
+after(async () => {
+    await rm(dir, { recursive: true, force: true });
+});
+
+const pending = { status: "PENDING", substatus: "WAIT_DESTINATION_TRANSACTION" } as StatusResponse;
+
+describe("transfer tracker", () => {
+    it("does not poll a new transfer again while its first poll is in progress", async () => {
+        let polls = 0;
+        const tracker = createTransferTracker({
+            file: join(dir, "in-flight.json"),
+            tickInterval: 5,
+            getStatus: async () => {
+                polls++;
+                await new Promise((resolve) => setTimeout(resolve, 100));
+                return pending;
+            },
+        });
+        await tracker.start();
+        const transfer = await tracker.track({ txHash });
+        await tracker.stop();
+        assert.equal(polls, 1);
+        assert.equal(transfer.polls, 1);
+        assert.equal(transfer.status, "PENDING");
+    });
+
+    it("keeps the transfers of each client apart", async () => {
+        const tracker = createTransferTracker({ file: join(dir, "clients.json"), getStatus: async () => pending });
+        await tracker.start();
+        await tracker.track({ txHash, clientId: "alice", label: "alice's" });
+        await tracker.stop();
+
+        assert.equal(tracker.get(txHash, "alice")?.label, "alice's");
+        assert.equal(tracker.get(txHash, "bob"), undefined);
+        assert.equal(tracker.get(txHash), undefined);
+        assert.deepEqual(tracker.list({ clientId: "bob" }), []);
+        assert.deepEqual(tracker.list().map((transfer) => transfer.txHash), []);
+
+        // Tracking the same transaction as another client starts a transfer of its own
+        const bobs = await tracker.track({ txHash, clientId: "bob" });
+        assert.equal(bobs.label, undefined);
+        assert.equal(tracker.list({ clientId: "alice" }).length, 1);
+        assert.equal(tracker.list({ clientId: "bob" }).length, 1);
+    });
+
+    it("restores the owner of persisted transfers", async () => {
+        const file = join(dir, "persisted.json");
+        const tracker = createTransferTracker({ file, getStatus: async () => pending });
+        await tracker.start();
+        await tracker.track({ txHash, clientId: "alice" });
+        await tracker.stop();
+
+        const restored = createTransferTracker({ file, getStatus: async () => pending });
+        await restored.start();
+        await restored.stop();
+        assert.equal(restored.get(txHash, "alice")?.clientId, "alice");
+        assert.equal(restored.get(txHash), undefined);
+    });
+
+    it("drops final transfers after their retention", async () => {
+        const file = join(dir, "retention.json");
+        const done = { status: "DONE", substatus: "COMPLETED" } as StatusResponse;
+        const tracker = createTransferTracker({ file, tickInterval: 5, retentionMs: 50, getStatus: async () => done });
+        await tracker.start();
+        await tracker.track({ txHash });
+        await tracker.track({ txHash, clientId: "alice" });
+        assert.equal(tracker.get(txHash)?.status, "DONE");
+        await new Promise((resolve) => setTimeout(resolve, 100));
+        await tracker.stop();
+        assert.equal(tracker.get(txHash), undefined);
+        assert.equal(tracker.get(txHash, "alice"), undefined);
+        assert.deepEqual(JSON.parse(await readFile(file, "utf8")), []);
+    });
+
+    it("keeps pending transfers past the retention", async () => {
+        const tracker = createTransferTracker({ file: join(dir, "retention-pending.json"), tickInterval: 5, retentionMs: 1, getStatus: async () => pending });
+        await tracker.start();
+        await tracker.track({ txHash });
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        await tracker.stop();
+        assert.equal(tracker.get(txHash)?.status, "PENDING");
+    });
+});
@@ -0,0 +1,84 @@
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { loadFixture, startMockLifi, type MockLifi } from "./mockLifi.js";
+import { callTool, clientTransports, startServer, type TestServer } from "./harness.js";
+
+// The same calls over every transport: streamable HTTP, SSE and stdio clients, and the in-memory transport
+// behind the `call` subcommand. Tool behaviour itself is covered by tools.test.ts.
+
+const wallet = "0x8ba1f109551bD432803012645Ac136ddd64DBA72";
+const transfer = { fromChain: "eth", toChain: "arbitrum", fromToken: "USDC", toToken: "USDC", fromAddress: wallet, fromAmount: "1000 USDC" };
+
+const quote = loadFixture("quote");
+
+let mock: MockLifi;
+let server: TestServer;
+
+before(async () => {
+    mock = await startMockLifi();
+    server = await startServer({ mock });
+});
+
+after(async () => {
+    await server?.stop();
+    await mock?.close();
+});
+
+beforeEach(() => mock.reset());
+
+for (const transport of clientTransports) {
+    describe(`${transport} transport`, () => {
+        let client: Client;
+
+        before(async () => {
+            client = await server.connect(transport);
+        });
+
+        it("lists the tools with their output schemas", async () => {
+            const { tools } = await client.listTools();
+            const swap = tools.find((tool) => tool.name === "swap");
+            assert.ok(swap?.outputSchema);
+            assert.ok(tools.some((tool) => tool.name === "chains"));
+        });
+
+        it("returns structured results", async () => {
+            const { isError, structured } = await callTool(client, "swap", transfer);
+            assert.equal(isError, false);
+            assert.equal(structured.quote.id, quote.id);
+            assert.equal(structured.resolved.toChain, 42161);
+        });
+
+        it("returns tool errors as results", async () => {
+            const { isError, structured } = await callTool(client, "swap", { ...transfer, fromChain: "moonbase" });
+            assert.equal(isError, true);
+            assert.equal(structured.error.code, "unsupported_chain");
+        });
+
+        it("rejects invalid arguments", async () => {
+            await assert.rejects(client.callTool({ name: "swap", arguments: { fromChain: 1 } }), /Invalid arguments for tool swap/);
+        });
+    });
+}
+
+describe("call subcommand", () => {
+    it("prints the structured result and exits with 0", async () => {
+        const { code, result } = await server.call("swap", transfer);
+        assert.equal(code, 0);
+        assert.equal(result.quote.id, quote.id);
+        assert.equal(result.resolved.toChain, 42161);
+    });
+
+    it("prints the error and exits with 1 on a tool error", async () => {
+        const { code, result } = await server.call("swap", { ...transfer, fromChain: "moonbase" });
+        assert.equal(code, 1);
+        assert.equal(result.error.code, "unsupported_chain");
+    });
+
+    it("leaves stdout to the result and logs to stderr", async () => {
+        const { result, stderr } = await server.call("chains", {}, { LOG_LEVEL: "info" });
+        assert.ok(Array.isArray(result.chains));
+        const lines = stderr.split("\n").filter((line) => line.startsWith("{")).map((line) => JSON.parse(line));
+        assert.ok(lines.some((line) => line.msg === "Tool call" && line.tool === "chains"));
+    });
+});
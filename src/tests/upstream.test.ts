@@ -0,0 +1,20 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createUpstreamClientFromEnv } from "../upstream.js";
+
+// Rate limit settings read at startup; limiting and retries are exercised through the tools
+
+describe("createUpstreamClientFromEnv", () => {
+    it("accepts positive limits and falls back to the defaults", () => {
+        assert.ok(createUpstreamClientFromEnv({}, {}));
+        assert.ok(createUpstreamClientFromEnv({}, { UPSTREAM_RATE_LIMIT: "2.5", UPSTREAM_BURST: "5", SESSION_RATE_LIMIT: "1", SESSION_BURST: "3", UPSTREAM_MAX_WAIT_MS: "500" }));
+    });
+
+    for (const name of ["UPSTREAM_RATE_LIMIT", "UPSTREAM_BURST", "SESSION_RATE_LIMIT", "SESSION_BURST", "UPSTREAM_MAX_WAIT_MS"]) {
+        it(`rejects a ${name} that is not a positive number`, () => {
+            for (const value of ["fast", "0", "-1", "Infinity"]) {
+                assert.throws(() => createUpstreamClientFromEnv({}, { [name]: value }), { message: `${name} must be a positive number, got ${value}` });
+            }
+        });
+    }
+});
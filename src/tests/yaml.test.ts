@@ -0,0 +1,122 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { parseYaml, YamlError } from "../yaml.js";
+
+// The YAML subset config files are written in; mappings come without a prototype, so they are compared as JSON
+
+const parse = (source: string) => JSON.parse(JSON.stringify(parseYaml(source)));
+
+describe("parseYaml", () => {
+    it("parses nested block mappings", () => {
+        assert.deepEqual(parse([
+            "lifi:",
+            "  integrator: helixbox",
+            "  clients:",
+            "    alice:",
+            "      fee: 0.001",
+            "port: 3000",
+        ].join("\n")), { lifi: { integrator: "helixbox", clients: { alice: { fee: 0.001 } } }, port: 3000 });
+    });
+
+    it("parses block sequences, also of mappings and at the key's indentation", () => {
+        assert.deepEqual(parse([
+            "chains:",
+            "- 1",
+            "- 42161",
+            "clients:",
+            "  - id: alice",
+            "    scopes: [read, quote]",
+            "  - id: bob",
+            "    scopes:",
+            "      - read",
+            "  -",
+            "    id: carol",
+        ].join("\n")), {
+            chains: [1, 42161],
+            clients: [{ id: "alice", scopes: ["read", "quote"] }, { id: "bob", scopes: ["read"] }, { id: "carol" }],
+        });
+    });
+
+    it("parses flow collections", () => {
+        assert.deepEqual(parse("cache: { tokens: { ttlMs: 300000, staleMs: 3600000 }, chains: {} }\ndeny: [hop, 'a, b', [1, 2], []]"), {
+            cache: { tokens: { ttlMs: 300000, staleMs: 3600000 }, chains: {} },
+            deny: ["hop", "a, b", [1, 2], []],
+        });
+    });
+
+    it("types plain scalars and keeps quoted ones as strings", () => {
+        assert.deepEqual(parse([
+            "int: 42",
+            "negative: -1.5e3",
+            "yes: true",
+            "no: False",
+            "empty:",
+            "tilde: ~",
+            "plain: hello world",
+            "address: 0x8ba1f109551bD432803012645Ac136ddd64DBA72",
+            "number: '42'",
+            "double: \"tab\\there \\\"quoted\\\"\"",
+            "single: 'it''s'",
+        ].join("\n")), {
+            int: 42,
+            negative: -1500,
+            yes: true,
+            no: false,
+            empty: null,
+            tilde: null,
+            plain: "hello world",
+            address: "0x8ba1f109551bD432803012645Ac136ddd64DBA72",
+            number: "42",
+            double: "tab\there \"quoted\"",
+            single: "it's",
+        });
+    });
+
+    it("drops comments outside quotes", () => {
+        assert.deepEqual(parse([
+            "---",
+            "# deployment settings",
+            "integrator: helixbox # the LI.FI integrator",
+            "referrer: '#not-a-comment'",
+            "url: https://example.com/#anchor",
+            "",
+            "   # indented comment",
+        ].join("\n")), { integrator: "helixbox", referrer: "#not-a-comment", url: "https://example.com/#anchor" });
+    });
+
+    it("parses empty documents and single scalars", () => {
+        assert.equal(parseYaml(""), null);
+        assert.equal(parseYaml("# only a comment\n"), null);
+        assert.equal(parseYaml("42"), 42);
+        assert.deepEqual(parse("[a, b]"), ["a", "b"]);
+    });
+
+    it("keeps prototype keys as plain keys", () => {
+        const parsed = parseYaml("__proto__:\n  polluted: true\nconstructor: 1\nflow: { __proto__: 2 }") as any;
+        assert.equal(Object.getPrototypeOf(parsed), null);
+        assert.deepEqual(Object.keys(parsed), ["__proto__", "constructor", "flow"]);
+        assert.equal(parsed.__proto__.polluted, true);
+        assert.equal(({} as any).polluted, undefined);
+        assert.equal(parsed.flow.__proto__, 2);
+        assert.equal((parseYaml("a: 1") as any).toString, undefined);
+    });
+
+    it("rejects what it does not support or cannot read, with the line", () => {
+        const rejects = (source: string, message: RegExp) => assert.throws(() => parseYaml(source), (error) => {
+            assert.ok(error instanceof YamlError);
+            assert.match(error.message, message);
+            return true;
+        });
+        rejects("a: 1\na: 2", /Duplicate key a \(line 2\)/);
+        rejects("toString: 1\ntoString: 2", /Duplicate key toString \(line 2\)/);
+        rejects("a: { b: 1, b: 2 }", /Duplicate key b \(line 1\)/);
+        rejects("a: 1\n---\nb: 2", /Multiple documents are not supported \(line 2\)/);
+        rejects("a:\n\tb: 1", /Tabs are not allowed in indentation \(line 2\)/);
+        rejects("a: |\n  text", /Block scalars, anchors, aliases and tags are not supported/);
+        rejects("a: &anchor 1", /Block scalars, anchors, aliases and tags are not supported/);
+        rejects("a: [1, 2", /Expected \] in \[1, 2 \(line 1\)/);
+        rejects("a: \"unterminated", /Invalid double quoted string/);
+        rejects("a: 1\n  b: 2", /Unexpected indentation \(line 2\)/);
+        rejects("a: 1\njust text", /Expected "key: value", got just text \(line 2\)/);
+    });
+});
@@ -0,0 +1,140 @@
+import { z } from "zod";
+import type { Token } from "@lifi/sdk";
+import { ToolError } from "./errors.js";
+
+export const tokenSummarySchema = z.object({
+    chainId: z.number().describe("Chain ID"),
+    address: z.string().describe("Token address"),
+    symbol: z.string().describe("Token symbol"),
+    name: z.string().describe("Token name"),
+    decimals: z.number().describe("Token decimals"),
+    priceUSD: z.string().optional().describe("Token price in USD"),
+    coinKey: z.string().optional().describe("Token key"),
+    logoURI: z.string().optional().describe("Token logo URI"),
+    tags: z.array(z.string()).optional().describe("Token tags"),
+});
+
+export type TokenSummary = z.infer<typeof tokenSummarySchema>;
+
+export type TokenSort = "relevance" | "priceUSD" | "symbol";
+
+export interface TokenSearchOptions {
+    query?: string;
+    minPriceUSD?: number;
+    // Only tokens mapped to a known LI.FI coin (coinKey set)
+    verified?: boolean;
+    tags?: string[];
+    sort?: TokenSort;
+    limit?: number;
+    cursor?: string;
+}
+
+// Token lists carry tags such as "stablecoin", which the SDK's Token type does not declare
+type TaggedToken = Token & { tags?: string[] };
+
+interface IndexedToken {
+    token: TaggedToken;
+    symbol: string;
+    name: string;
+    address: string;
+    price: number;
+    tags: string[];
+}
+
+export type TokenIndex = IndexedToken[];
+
+// Precompute the lowercase fields used for matching once per token list
+export function buildTokenIndex(tokens: TaggedToken[]): TokenIndex {
+    return tokens.map((token) => ({
+        token,
+        symbol: token.symbol.toLowerCase(),
+        name: token.name.toLowerCase(),
+        address: token.address.toLowerCase(),
+        price: Number(token.priceUSD) || 0,
+        tags: (token.tags ?? []).map((tag) => tag.toLowerCase()),
+    }));
+}
+
+// Characters of the query appear in order in the value, e.g. "wbtc" in "wrapped btc"
+function isSubsequence(query: string, value: string) {
+    let i = 0;
+    for (const char of value) {
+        if (char === query[i]) i++;
+        if (i === query.length) return true;
+    }
+    return false;
+}
+
+// Score how well a token matches the query; 0 means no match
+export function scoreToken(entry: IndexedToken, query: string) {
+    if (entry.address === query) return 100;
+    if (entry.symbol === query) return 90;
+    if (entry.name === query) return 80;
+    if (entry.symbol.startsWith(query)) return 70;
+    if (entry.name.startsWith(query)) return 60;
+    if (entry.symbol.includes(query)) return 50;
+    if (entry.name.includes(query)) return 40;
+    if (query.startsWith("0x") && entry.address.startsWith(query)) return 30;
+    if (isSubsequence(query, entry.symbol)) return 20;
+    if (isSubsequence(query, entry.name)) return 10;
+    return 0;
+}
+
+function encodeCursor(offset: number) {
+    return Buffer.from(`offset:${offset}`).toString("base64url");
+}
+
+function decodeCursor(cursor: string) {
+    const match = /^offset:(\d+)$/.exec(Buffer.from(cursor, "base64url").toString());
+    if (!match) {
+        throw new ToolError("invalid_input", "Invalid cursor");
+    }
+    return Number(match[1]);
+}
+
+export function summarizeToken(token: TaggedToken): TokenSummary {
+    return {
+        chainId: token.chainId,
+        address: token.address,
+        symbol: token.symbol,
+        name: token.name,
+        decimals: token.decimals,
+        priceUSD: token.priceUSD,
+        coinKey: token.coinKey,
+        logoURI: token.logoURI,
+        tags: token.tags,
+    };
+}
+
+// Filter, rank and paginate an indexed token list
+export function searchTokens(index: TokenIndex, options: TokenSearchOptions) {
+    const query = options.query?.trim().toLowerCase();
+    const tags = options.tags?.map((tag) => tag.toLowerCase());
+    const sort = options.sort ?? (query ? "relevance" : "priceUSD");
+    const limit = options.limit ?? 25;
+    const offset = options.cursor ? decodeCursor(options.cursor) : 0;
+
+    const matches: { entry: IndexedToken, score: number }[] = [];
+    for (const entry of index) {
+        if (options.minPriceUSD !== undefined && entry.price < options.minPriceUSD) continue;
+        if (options.verified && !entry.token.coinKey) continue;
+        if (tags && !tags.every((tag) => entry.tags.includes(tag))) continue;
+        const score = query ? scoreToken(entry, query) : 0;
+        if (query && score === 0) continue;
+        matches.push({ entry, score });
+    }
+
+    matches.sort((a, b) => {
+        if (sort === "symbol") return a.entry.symbol.localeCompare(b.entry.symbol);
+        if (sort === "relevance" && a.score !== b.score) return b.score - a.score;
+        return b.entry.price - a.entry.price;
+    });
+
+    const page = matches.slice(offset, offset + limit);
+    const nextOffset = offset + page.length;
+    return {
+        tokens: page.map(({ entry }) => summarizeToken(entry.token)),
+        total: matches.length,
+        nextCursor: nextOffset < matches.length ? encodeCursor(nextOffset) : undefined,
+    };
+}
@@ -0,0 +1,136 @@
+import { z } from "zod";
+import type { McpServer, RegisteredTool } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { safeStringify } from "./helper.js";
+import { classifyError, errorResult, ToolError, type ToolErrorInfo } from "./errors.js";
+import type { Tracer } from "./tracing.js";
+
+// Remove tools rejected by the predicate right after registration, so they are neither listed nor callable.
+// Policies compose: calling this again on the same server adds another predicate.
+export function restrictTools(server: McpServer, isAllowed: (name: string) => boolean) {
+    const tool = server.tool.bind(server) as (...args: any[]) => ReturnType<McpServer["tool"]>;
+    const registerTool = server.registerTool.bind(server);
+
+    server.tool = ((name: string, ...rest: any[]) => {
+        const registered = tool(name, ...rest);
+        if (!isAllowed(name)) registered.remove();
+        return registered;
+    }) as McpServer["tool"];
+
+    server.registerTool = ((name, config, cb) => {
+        const registered = registerTool(name, config, cb);
+        if (!isAllowed(name)) registered.remove();
+        return registered;
+    }) as McpServer["registerTool"];
+}
+
+// Validate the structuredContent of successful calls against the tool's output schema before it is sent.
+// bigint values are serialized first; a result that does not match (e.g. upstream drift) becomes an upstream_error.
+export function validateToolOutputs(server: McpServer) {
+    const registerTool = server.registerTool.bind(server);
+
+    server.registerTool = ((name, config, cb) => {
+        if (!config.outputSchema) {
+            return registerTool(name, config, cb);
+        }
+        const outputSchema = z.object(config.outputSchema);
+        const validated = async (...args: any[]) => {
+            const result = await (cb as (...args: any[]) => any)(...args);
+            if (result.isError || !result.structuredContent) {
+                return result;
+            }
+            const parsed = outputSchema.safeParse(JSON.parse(safeStringify(result.structuredContent)));
+            if (parsed.success) {
+                return { ...result, structuredContent: parsed.data };
+            }
+            const issues = parsed.error.issues.slice(0, 3).map((issue) => `${issue.path.join(".")}: ${issue.message}`).join("; ");
+            return errorResult(new ToolError("upstream_error", `Unexpected response shape (${issues})`), `Failed to validate ${name} output`);
+        };
+        return registerTool(name, config, validated as typeof cb);
+    }) as McpServer["registerTool"];
+}
+
+// Disable tools rejected by the predicate without removing them, so a changed policy can bring them back.
+// Returns a function that re-applies the predicate to every tool registered so far, notifying clients of changes.
+export function toggleTools(server: McpServer, isEnabled: (name: string) => boolean) {
+    const registered = new Map<string, RegisteredTool>();
+    const tool = server.tool.bind(server) as (...args: any[]) => RegisteredTool;
+    const registerTool = server.registerTool.bind(server);
+
+    server.tool = ((name: string, ...rest: any[]) => {
+        const added = tool(name, ...rest);
+        registered.set(name, added);
+        if (!isEnabled(name)) added.disable();
+        return added;
+    }) as McpServer["tool"];
+
+    server.registerTool = ((name, config, cb) => {
+        const added = registerTool(name, config, cb);
+        registered.set(name, added);
+        if (!isEnabled(name)) added.disable();
+        return added;
+    }) as McpServer["registerTool"];
+
+    return () => {
+        for (const [name, added] of registered) {
+            const enabled = isEnabled(name);
+            if (enabled !== added.enabled) {
+                if (enabled) added.enable();
+                else added.disable();
+            }
+        }
+    };
+}
+
+export interface ToolCallRecord {
+    tool: string;
+    sessionId?: string;
+    clientId?: string;
+    durationMs: number;
+    // Set when the call failed, whether the tool returned an error result or threw
+    error?: ToolErrorInfo;
+}
+
+// Error of a failed tool result, from the structured content or the JSON text errorResult writes
+function resultError(result: any): ToolErrorInfo | undefined {
+    if (!result?.isError) return undefined;
+    if (result.structuredContent?.error) return result.structuredContent.error;
+    try {
+        return JSON.parse(result.content?.[0]?.text).error ?? classifyError(new Error(result.content?.[0]?.text));
+    } catch {
+        return classifyError(new Error(result.content?.[0]?.text ?? "Tool failed"));
+    }
+}
+
+// Run every tool call in a span and report its duration and outcome. Apply it before validateToolOutputs:
+// policies applied later wrap the handler first, so the observed handler is the validated one and the reported
+// outcome is the one the client receives.
+export function observeTools(server: McpServer, tracer: Tracer, onCall: (call: ToolCallRecord) => void) {
+    const registerTool = server.registerTool.bind(server);
+
+    server.registerTool = ((name, config, cb) => {
+        const observed = async (...args: any[]) => {
+            const extra = args[args.length - 1];
+            const started = performance.now();
+            const call = { tool: name, sessionId: extra?.sessionId, clientId: extra?.authInfo?.clientId };
+            return tracer.withSpan(`tool ${name}`, {
+                kind: "server",
+                attributes: { "mcp.tool": name, "mcp.session_id": call.sessionId, "enduser.id": call.clientId },
+            }, async (span) => {
+                try {
+                    const result = await (cb as (...args: any[]) => any)(...args);
+                    const error = resultError(result);
+                    if (error) {
+                        span.setAttributes({ "error.type": error.code });
+                        span.setStatus("error", error.message);
+                    }
+                    onCall({ ...call, durationMs: performance.now() - started, error });
+                    return result;
+                } catch (error) {
+                    onCall({ ...call, durationMs: performance.now() - started, error: classifyError(error) });
+                    throw error;
+                }
+            });
+        };
+        return registerTool(name, config, observed as typeof cb);
+    }) as McpServer["registerTool"];
+}
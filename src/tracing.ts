@@ -0,0 +1,232 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { randomBytes } from "node:crypto";
+
+export type SpanKind = "internal" | "server" | "client";
+export type AttributeValue = string | number | boolean;
+export type Attributes = { [key: string]: AttributeValue | undefined };
+
+export interface SpanContext {
+    traceId: string;
+    spanId: string;
+}
+
+export interface SpanOptions {
+    kind?: SpanKind;
+    attributes?: Attributes;
+}
+
+export interface FinishedSpan {
+    name: string;
+    kind: SpanKind;
+    context: SpanContext;
+    parentSpanId?: string;
+    startTimeNs: bigint;
+    endTimeNs: bigint;
+    attributes: Attributes;
+    status: { code: "unset" | "ok" | "error", message?: string };
+    events: { name: string, timeNs: bigint, attributes: Attributes }[];
+}
+
+export interface Span {
+    context: SpanContext;
+    setAttributes(attributes: Attributes): void;
+    addEvent(name: string, attributes?: Attributes): void;
+    setStatus(code: "ok" | "error", message?: string): void;
+    recordError(error: any): void;
+    end(): void;
+}
+
+export interface SpanExporter {
+    export(spans: FinishedSpan[]): Promise<void>;
+}
+
+// The span the current async context runs in
+const activeSpans = new AsyncLocalStorage<SpanContext>();
+
+export function activeSpanContext() {
+    return activeSpans.getStore();
+}
+
+// Run fn with a parent from a W3C traceparent header, e.g. of the HTTP request carrying an MCP message
+export function withTraceparent<T>(traceparent: string | undefined, fn: () => T): T {
+    const [, traceId, spanId] = traceparent?.match(/^[\da-f]{2}-([\da-f]{32})-([\da-f]{16})-[\da-f]{2}$/) ?? [];
+    return traceId && !/^0+$/.test(traceId) ? activeSpans.run({ traceId, spanId }, fn) : fn();
+}
+
+// Wall clock in nanoseconds with the monotonic clock's resolution
+const originNs = BigInt(Date.now()) * 1_000_000n - process.hrtime.bigint();
+const nowNs = () => originNs + process.hrtime.bigint();
+
+// Minimal tracer with the OpenTelemetry span model: spans nest through the async context and are handed to
+// the exporter in batches once ended.
+export function createTracer({ exporter, batchSize = 512, maxQueued = 2_048, flushIntervalMs = 5_000 }: {
+    exporter?: SpanExporter;
+    batchSize?: number;
+    maxQueued?: number;
+    flushIntervalMs?: number;
+} = {}) {
+    const queue: FinishedSpan[] = [];
+    let timer: NodeJS.Timeout | undefined;
+    let exporting: Promise<void> = Promise.resolve();
+
+    const flush = () => {
+        if (!exporter || queue.length === 0) return exporting;
+        const batch = queue.splice(0, batchSize);
+        exporting = exporting.then(() => exporter.export(batch)).catch(() => undefined);
+        return exporting;
+    };
+
+    const startSpan = (name: string, { kind = "internal", attributes = {} }: SpanOptions = {}): Span => {
+        const parent = activeSpans.getStore();
+        const span: FinishedSpan = {
+            name,
+            kind,
+            context: { traceId: parent?.traceId ?? randomBytes(16).toString("hex"), spanId: randomBytes(8).toString("hex") },
+            parentSpanId: parent?.spanId,
+            startTimeNs: nowNs(),
+            endTimeNs: 0n,
+            attributes: { ...attributes },
+            status: { code: "unset" },
+            events: [],
+        };
+        return {
+            context: span.context,
+            setAttributes(attributes: Attributes) {
+                Object.assign(span.attributes, attributes);
+            },
+            addEvent(name: string, attributes: Attributes = {}) {
+                span.events.push({ name, timeNs: nowNs(), attributes });
+            },
+            setStatus(code: "ok" | "error", message?: string) {
+                span.status = { code, message };
+            },
+            recordError(error: any) {
+                span.events.push({ name: "exception", timeNs: nowNs(), attributes: { "exception.type": error?.name, "exception.message": error?.message ?? String(error) } });
+                span.status = { code: "error", message: error?.message ?? String(error) };
+            },
+            end() {
+                if (span.endTimeNs || !exporter) return;
+                span.endTimeNs = nowNs();
+                if (queue.length >= maxQueued) queue.shift();
+                queue.push(span);
+                if (queue.length >= batchSize) void flush();
+            },
+        };
+    };
+
+    return {
+        startSpan,
+
+        // Run fn in a new span that is active for everything fn awaits; a thrown error marks the span failed
+        async withSpan<T>(name: string, options: SpanOptions, fn: (span: Span) => Promise<T>): Promise<T> {
+            const span = startSpan(name, options);
+            try {
+                return await activeSpans.run(span.context, () => fn(span));
+            } catch (error) {
+                span.recordError(error);
+                throw error;
+            } finally {
+                span.end();
+            }
+        },
+
+        start() {
+            if (!exporter) return;
+            timer = setInterval(() => void flush(), flushIntervalMs);
+            timer.unref();
+        },
+
+        // Export what is queued, e.g. before exiting
+        async stop() {
+            clearInterval(timer);
+            while (queue.length > 0) {
+                await flush();
+            }
+            await exporting;
+        },
+    };
+}
+
+export type Tracer = ReturnType<typeof createTracer>;
+
+const otlpKinds = { internal: 1, server: 2, client: 3 };
+const otlpStatus = { unset: 0, ok: 1, error: 2 };
+
+function otlpAttributes(attributes: Attributes) {
+    return Object.entries(attributes)
+        .filter(([, value]) => value !== undefined)
+        .map(([key, value]) => ({
+            key,
+            value: typeof value === "number"
+                ? Number.isInteger(value) ? { intValue: value } : { doubleValue: value }
+                : typeof value === "boolean" ? { boolValue: value } : { stringValue: String(value) },
+        }));
+}
+
+// OTLP/HTTP JSON exporter, e.g. for an OpenTelemetry Collector on http://localhost:4318/v1/traces.
+// Failed exports are dropped with a warning, tracing must never hold up requests.
+export function createOtlpExporter({ url, headers = {}, serviceName, onError }: {
+    url: string;
+    headers?: { [name: string]: string };
+    serviceName: string;
+    onError?: (error: Error) => void;
+}): SpanExporter {
+    return {
+        async export(spans) {
+            const body = {
+                resourceSpans: [{
+                    resource: { attributes: otlpAttributes({ "service.name": serviceName }) },
+                    scopeSpans: [{
+                        scope: { name: serviceName },
+                        spans: spans.map((span) => ({
+                            traceId: span.context.traceId,
+                            spanId: span.context.spanId,
+                            parentSpanId: span.parentSpanId,
+                            name: span.name,
+                            kind: otlpKinds[span.kind],
+                            startTimeUnixNano: span.startTimeNs.toString(),
+                            endTimeUnixNano: span.endTimeNs.toString(),
+                            attributes: otlpAttributes(span.attributes),
+                            events: span.events.map((event) => ({
+                                name: event.name,
+                                timeUnixNano: event.timeNs.toString(),
+                                attributes: otlpAttributes(event.attributes),
+                            })),
+                            status: { code: otlpStatus[span.status.code], message: span.status.message },
+                        })),
+                    }],
+                }],
+            };
+            try {
+                const res = await fetch(url, {
+                    method: "POST",
+                    headers: { "content-type": "application/json", ...headers },
+                    body: JSON.stringify(body),
+                    signal: AbortSignal.timeout(10_000),
+                });
+                if (!res.ok) {
+                    throw new Error(`HTTP ${res.status}: ${await res.text()}`);
+                }
+            } catch (error: any) {
+                onError?.(error);
+            }
+        },
+    };
+}
+
+// Standard OpenTelemetry variables: OTEL_EXPORTER_OTLP_TRACES_ENDPOINT or OTEL_EXPORTER_OTLP_ENDPOINT,
+// OTEL_EXPORTER_OTLP_HEADERS (k=v,k=v) and OTEL_SERVICE_NAME. Without an endpoint spans are not recorded.
+export function createTracerFromEnv(env: NodeJS.ProcessEnv = process.env, onError?: (error: Error) => void) {
+    const base = env.OTEL_EXPORTER_OTLP_ENDPOINT?.replace(/\/$/, "");
+    const url = env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT || (base ? `${base}/v1/traces` : undefined);
+    if (!url || env.OTEL_TRACES_EXPORTER === "none") {
+        return createTracer();
+    }
+    const headers = Object.fromEntries((env.OTEL_EXPORTER_OTLP_HEADERS ?? "")
+        .split(",")
+        .map((pair) => [pair.slice(0, pair.indexOf("=")), pair.slice(pair.indexOf("=") + 1)].map((part) => decodeURIComponent(part.trim())))
+        .filter(([key]) => key));
+    return createTracer({
+        exporter: createOtlpExporter({ url, headers, serviceName: env.OTEL_SERVICE_NAME || "helixbox-mcp", onError }),
+    });
+}
@@ -0,0 +1,262 @@
+import { z } from "zod";
+import { readFile, writeFile, mkdir, rename } from "node:fs/promises";
+import { dirname } from "node:path";
+import { getStatus, type StatusResponse } from "@lifi/sdk";
+import { logger } from "./logger.js";
+
+export const transferSchema = z.object({
+    txHash: z.string().describe("Source transaction hash"),
+    fromChain: z.number().optional().describe("Source chain ID"),
+    toChain: z.number().optional().describe("Target chain ID"),
+    bridge: z.string().optional().describe("Bridge key"),
+    label: z.string().optional().describe("Free-form label"),
+    clientId: z.string().optional().describe("Client that tracks the transfer, unset without authentication"),
+    status: z.string().describe("Transfer status (NOT_FOUND, INVALID, PENDING, DONE, FAILED)"),
+    substatus: z.string().optional().describe("Transfer substatus"),
+    substatusMessage: z.string().optional().describe("Substatus message"),
+    sendingTxLink: z.string().optional().describe("Source transaction explorer link"),
+    receivingTxHash: z.string().optional().describe("Destination transaction hash"),
+    receivingTxLink: z.string().optional().describe("Destination transaction explorer link"),
+    lifiExplorerLink: z.string().optional().describe("LI.FI explorer link"),
+    error: z.string().optional().describe("Last polling error"),
+    polls: z.number().describe("Number of status polls"),
+    createdAt: z.number().describe("Tracking start (ms since epoch)"),
+    updatedAt: z.number().describe("Last status change (ms since epoch)"),
+    nextPollAt: z.number().optional().describe("Next scheduled poll (ms since epoch), unset once final"),
+});
+
+export type Transfer = z.infer<typeof transferSchema>;
+
+export interface TrackTransferParams {
+    txHash: string;
+    fromChain?: number;
+    toChain?: number;
+    bridge?: string;
+    label?: string;
+    clientId?: string;
+}
+
+export interface TransferTrackerOptions {
+    file: string;
+    // First poll delay in ms, doubled after every unchanged poll
+    pollInterval?: number;
+    maxPollInterval?: number;
+    tickInterval?: number;
+    // How long DONE and FAILED transfers are kept after their last status change
+    retentionMs?: number;
+    // Status lookup, defaults to the SDK's getStatus
+    getStatus?: typeof getStatus;
+}
+
+export type TransferListener = (transfer: Transfer) => void;
+
+const finalStatuses = ["DONE", "FAILED"];
+
+export function isFinalTransfer(transfer: Transfer) {
+    return finalStatuses.includes(transfer.status);
+}
+
+export function describeTransfer(transfer: Transfer) {
+    const substatus = transfer.substatus ? ` (${transfer.substatus})` : "";
+    return `${transfer.label ? `${transfer.label} ` : ""}${transfer.txHash}: ${transfer.status}${substatus}`;
+}
+
+function applyStatus(transfer: Transfer, status: StatusResponse): boolean {
+    const receiving = "receiving" in status && "txHash" in status.receiving ? status.receiving : undefined;
+    const next = {
+        status: status.status,
+        substatus: status.substatus,
+        substatusMessage: status.substatusMessage,
+        sendingTxLink: status.sending?.txLink,
+        receivingTxHash: receiving?.txHash,
+        receivingTxLink: receiving?.txLink,
+        lifiExplorerLink: "lifiExplorerLink" in status ? status.lifiExplorerLink : undefined,
+        bridge: transfer.bridge ?? ("tool" in status ? status.tool : undefined),
+    };
+    const changed = (Object.keys(next) as (keyof typeof next)[]).some((key) => next[key] !== transfer[key]);
+    Object.assign(transfer, next);
+    return changed;
+}
+
+// Tracks submitted transfers, polls getStatus with exponential backoff and persists to a JSON file
+export function createTransferTracker({ file, pollInterval = 15_000, maxPollInterval = 5 * 60_000, tickInterval = 5_000, retentionMs = 7 * 24 * 60 * 60_000, getStatus: fetchStatus = getStatus }: TransferTrackerOptions) {
+    const transfers = new Map<string, Transfer>();
+    const intervals = new Map<string, number>();
+    const listeners = new Set<TransferListener>();
+    // Polls in progress, so that track() and the polling loop never poll the same transfer at once
+    const inFlight = new Map<string, Promise<void>>();
+    let timer: NodeJS.Timeout | undefined;
+    let polling = false;
+    let saving: Promise<void> = Promise.resolve();
+
+    // Each client tracks its own transfers, the same transaction tracked by two clients is two transfers
+    const key = (txHash: string, clientId?: string) => `${clientId ?? ""}:${txHash.toLowerCase()}`;
+
+    const save = () => {
+        // Serialize writes and replace the file atomically
+        saving = saving.then(async () => {
+            await mkdir(dirname(file), { recursive: true });
+            await writeFile(`${file}.tmp`, JSON.stringify([...transfers.values()], null, 2));
+            await rename(`${file}.tmp`, file);
+        }).catch((error) => {
+            logger.error("Failed to persist transfers", { file, error });
+        });
+        return saving;
+    };
+
+    const emit = (transfer: Transfer) => {
+        for (const listener of listeners) {
+            try {
+                listener({ ...transfer });
+            } catch {
+                // listeners must not break polling
+            }
+        }
+    };
+
+    const pollStatus = async (transfer: Transfer) => {
+        const transferKey = key(transfer.txHash, transfer.clientId);
+        const interval = intervals.get(transferKey) ?? pollInterval;
+        let changed = false;
+        try {
+            const status = await fetchStatus({
+                txHash: transfer.txHash,
+                bridge: transfer.bridge,
+                fromChain: transfer.fromChain,
+                toChain: transfer.toChain,
+            });
+            changed = applyStatus(transfer, status);
+            if (transfer.error) {
+                transfer.error = undefined;
+                changed = true;
+            }
+        } catch (error: any) {
+            changed = transfer.error !== error.message;
+            transfer.error = error.message;
+        }
+        transfer.polls++;
+        if (isFinalTransfer(transfer)) {
+            transfer.nextPollAt = undefined;
+            intervals.delete(transferKey);
+        } else {
+            // Reset the backoff on progress, otherwise double it
+            const nextInterval = changed ? pollInterval : Math.min(interval * 2, maxPollInterval);
+            intervals.set(transferKey, nextInterval);
+            transfer.nextPollAt = Date.now() + nextInterval;
+        }
+        if (changed) {
+            transfer.updatedAt = Date.now();
+            emit(transfer);
+        }
+    };
+
+    // Join the poll already in progress for the transfer, if any
+    const poll = (transfer: Transfer) => {
+        const transferKey = key(transfer.txHash, transfer.clientId);
+        let pending = inFlight.get(transferKey);
+        if (!pending) {
+            pending = pollStatus(transfer).finally(() => inFlight.delete(transferKey));
+            inFlight.set(transferKey, pending);
+        }
+        return pending;
+    };
+
+    // Drop final transfers past their retention; returns whether any were dropped
+    const evict = (now: number) => {
+        let evicted = false;
+        for (const [transferKey, transfer] of transfers) {
+            if (isFinalTransfer(transfer) && transfer.updatedAt + retentionMs <= now) {
+                transfers.delete(transferKey);
+                evicted = true;
+            }
+        }
+        return evicted;
+    };
+
+    const tick = async () => {
+        if (polling) return;
+        polling = true;
+        try {
+            const now = Date.now();
+            const due = [...transfers.values()].filter((transfer) => transfer.nextPollAt !== undefined && transfer.nextPollAt <= now);
+            for (const transfer of due) {
+                await poll(transfer);
+            }
+            if (evict(now) || due.length > 0) {
+                await save();
+            }
+        } finally {
+            polling = false;
+        }
+    };
+
+    return {
+        // Load persisted transfers and start the polling loop
+        async start() {
+            try {
+                const saved = z.array(transferSchema).parse(JSON.parse(await readFile(file, "utf8")));
+                for (const transfer of saved) {
+                    transfers.set(key(transfer.txHash, transfer.clientId), transfer);
+                }
+                evict(Date.now());
+            } catch (error: any) {
+                if (error.code !== "ENOENT") {
+                    logger.error("Failed to load transfers", { file, error });
+                }
+            }
+            timer = setInterval(() => { tick(); }, tickInterval);
+            timer.unref();
+        },
+
+        async stop() {
+            clearInterval(timer);
+            await save();
+        },
+
+        // Record a transfer and poll its status right away
+        async track(params: TrackTransferParams): Promise<Transfer> {
+            const existing = transfers.get(key(params.txHash, params.clientId));
+            if (existing) {
+                return { ...existing };
+            }
+            const now = Date.now();
+            const transfer: Transfer = {
+                ...params,
+                status: "NOT_FOUND",
+                polls: 0,
+                createdAt: now,
+                updatedAt: now,
+                nextPollAt: now,
+            };
+            transfers.set(key(params.txHash, params.clientId), transfer);
+            await poll(transfer);
+            await save();
+            return { ...transfer };
+        },
+
+        // A transfer of the given client, which sees only the transfers it tracks
+        get(txHash: string, clientId?: string): Transfer | undefined {
+            const transfer = transfers.get(key(txHash, clientId));
+            return transfer ? { ...transfer } : undefined;
+        },
+
+        list(filter: { clientId?: string, status?: string, pendingOnly?: boolean } = {}): Transfer[] {
+            return [...transfers.values()]
+                .filter((transfer) => transfer.clientId === filter.clientId)
+                .filter((transfer) => !filter.status || transfer.status === filter.status)
+                .filter((transfer) => !filter.pendingOnly || !isFinalTransfer(transfer))
+                .sort((a, b) => b.createdAt - a.createdAt)
+                .map((transfer) => ({ ...transfer }));
+        },
+
+        // Subscribe to status changes; returns the unsubscribe function
+        subscribe(listener: TransferListener) {
+            listeners.add(listener);
+            return () => {
+                listeners.delete(listener);
+            };
+        },
+    };
+}
+
+export type TransferTracker = ReturnType<typeof createTransferTracker>;
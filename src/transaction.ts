@@ -0,0 +1,180 @@
+import { z } from "zod";
+import type { LiFiStep } from "@lifi/sdk";
+import { encodeFunctionData, erc20Abi, toHex, type Address, type Hex } from "viem";
+import { ToolError, toolErrorSchema } from "./errors.js";
+import type { ChainClient } from "./rpc.js";
+
+const transactionFields = {
+    chainId: z.number().describe("Chain ID"),
+    from: z.string().describe("Sender address"),
+    to: z.string().describe("Recipient / contract address"),
+    data: z.string().describe("Calldata"),
+    value: z.string().describe("Native value in wei (hex)"),
+    gas: z.string().describe("Gas limit (hex)"),
+    nonce: z.number().optional().describe("Pending nonce of the sender at build time (hint only)"),
+};
+
+// Unsigned transaction, EIP-1559 or legacy on chains without 1559 support; quantities are hex strings as in JSON-RPC
+export const unsignedTransactionSchema = z.discriminatedUnion("type", [
+    z.object({
+        type: z.literal("eip1559").describe("Transaction type"),
+        ...transactionFields,
+        maxFeePerGas: z.string().describe("Max fee per gas in wei (hex)"),
+        maxPriorityFeePerGas: z.string().describe("Max priority fee per gas in wei (hex)"),
+    }),
+    z.object({
+        type: z.literal("legacy").describe("Transaction type"),
+        ...transactionFields,
+        gasPrice: z.string().describe("Gas price in wei (hex)"),
+    }),
+]);
+
+export type UnsignedTransaction = z.infer<typeof unsignedTransactionSchema>;
+
+export const approvalSchema = z.object({
+    token: z.string().describe("Token address"),
+    spender: z.string().describe("Spender address"),
+    amount: z.string().describe("Amount to approve in smallest unit"),
+    currentAllowance: z.string().describe("Current allowance in smallest unit"),
+    transaction: unsignedTransactionSchema,
+});
+
+export type Approval = z.infer<typeof approvalSchema>;
+
+export const builtTransactionSchema = {
+    step: z.object({
+        id: z.string().describe("Step ID"),
+        tool: z.string().describe("Bridge or exchange used"),
+        fromChainId: z.number().describe("Source chain ID"),
+        toChainId: z.number().describe("Target chain ID"),
+        fromToken: z.string().describe("Source token address"),
+        toToken: z.string().describe("Target token address"),
+        fromAmount: z.string().describe("Amount in smallest unit (string)"),
+    }).optional().describe("Step the transaction executes"),
+    approval: approvalSchema.optional().describe("ERC-20 approve transaction to send first, if needed"),
+    transaction: unsignedTransactionSchema.optional().describe("Unsigned transaction"),
+    error: toolErrorSchema.optional().describe("Error"),
+};
+
+const nativeTokenAddresses = [
+    "0x0000000000000000000000000000000000000000",
+    "0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee",
+];
+
+export function isNativeToken(address: string) {
+    return nativeTokenAddresses.includes(address.toLowerCase());
+}
+
+// Fetches the transaction of a step quoted without one from LI.FI
+export type FetchStepTransaction = (step: LiFiStep) => Promise<LiFiStep>;
+
+// Fill in EIP-1559 fees, falling back to a legacy transaction at the gas price on chains without 1559 support
+async function estimateFees(client: ChainClient, fallbackGasPrice?: string) {
+    try {
+        const fees = await client.estimateFeesPerGas();
+        return { type: "eip1559" as const, maxFeePerGas: toHex(fees.maxFeePerGas), maxPriorityFeePerGas: toHex(fees.maxPriorityFeePerGas) };
+    } catch {
+        const gasPrice = fallbackGasPrice ? BigInt(fallbackGasPrice) : await client.getGasPrice();
+        return { type: "legacy" as const, gasPrice: toHex(gasPrice) };
+    }
+}
+
+async function getNonceHint(client: ChainClient, address: Address) {
+    try {
+        return await client.getTransactionCount({ address, blockTag: "pending" });
+    } catch {
+        return undefined;
+    }
+}
+
+// Build an ERC-20 approve transaction; amount 0 revokes the allowance
+export async function buildApproveTransaction({ client, token, spender, amount, from, nonce }: { client: ChainClient, token: string, spender: string, amount: bigint, from: Address, nonce?: number }): Promise<UnsignedTransaction> {
+    const data = encodeFunctionData({
+        abi: erc20Abi,
+        functionName: "approve",
+        args: [spender as Address, amount],
+    });
+    const [fees, gas] = await Promise.all([
+        estimateFees(client),
+        client.estimateGas({ account: from, to: token as Address, data }),
+    ]);
+    return {
+        ...fees,
+        chainId: client.chain.id,
+        from,
+        to: token,
+        data,
+        value: "0x0",
+        gas: toHex(gas),
+        nonce: nonce ?? await getNonceHint(client, from),
+    };
+}
+
+// Build the ERC-20 approve transaction needed before the step, if the current allowance is too low
+export async function buildApproval(step: LiFiStep, client: ChainClient, from: Address, nonce?: number): Promise<Approval | undefined> {
+    const spender = step.estimate?.approvalAddress;
+    const token = step.action.fromToken;
+    if (!spender || isNativeToken(token.address)) {
+        return undefined;
+    }
+    const amount = BigInt(step.action.fromAmount);
+    const allowance = await client.readContract({ address: token.address as Address, abi: erc20Abi, functionName: "allowance", args: [from, spender as Address] });
+    if (allowance >= amount) {
+        return undefined;
+    }
+    return {
+        token: token.address,
+        spender,
+        amount: amount.toString(),
+        currentAllowance: allowance.toString(),
+        transaction: await buildApproveTransaction({ client, token: token.address, spender, amount, from, nonce }),
+    };
+}
+
+// Turn a quote or route step into a ready-to-sign transaction plus any approval needed first
+export async function buildTransaction(step: LiFiStep, client: ChainClient, fetchStepTransaction: FetchStepTransaction) {
+    if (!step.transactionRequest) {
+        step = await fetchStepTransaction(step);
+    }
+    const request = step.transactionRequest;
+    if (!request?.to || !request.data) {
+        throw new ToolError("invalid_input", `Step ${step.id} has no transaction request`);
+    }
+    const from = (request.from || step.action.fromAddress) as Address | undefined;
+    if (!from) {
+        throw new ToolError("invalid_input", `Step ${step.id} has no sender address`);
+    }
+
+    const fees = await estimateFees(client, request.gasPrice);
+    const nonce = await getNonceHint(client, from);
+    const approval = await buildApproval(step, client, from, nonce);
+    const value = BigInt(request.value || 0);
+    const gas = request.gasLimit
+        ? BigInt(request.gasLimit)
+        : await client.estimateGas({ account: from, to: request.to as Address, data: request.data as Hex, value });
+
+    const transaction: UnsignedTransaction = {
+        ...fees,
+        chainId: request.chainId ?? client.chain.id,
+        from,
+        to: request.to,
+        data: request.data,
+        value: toHex(value),
+        gas: toHex(gas),
+        nonce: nonce === undefined ? undefined : approval ? nonce + 1 : nonce,
+    };
+
+    return {
+        step: {
+            id: step.id,
+            tool: step.tool,
+            fromChainId: step.action.fromChainId,
+            toChainId: step.action.toChainId,
+            fromToken: step.action.fromToken.address,
+            toToken: step.action.toToken.address,
+            fromAmount: step.action.fromAmount,
+        },
+        approval,
+        transaction,
+    };
+}
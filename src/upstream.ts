@@ -0,0 +1,239 @@
+import { safeStringify } from "./helper.js";
+import { classifyError, ToolError, type ToolErrorInfo } from "./errors.js";
+import type { Span, Tracer } from "./tracing.js";
+
+// Thrown when a request budget is exhausted
+export class RateLimitedError extends ToolError {
+    constructor(public scope: "api_key" | "session" | "upstream", retryAfterMs: number) {
+        super("rate_limited", `Rate limited (${scope}), retry in ${Math.ceil(retryAfterMs / 1000)}s`, { retryAfterMs });
+        this.name = "RateLimitedError";
+    }
+}
+
+// Thrown by fetchJson for non-2xx responses, keeping the status for retry decisions
+export class UpstreamHTTPError extends Error {
+    constructor(public status: number, public body: string, public retryAfter?: string | null) {
+        super(`HTTP ${status}: ${body}`);
+        this.name = "UpstreamHTTPError";
+    }
+}
+
+export interface TokenBucketOptions {
+    capacity: number;
+    refillPerSecond: number;
+}
+
+// Classic token bucket: take() returns 0 when a token was taken, otherwise ms until one is available
+export function createTokenBucket({ capacity, refillPerSecond }: TokenBucketOptions) {
+    let tokens = capacity;
+    let updatedAt = Date.now();
+    const refill = () => {
+        const now = Date.now();
+        tokens = Math.min(capacity, tokens + (now - updatedAt) / 1000 * refillPerSecond);
+        updatedAt = now;
+    };
+    return {
+        take() {
+            refill();
+            if (tokens >= 1) {
+                tokens -= 1;
+                return 0;
+            }
+            return Math.ceil((1 - tokens) / refillPerSecond * 1000);
+        },
+        isFull() {
+            refill();
+            return tokens >= capacity;
+        },
+    };
+}
+
+export type TokenBucket = ReturnType<typeof createTokenBucket>;
+
+export interface UpstreamClientOptions {
+    apiKeyLimit?: TokenBucketOptions;
+    sessionLimit?: TokenBucketOptions;
+    // Longest a caller waits for a token or a Retry-After before getting rate_limited
+    maxWaitMs?: number;
+    maxRetries?: number;
+    baseBackoffMs?: number;
+    // Each upstream request runs in a span and is reported once it settled; coalesced callers share both
+    tracer?: Tracer;
+    onRequest?: (request: UpstreamRequestRecord) => void;
+}
+
+export interface CallOptions {
+    sessionId?: string;
+    // Name for spans and metrics, defaults to the key's method part
+    operation?: string;
+}
+
+export interface UpstreamRequestRecord {
+    operation: string;
+    durationMs: number;
+    retries: number;
+    error?: ToolErrorInfo;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Status and Retry-After of a failed request, for both fetchJson and LI.FI SDK errors (SDKError -> HTTPError)
+function getRateLimitInfo(error: any): { status?: number, retryAfter?: string | null } {
+    for (let current = error; current; current = current.cause) {
+        if (typeof current.status === "number") {
+            return { status: current.status, retryAfter: current.retryAfter ?? current.response?.headers?.get?.("retry-after") };
+        }
+    }
+    return {};
+}
+
+function parseRetryAfter(value?: string | null) {
+    if (!value) return undefined;
+    const seconds = Number(value);
+    if (!Number.isNaN(seconds)) return seconds * 1000;
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// Central client for every LI.FI call: per API key and per session token buckets,
+// 429 / 5xx retries with backoff, and coalescing of identical in-flight requests
+export function createUpstreamClient({
+    apiKeyLimit = { capacity: 20, refillPerSecond: 10 },
+    sessionLimit = { capacity: 10, refillPerSecond: 2 },
+    maxWaitMs = 2_000,
+    maxRetries = 3,
+    baseBackoffMs = 500,
+    tracer,
+    onRequest,
+}: UpstreamClientOptions = {}) {
+    const apiKeyBucket = createTokenBucket(apiKeyLimit);
+    const sessionBuckets = new Map<string, TokenBucket>();
+    const inFlight = new Map<string, Promise<unknown>>();
+
+    const acquire = async (bucket: TokenBucket, scope: RateLimitedError["scope"]) => {
+        const wait = bucket.take();
+        if (wait === 0) return;
+        if (wait > maxWaitMs) {
+            throw new RateLimitedError(scope, wait);
+        }
+        await sleep(wait);
+        await acquire(bucket, scope);
+    };
+
+    const execute = async <T>(fn: () => Promise<T>, onRetry: (attempt: number, status: number | undefined, backoffMs: number) => void): Promise<T> => {
+        for (let attempt = 0; ; attempt++) {
+            await acquire(apiKeyBucket, "api_key");
+            try {
+                return await fn();
+            } catch (error: any) {
+                const { status, retryAfter } = getRateLimitInfo(error);
+                const retryable = status === 429 || (status !== undefined && status >= 500);
+                if (!retryable || attempt >= maxRetries) {
+                    if (status === 429) {
+                        throw new RateLimitedError("upstream", parseRetryAfter(retryAfter) ?? baseBackoffMs * 2 ** attempt);
+                    }
+                    throw error;
+                }
+                const backoff = parseRetryAfter(retryAfter) ?? baseBackoffMs * 2 ** attempt * (1 + Math.random() / 2);
+                // A server error that outlasts the wait budget is reported as itself, only a 429 means rate limited
+                if (backoff > maxWaitMs) {
+                    if (status === 429) {
+                        throw new RateLimitedError("upstream", backoff);
+                    }
+                    throw error;
+                }
+                onRetry(attempt + 1, status, backoff);
+                await sleep(backoff);
+            }
+        }
+    };
+
+    const observe = async <T>(operation: string, fn: () => Promise<T>): Promise<T> => {
+        const started = performance.now();
+        let retries = 0;
+        const run = async (span?: Span) => {
+            try {
+                const result = await execute(fn, (attempt, status, backoffMs) => {
+                    retries = attempt;
+                    span?.addEvent("retry", { attempt, "http.response.status_code": status, "backoff.ms": Math.round(backoffMs) });
+                });
+                onRequest?.({ operation, durationMs: performance.now() - started, retries });
+                return result;
+            } catch (error) {
+                const info = classifyError(error);
+                span?.setAttributes({ "error.type": info.code, "http.response.status_code": info.upstreamStatus });
+                onRequest?.({ operation, durationMs: performance.now() - started, retries, error: info });
+                throw error;
+            }
+        };
+        return tracer ? tracer.withSpan(`lifi ${operation}`, { kind: "client", attributes: { "lifi.operation": operation } }, run) : run();
+    };
+
+    return {
+        // Run fn under the rate limits; concurrent calls with the same key share one upstream request
+        async call<T>(key: string, fn: () => Promise<T>, { sessionId, operation = key.split(":")[0] }: CallOptions = {}): Promise<T> {
+            if (sessionId) {
+                let bucket = sessionBuckets.get(sessionId);
+                if (!bucket) {
+                    bucket = createTokenBucket(sessionLimit);
+                    sessionBuckets.set(sessionId, bucket);
+                }
+                await acquire(bucket, "session");
+            }
+            const pending = inFlight.get(key);
+            if (pending) {
+                return pending as Promise<T>;
+            }
+            const promise = observe(operation, fn).finally(() => inFlight.delete(key));
+            inFlight.set(key, promise);
+            return promise;
+        },
+
+        // GET a li.quest endpoint; its operation name is the path with numeric segments such as chain IDs generalized
+        async fetchJson(url: string, init: RequestInit = {}, options: CallOptions = {}) {
+            const operation = `${init.method ?? "GET"} ${new URL(url).pathname.replace(/\/\d+(?=\/|$)/g, "/{id}")}`;
+            return this.call(`fetch:${url}`, async () => {
+                const res = await fetch(url, init);
+                if (!res.ok) {
+                    throw new UpstreamHTTPError(res.status, await res.text(), res.headers.get("retry-after"));
+                }
+                return res.json();
+            }, { operation, ...options });
+        },
+
+        // Drop the budget of a closed session
+        forgetSession(sessionId: string) {
+            sessionBuckets.delete(sessionId);
+        },
+    };
+}
+
+export type UpstreamClient = ReturnType<typeof createUpstreamClient>;
+
+// Limits in requests per second; the burst is how many requests can be sent at once after being idle
+export function createUpstreamClientFromEnv(options: Pick<UpstreamClientOptions, "tracer" | "onRequest"> = {}, env: NodeJS.ProcessEnv = process.env) {
+    const number = (name: string, fallback: number) => {
+        const value = env[name];
+        if (!value) {
+            return fallback;
+        }
+        const parsed = Number(value);
+        if (!Number.isFinite(parsed) || parsed <= 0) {
+            throw new Error(`${name} must be a positive number, got ${value}`);
+        }
+        return parsed;
+    };
+    const apiKeyRate = number("UPSTREAM_RATE_LIMIT", 10);
+    const sessionRate = number("SESSION_RATE_LIMIT", 2);
+    return createUpstreamClient({
+        apiKeyLimit: { refillPerSecond: apiKeyRate, capacity: number("UPSTREAM_BURST", apiKeyRate * 2) },
+        sessionLimit: { refillPerSecond: sessionRate, capacity: number("SESSION_BURST", sessionRate * 5) },
+        maxWaitMs: number("UPSTREAM_MAX_WAIT_MS", 2_000),
+        ...options,
+    });
+}
+
+// Stable coalescing key for an SDK call
+export function requestKey(method: string, params?: unknown) {
+    return `${method}:${safeStringify(params ?? null)}`;
+}
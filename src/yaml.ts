@@ -0,0 +1,214 @@
+export type YamlValue = string | number | boolean | null | YamlValue[] | { [key: string]: YamlValue };
+
+export class YamlError extends Error {
+    constructor(message: string, line?: number) {
+        super(line === undefined ? message : `${message} (line ${line})`);
+        this.name = "YamlError";
+    }
+}
+
+// Mappings have no prototype, so keys like __proto__ or constructor are plain keys and a lookup never finds
+// anything the file did not set
+function createMap(): { [key: string]: YamlValue } {
+    return Object.create(null);
+}
+
+function setKey(map: { [key: string]: YamlValue }, key: string, value: YamlValue, line: number) {
+    if (Object.hasOwn(map, key)) throw new YamlError(`Duplicate key ${key}`, line);
+    map[key] = value;
+}
+
+interface Line {
+    number: number;
+    indent: number;
+    text: string;
+}
+
+// Drop a trailing comment, i.e. a # at the start or after whitespace and outside quotes
+function stripComment(text: string) {
+    let quote: string | undefined;
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (quote) {
+            if (char === "\\" && quote === '"') i++;
+            else if (char === quote) quote = undefined;
+        } else if (char === '"' || char === "'") {
+            quote = char;
+        } else if (char === "#" && (i === 0 || /\s/.test(text[i - 1]))) {
+            return text.slice(0, i).trimEnd();
+        }
+    }
+    return text.trimEnd();
+}
+
+function parseScalar(text: string, line: number): YamlValue {
+    if (text.startsWith('"')) {
+        try {
+            return JSON.parse(text);
+        } catch {
+            throw new YamlError(`Invalid double quoted string ${text}`, line);
+        }
+    }
+    if (text.startsWith("'")) {
+        if (!/^'(?:[^']|'')*'$/.test(text)) throw new YamlError(`Invalid single quoted string ${text}`, line);
+        return text.slice(1, -1).replace(/''/g, "'");
+    }
+    if (/^[|>&*!]/.test(text)) {
+        throw new YamlError(`Block scalars, anchors, aliases and tags are not supported: ${text}`, line);
+    }
+    if (/^(?:~|null|Null|NULL)?$/.test(text)) return null;
+    if (/^(?:true|True|TRUE)$/.test(text)) return true;
+    if (/^(?:false|False|FALSE)$/.test(text)) return false;
+    if (/^[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?$/.test(text)) return Number(text);
+    return text;
+}
+
+// Flow collections, e.g. [a, b] or { ttlMs: 1000 }, nested as deep as needed
+function parseFlow(text: string, line: number): YamlValue {
+    let position = 0;
+    const skipSpaces = () => {
+        while (/\s/.test(text[position] ?? "")) position++;
+    };
+    const expect = (char: string) => {
+        skipSpaces();
+        if (text[position] !== char) throw new YamlError(`Expected ${char} in ${text}`, line);
+        position++;
+    };
+    const scalar = (stops: string) => {
+        skipSpaces();
+        const start = position;
+        if (text[position] === '"' || text[position] === "'") {
+            const quote = text[position++];
+            while (position < text.length) {
+                if (quote === '"' && text[position] === "\\") {
+                    position += 2;
+                } else if (text[position] === quote && !(quote === "'" && text[position + 1] === "'")) {
+                    break;
+                } else {
+                    position += text[position] === quote ? 2 : 1;
+                }
+            }
+            position++;
+        } else {
+            while (position < text.length && !stops.includes(text[position])) position++;
+        }
+        return parseScalar(text.slice(start, position).trim(), line);
+    };
+    const value = (stops: string): YamlValue => {
+        skipSpaces();
+        if (text[position] === "[") {
+            position++;
+            const items: YamlValue[] = [];
+            skipSpaces();
+            while (text[position] !== "]") {
+                items.push(value(",]"));
+                skipSpaces();
+                if (text[position] !== ",") break;
+                position++;
+                skipSpaces();
+            }
+            expect("]");
+            return items;
+        }
+        if (text[position] === "{") {
+            position++;
+            const map = createMap();
+            skipSpaces();
+            while (text[position] !== "}") {
+                const key = scalar(":,}");
+                expect(":");
+                setKey(map, String(key), value(",}"), line);
+                skipSpaces();
+                if (text[position] !== ",") break;
+                position++;
+                skipSpaces();
+            }
+            expect("}");
+            return map;
+        }
+        return scalar(stops);
+    };
+    const result = value("");
+    skipSpaces();
+    if (position < text.length) throw new YamlError(`Unexpected ${text.slice(position)} after ${text.slice(0, position)}`, line);
+    return result;
+}
+
+function parseInline(text: string, line: number) {
+    return text.startsWith("[") || text.startsWith("{") ? parseFlow(text, line) : parseScalar(text, line);
+}
+
+const keyPattern = /^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^\s"'[{#-][^:]*?|-[^\s:][^:]*?)\s*:(?:\s+(.*))?$/;
+
+// Parser for the YAML subset config files need: block mappings and sequences, flow collections, quoted and plain
+// scalars and comments. Multi-document files, block scalars, anchors and tags are rejected rather than misread.
+export function parseYaml(source: string): YamlValue {
+    const lines: Line[] = [];
+    source.split(/\r?\n/).forEach((raw, index) => {
+        const text = stripComment(raw);
+        if (!text.trim() || (text === "---" && lines.length === 0)) return;
+        const indent = text.length - text.trimStart().length;
+        if (/^\s*\t/.test(text)) throw new YamlError("Tabs are not allowed in indentation", index + 1);
+        if (text === "---" || text === "...") throw new YamlError("Multiple documents are not supported", index + 1);
+        lines.push({ number: index + 1, indent, text: text.trim() });
+    });
+    let position = 0;
+
+    const isItem = (line: Line) => line.text === "-" || line.text.startsWith("- ");
+
+    // Value of an empty key or item: the nested block below it, or null
+    const nested = (parentIndent: number, allowSequence: boolean) => {
+        const next = lines[position];
+        if (next && (next.indent > parentIndent || (allowSequence && next.indent === parentIndent && isItem(next)))) {
+            return block(next.indent);
+        }
+        return null;
+    };
+
+    const sequence = (indent: number): YamlValue[] => {
+        const items: YamlValue[] = [];
+        while (position < lines.length && lines[position].indent === indent && isItem(lines[position])) {
+            const line = lines[position];
+            const rest = line.text.slice(1).trimStart();
+            if (!rest) {
+                position++;
+                items.push(nested(indent, false));
+            } else if (keyPattern.test(rest) && !rest.startsWith("[") && !rest.startsWith("{")) {
+                // "- key: value" opens a mapping whose keys line up with the first one
+                lines[position] = { number: line.number, indent: indent + line.text.length - rest.length, text: rest };
+                items.push(block(lines[position].indent));
+            } else {
+                position++;
+                items.push(parseInline(rest, line.number));
+            }
+        }
+        return items;
+    };
+
+    const mapping = (indent: number) => {
+        const map = createMap();
+        while (position < lines.length && lines[position].indent === indent && !isItem(lines[position])) {
+            const line = lines[position];
+            const match = line.text.match(keyPattern);
+            if (!match) throw new YamlError(`Expected "key: value", got ${line.text}`, line.number);
+            const key = String(parseScalar(match[1], line.number));
+            position++;
+            setKey(map, key, match[2] === undefined ? nested(indent, true) : parseInline(match[2], line.number), line.number);
+        }
+        return map;
+    };
+
+    const block = (indent: number): YamlValue => {
+        return isItem(lines[position]) ? sequence(indent) : mapping(indent);
+    };
+
+    if (lines.length === 0) return null;
+    if (lines.length === 1 && !keyPattern.test(lines[0].text) && !isItem(lines[0])) {
+        return parseInline(lines[0].text, lines[0].number);
+    }
+    const result = block(lines[0].indent);
+    if (position < lines.length) {
+        throw new YamlError("Unexpected indentation", lines[position].number);
+    }
+    return result;
+}